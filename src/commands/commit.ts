@@ -25,24 +25,108 @@ import {
     createLoggerAdapter,
 } from '@grunnverk/core';
 import { CommandError, ValidationError, ExternalDependencyError, checkForFileDependencies, logFileDependencyWarning, logFileDependencySuggestions, createStorage } from '@grunnverk/shared';
-import { run, validateString, stageFiles, unstageAll, verifyStagedFiles, safeJsonParse, validatePackageJson } from '@grunnverk/git-tools';
+import { run, runSecure, validateString, stageFiles, unstageAll, verifyStagedFiles, safeJsonParse, validatePackageJson } from '@grunnverk/git-tools';
 import { getRecentClosedIssuesForCommit } from '@grunnverk/github-tools';
 import {
-    createCompletionWithRetry,
     getUserChoice,
+    getUserTextInput,
     editContentInEditor,
     getLLMFeedbackInEditor,
     requireTTY,
     STANDARD_CHOICES,
     CommitContent,
     CommitContext,
-    runAgenticCommit,
     generateReflectionReport,
     createCommitPrompt,
 } from '@grunnverk/ai-service';
+import {
+    HunkSelection,
+    FileDiff,
+    parseDiff,
+    buildPartialPatch,
+    verifyHunkCoverage,
+    formatHunkRange,
+    getStagedDiff,
+    applyPatchToIndex,
+    getIndexBlob,
+    getCommitBlob,
+} from '../util/hunks';
+import {
+    SplitBackup,
+    createSplitBackup,
+    readSplitBackup,
+    restoreSplitBackup,
+    isBackupAncestorOfHead,
+    clearSplitBackup,
+} from '../util/splitBackup';
+import { createSplitPlan, serializeSplitPlan, parseSplitPlan, getSplitPlanFilename } from '../util/splitPlan';
+import {
+    moveFileBetweenSplits,
+    mergeSplits,
+    createSplit,
+    reorderSplit,
+    setSplitMessage,
+    formatSplitContents,
+    parseSplitNumber,
+} from '../util/splitPlanEditor';
+import {
+    SplitSession,
+    SPLIT_SESSION_FILENAME,
+    createSplitSession,
+    getPendingSplitIndexes,
+    getExpectedHead,
+    parseSplitSession,
+    serializeSplitSession,
+    getWorkingTreeFingerprints,
+    findFingerprintMismatches,
+} from '../util/splitSession';
+import { SplitVerificationResult, verifySplitCommits } from '../util/splitVerify';
+import { runPrecommitChecks } from './precommit';
+import {
+    CommitLintIssue,
+    CommitLintRules,
+    DEFAULT_COMMIT_TYPES,
+    DEFAULT_MAX_SUBJECT_LENGTH,
+    DEFAULT_BODY_WRAP,
+    lintCommitMessage,
+    wrapCommitBody,
+    formatLintIssues,
+} from '../util/commitLint';
+import { appendTrailers, parseTrailers, resolveTrailers } from '../util/trailers';
+import { withSigning } from '../util/signing';
+import { DEFAULT_CHUNK_TOKENS, splitDiffIntoChunks, batchByTokens, estimateTokens } from '../util/diffChunking';
+import { SecretFinding, scanDiffForSecrets, redactSecrets, formatSecretFindings, isSensitivePath, withSecretsRedactedReads } from '../util/secretScan';
+import { RedactionOptions, isRedactionEnabled, isPathAllowed, redactInputs, withRedactedReads, writeRedactionReport } from '../util/redaction';
+import { getCommitCacheKey, readCommitCache, writeCommitCache, evictCommitCache } from '../util/commitCache';
+import { createAIProvider } from '../util/aiProvider';
+import { enforceRepoGuards } from '../util/repoGuards';
+import { PushResult, pushCurrentBranch, formatPushResult } from '../util/push';
+import {
+    FixupOptions,
+    FixupChange,
+    BranchCommit,
+    getFixupBase,
+    getBranchCommits,
+    getFixupChanges,
+    blameChange,
+    groupFixupTargets,
+    toHunkSelections,
+    describeChange,
+    parseFixupAssignments,
+    captureIndexEntries,
+    restoreIndexEntries,
+    hasWorktreeChanges,
+    runAutosquash,
+} from '../util/fixup';
+import type { CommitOptions } from '../types';
+
+// Commit options, including the ones this package adds on top of the core config
+const getCommitOptions = (runConfig: Config): CommitOptions => (runConfig.commit || {}) as CommitOptions;
+
+const getCommitProvider = (runConfig: Config) => createAIProvider(getCommitOptions(runConfig).provider);
 
 // Helper function to read context files
-async function readContextFiles(contextFiles: string[] | undefined, logger: any): Promise<string> {
+async function readContextFiles(contextFiles: string[] | undefined, logger: any, redaction?: RedactionOptions): Promise<string> {
     if (!contextFiles || contextFiles.length === 0) {
         return '';
     }
@@ -51,6 +135,10 @@ async function readContextFiles(contextFiles: string[] | undefined, logger: any)
     const contextParts: string[] = [];
 
     for (const filePath of contextFiles) {
+        if (isRedactionEnabled(redaction) && !isPathAllowed(filePath, redaction)) {
+            logger.info('REDACTION_CONTEXT_FILE_SKIPPED: Context file excluded by the redaction path policy | File: %s', filePath);
+            continue;
+        }
         try {
             const content = await storage.readFile(filePath, 'utf8');
             contextParts.push(`## Context from ${filePath}\n\n${content}\n`);
@@ -188,6 +276,80 @@ async function buildFallbackCommitMessage(changedFiles: string[], storage: any):
     return 'chore: update project files';
 }
 
+// Most split suggestions the chunked path makes - beyond that the chunks are too fine-grained to be useful commits
+const MAX_CHUNKED_SPLIT_SUGGESTIONS = 6;
+
+/**
+ * Map-reduce generation for diffs that exceed the model's token limit: summarize the diff chunk
+ * by chunk, then merge the summaries into one commit message. Chunks become split suggestions.
+ */
+async function summarizeDiffInChunks(
+    diffContent: string,
+    userDirection: string | undefined,
+    runConfig: Config,
+    logger: any
+): Promise<{ commitMessage: string; suggestedSplits: CommitSplit[] }> {
+    const chunkTokens = getCommitOptions(runConfig).chunkTokens || DEFAULT_CHUNK_TOKENS;
+    const chunks = splitDiffIntoChunks(diffContent, chunkTokens);
+    if (chunks.length === 0) {
+        throw new ValidationError('No diff content to summarize');
+    }
+    logger.info('COMMIT_AI_CHUNKED: Summarizing diff in chunks | Chunks: %d | Budget per chunk: %d tokens | Diff: ~%d tokens',
+        chunks.length, chunkTokens, estimateTokens(diffContent));
+
+    // Map: one summary per chunk
+    const summaries: Array<{ files: string[]; summary: string }> = [];
+    for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        logger.info('🧩 Summarizing chunk %d of %d (%s)', i + 1, chunks.length, chunk.files.join(', ') || 'diff');
+        const summary = await requestCommitMessage(runConfig, { diffContent: chunk.content, userDirection }, {
+            context: `This diff is part ${i + 1} of ${chunks.length} of a change too large to review at once. Describe only the changes shown here.${chunk.partial ? ' The diff of the last file continues in the next part.' : ''}`,
+        }, 'commit-chunk');
+        summaries.push({ files: chunk.files, summary });
+    }
+
+    // Reduce: merge the summaries, in rounds if they do not fit in one request
+    let texts = summaries.map(s => `Files: ${s.files.join(', ') || '(unknown)'}\n${s.summary}`);
+    let commitMessage = summaries.length === 1 ? summaries[0].summary : '';
+    while (!commitMessage) {
+        const batches = batchByTokens(texts, chunkTokens);
+        const merged: string[] = [];
+        for (const batch of batches) {
+            merged.push(await requestCommitMessage(runConfig, {
+                diffContent: batch.join('\n\n---\n\n'),
+                userDirection: [
+                    'The full diff was too large, so it was summarized in parts. Below are the summaries of the parts, separated by "---". Write one commit message that covers all of them.',
+                    userDirection,
+                ].filter(Boolean).join('\n\n'),
+            }, {}, 'commit-chunk-merge'));
+        }
+        if (merged.length === 1) {
+            commitMessage = merged[0];
+        } else if (merged.length >= texts.length) {
+            // Summaries that do not get shorter cannot be merged further
+            throw new ValidationError('Chunk summaries are too large to merge into one commit message');
+        } else {
+            texts = merged;
+        }
+    }
+
+    // Parts of the same file belong to the same split
+    const splits: CommitSplit[] = [];
+    for (const { files, summary } of summaries) {
+        const existing = splits.find(split => split.files.some(file => files.includes(file)));
+        if (existing) {
+            existing.files = Array.from(new Set([...existing.files, ...files]));
+        } else if (files.length > 0) {
+            splits.push({ files: [...files], message: summary, rationale: 'Summarized separately because the full diff exceeds the model token limit' });
+        }
+    }
+
+    return {
+        commitMessage,
+        suggestedSplits: splits.length > 1 && splits.length <= MAX_CHUNKED_SPLIT_SUGGESTIONS ? splits : [],
+    };
+}
+
 // Helper function to edit commit message using editor
 async function editCommitMessageInteractively(commitMessage: string): Promise<string> {
     const templateLines = [
@@ -199,6 +361,104 @@ async function editCommitMessageInteractively(commitMessage: string): Promise<st
     return result.content;
 }
 
+/**
+ * Scan a diff for secrets. Findings are logged as warnings and returned, or block the commit when it is about to be made.
+ */
+function checkForSecrets(diff: string, runConfig: Config, block: boolean, logger: any): SecretFinding[] {
+    const findings = scanDiffForSecrets(diff, getCommitOptions(runConfig).secretScan);
+    if (findings.length === 0) {
+        return findings;
+    }
+
+    const report = formatSecretFindings(findings);
+    if (!block) {
+        logger.warn('SECRET_SCAN_FINDINGS: Possible secrets in the changes | Count: %d | Action: Redacted from AI input\n%s', findings.length, report);
+        return findings;
+    }
+
+    logger.error('🚫 COMMIT BLOCKED: Found possible secrets in the staged changes!');
+    logger.error('%s', report);
+    logger.error('');
+    logger.error('Unstage or remove them, add known false positives to commit.secretScan.allow, or disable a rule with commit.secretScan.disable');
+    throw new ValidationError(`Found ${findings.length} possible secret(s) in the staged changes:\n${report}`);
+}
+
+// Secrets are masked in everything that is sent to the LLM
+function redactDiffForLLM(diff: string, runConfig: Config, logger: any): string {
+    const { content, redactions } = redactSecrets(diff, getCommitOptions(runConfig).secretScan);
+    if (redactions > 0) {
+        logger.info('SECRET_SCAN_REDACTED: Masked possible secrets before sending the diff to the AI | Redactions: %d', redactions);
+    }
+    return content;
+}
+
+/**
+ * Apply commit.redaction to the inputs of one AI request and report the redactions next to its debug request file
+ */
+async function redactCommitInputs<T extends Record<string, string | undefined>>(
+    inputs: T,
+    diffInputs: Array<keyof T>,
+    runConfig: Config,
+    requestFile: string,
+    logger: any
+): Promise<T> {
+    const { inputs: redacted, entries } = redactInputs(inputs, getCommitOptions(runConfig).redaction, diffInputs);
+    if (entries.length > 0) {
+        await writeRedactionReport(createStorage(), requestFile, 'commit', entries, logger);
+    }
+    return redacted;
+}
+
+// Helper function to ask the LLM for a single commit message outside the agentic flow
+async function requestCommitMessage(
+    runConfig: Config,
+    content: CommitContent,
+    context: CommitContext,
+    debugName: string
+): Promise<string> {
+    const outputDirectory = runConfig.outputDirectory || DEFAULT_OUTPUT_DIRECTORY;
+    const aiConfig = toAIConfig(runConfig);
+    const modelToUse = aiConfig.commands?.commit?.model || aiConfig.model || 'gpt-4o-mini';
+
+    const promptConfig = {
+        overridePaths: (runConfig as any).discoveredConfigDirs || [],
+        overrides: runConfig.overrides || false,
+    };
+    const debugRequestFile = getOutputPath(outputDirectory, getTimestampedRequestFilename(debugName));
+    const redacted = await redactCommitInputs({
+        diffContent: redactSecrets(content.diffContent, getCommitOptions(runConfig).secretScan).content,
+        logContext: context.logContext,
+        context: context.context,
+    }, ['diffContent'], runConfig, debugRequestFile, getDryRunLogger(false));
+    const prompt = await createCommitPrompt(promptConfig, {
+        ...content,
+        diffContent: redacted.diffContent || '',
+    }, {
+        ...context,
+        logContext: redacted.logContext,
+        context: redacted.context,
+    });
+    const request = Formatter.create({ logger: getDryRunLogger(false) }).formatPrompt(modelToUse as Model, prompt);
+
+    const response = await getCommitProvider(runConfig).createCompletion(
+        request.messages as ChatCompletionMessageParam[],
+        {
+            model: modelToUse,
+            openaiReasoning: aiConfig.commands?.commit?.reasoning || aiConfig.reasoning,
+            debug: runConfig.debug,
+            debugRequestFile,
+            debugResponseFile: getOutputPath(outputDirectory, getTimestampedResponseFilename(debugName)),
+            storage: createStorageAdapter(outputDirectory),
+            logger: createLoggerAdapter(false),
+        }
+    );
+    const message = (typeof response === 'string' ? response : response?.content || '').trim();
+    if (!message) {
+        throw new ValidationError('The LLM returned an empty commit message');
+    }
+    return message;
+}
+
 // Helper function to improve commit message using LLM
 async function improveCommitMessageWithLLM(
     commitMessage: string,
@@ -233,7 +493,7 @@ Please revise the commit message according to the user's feedback while maintain
             return Formatter.create({ logger: getDryRunLogger(false) }).formatPrompt(modelToUse as Model, prompt);
         },
         callLLM: async (request, runConfig, outputDirectory) => {
-            return await createCompletionWithRetry(
+            return await getCommitProvider(runConfig).createCompletion(
                 request.messages as ChatCompletionMessageParam[],
                 {
                     model: aiConfig.commands?.commit?.model || aiConfig.model,
@@ -268,7 +528,8 @@ async function handleInteractiveCommitFeedback(
     storage: any,
     diffContent: string,
     hasActualChanges: boolean,
-    cached: boolean
+    cached: boolean,
+    previousMessage?: string
 ): Promise<{ action: 'commit' | 'skip', finalMessage: string }> {
     const logger = getDryRunLogger(false);
     let currentMessage = commitMessage;
@@ -284,8 +545,14 @@ async function handleInteractiveCommitFeedback(
         : { key: 'c', label: 'Accept message (you will need to commit manually)' };
 
     while (true) {
-        // Display the current commit message
-        logger.info('\n📝 Generated Commit Message:');
+        // Display the current commit message, after the message it replaces when amending
+        if (previousMessage) {
+            logger.info('\n📜 Current Message (commit being amended):');
+            logger.info('─'.repeat(50));
+            logger.info(previousMessage);
+            logger.info('─'.repeat(50));
+        }
+        logger.info(previousMessage ? '\n📝 New Commit Message:' : '\n📝 Generated Commit Message:');
         logger.info('─'.repeat(50));
         logger.info(currentMessage);
         logger.info('─'.repeat(50));
@@ -354,6 +621,124 @@ async function handleInteractiveCommitFeedback(
     }
 }
 
+// Helper function to ask the LLM to fix the problems the commit message linter found
+async function repairCommitMessageWithLLM(
+    commitMessage: string,
+    issues: CommitLintIssue[],
+    rules: CommitLintRules,
+    runConfig: Config,
+    diffContent: string
+): Promise<string> {
+    const requirements = [
+        `Allowed types: ${(rules.types && rules.types.length > 0 ? rules.types : DEFAULT_COMMIT_TYPES).join(', ')}`,
+        ...(rules.scopes && rules.scopes.length > 0 ? [`Allowed scopes: ${rules.scopes.join(', ')}`] : []),
+        ...(rules.requireScope ? ['A scope is required'] : []),
+        `Header at most ${rules.maxSubjectLength ?? DEFAULT_MAX_SUBJECT_LENGTH} characters, body lines at most ${rules.bodyWrap ?? DEFAULT_BODY_WRAP} characters`,
+    ];
+
+    return await requestCommitMessage(runConfig, {
+        diffContent,
+        userDirection: `Rewrite this commit message so it follows the Conventional Commits rules below. Keep its meaning.
+
+Current commit message: "${commitMessage}"
+
+Problems found:
+${formatLintIssues(issues)}
+
+Rules:
+${requirements.map(requirement => `- ${requirement}`).join('\n')}`,
+    }, {}, 'commit-lint');
+}
+
+/**
+ * Check a commit message against the configured rules (commit.messageLint) before it is committed.
+ * Long body lines are re-wrapped directly. Anything else is repaired by the LLM, or in interactive
+ * mode explained to the user, who can repair, edit or keep the message.
+ * Throws when a message that is about to be committed still breaks the rules.
+ */
+async function enforceCommitMessageRules(
+    commitMessage: string,
+    runConfig: Config,
+    options: { interactive: boolean; willCommit: boolean; getDiff: () => Promise<string> },
+    logger: any
+): Promise<string> {
+    const rules = getCommitOptions(runConfig).messageLint;
+    if (!rules) {
+        return commitMessage;
+    }
+
+    let message = commitMessage;
+    let result = lintCommitMessage(message, rules);
+    if (result.valid) {
+        return message;
+    }
+
+    if (result.issues.some(issue => issue.rule === 'body-wrap')) {
+        message = wrapCommitBody(message, rules.bodyWrap ?? DEFAULT_BODY_WRAP);
+        result = lintCommitMessage(message, rules);
+        if (result.valid) {
+            logger.info('COMMIT_LINT_REWRAPPED: Re-wrapped commit message body | Width: %d', rules.bodyWrap ?? DEFAULT_BODY_WRAP);
+            return message;
+        }
+    }
+
+    logger.warn('COMMIT_LINT_FAILED: Commit message does not follow the configured rules | Issues: %d\n%s', result.issues.length, formatLintIssues(result.issues));
+
+    if (options.interactive) {
+        while (!result.valid) {
+            logger.info('');
+            logger.info('Commit message:');
+            logger.info('─'.repeat(50));
+            logger.info(message);
+            logger.info('─'.repeat(50));
+            logger.info('Problems:');
+            logger.info(formatLintIssues(result.issues));
+            logger.info('');
+
+            const choice = await getUserChoice(
+                'How would you like to fix the commit message?',
+                [
+                    { key: 'r', label: 'Repair with LLM' },
+                    { key: 'e', label: 'Edit message' },
+                    { key: 'k', label: 'Keep message as is' }
+                ],
+                { nonTtyErrorSuggestions: ['Use --sendit to let the LLM repair the message'] }
+            );
+
+            if (choice === 'k') {
+                logger.warn('COMMIT_LINT_IGNORED: Keeping commit message that breaks the rules | Reason: User choice');
+                return message;
+            }
+            try {
+                message = choice === 'r'
+                    ? await repairCommitMessageWithLLM(message, result.issues, rules, runConfig, await options.getDiff())
+                    : await editCommitMessageInteractively(message);
+            } catch (error: any) {
+                logger.error(`Failed to update commit message: ${error.message}`);
+            }
+            result = lintCommitMessage(message, rules);
+        }
+        return message;
+    }
+
+    try {
+        message = await repairCommitMessageWithLLM(message, result.issues, rules, runConfig, await options.getDiff());
+        result = lintCommitMessage(message, rules);
+    } catch (error: any) {
+        logger.warn('COMMIT_LINT_REPAIR_FAILED: Could not repair commit message with the LLM | Error: %s', error.message);
+    }
+
+    if (result.valid) {
+        logger.info('COMMIT_LINT_REPAIRED: Commit message repaired by the LLM | Header: %s', message.split('\n')[0]);
+        return message;
+    }
+    if (options.willCommit) {
+        throw new ValidationError(`Commit message does not follow the configured rules:\n${formatLintIssues(result.issues)}`);
+    }
+    logger.warn('COMMIT_LINT_UNRESOLVED: Commit message still breaks the rules | Issues: %d', result.issues.length);
+    return message;
+}
+
 // Helper function to check if there are any commits in the repository
 const hasCommits = async (): Promise<boolean> => {
     try {
@@ -365,32 +750,57 @@ const hasCommits = async (): Promise<boolean> => {
     }
 };
 
-// Helper function to push the commit
-const pushCommit = async (pushConfig: boolean | string | undefined, logger: any, isDryRun: boolean): Promise<void> => {
-    if (!pushConfig) {
-        return; // No push requested
+// Object id of the empty tree, which a root commit is compared against
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * The commit an amend rewrites: its parent, which the new message is generated against, and its
+ * current message
+ */
+const getAmendTarget = async (): Promise<{ base: string; message: string }> => {
+    let parent = '';
+    try {
+        parent = (await runSecure('git', ['rev-parse', '--verify', '--quiet', 'HEAD~1'], { suppressErrorLogging: true })).stdout.trim();
+    } catch {
+        // Root commit
     }
+    const { stdout } = await runSecure('git', ['log', '-1', '--format=%B', 'HEAD']);
+    return { base: parent || EMPTY_TREE, message: stdout.trim() };
+};
 
-    // Determine the remote to push to
-    let remote = 'origin';
-    if (typeof pushConfig === 'string') {
-        remote = pushConfig;
+// Helper function to push the commit. Returns the outcome per remote; a push that failed on any
+// remote comes back with success: false, since the commit itself was made.
+const pushCommit = async (runConfig: Config, logger: any, isDryRun: boolean): Promise<PushResult | undefined> => {
+    const commitOptions = getCommitOptions(runConfig);
+    if (!commitOptions.push) {
+        return undefined; // No push requested
     }
 
-    const pushCommand = `git push ${remote}`;
+    await enforceRepoGuards('push', commitOptions.guards, logger, isDryRun);
+    const result = await pushCurrentBranch(commitOptions.push, { amended: !!commitOptions.amend, signing: commitOptions.sign, dryRun: isDryRun }, logger);
+    if (!result.success) {
+        logger.error('PUSH_FAILED: Push did not complete on every remote\n%s', formatPushResult(result));
+    }
+    return result;
+};
 
-    if (isDryRun) {
-        logger.info('Would push to %s with: %s', remote, pushCommand);
-    } else {
-        logger.info('🚀 Pushing to %s...', remote);
-        try {
-            await run(pushCommand);
-            logger.info('✅ Push successful!');
-        } catch (error: any) {
-            logger.error('Failed to push to %s: %s', remote, error.message);
-            throw new ExternalDependencyError(`Failed to push to ${remote}`, 'git', error);
-        }
+/**
+ * Run git commit, adding the configured trailers (commit.trailers) to the message first
+ * and signing the commit when commit.sign is set. Returns the message as committed.
+ */
+const runGitCommit = async (message: string, runConfig: Config, options: { amend?: boolean }, logger: any): Promise<string> => {
+    const commitOptions = getCommitOptions(runConfig);
+    const trailerOptions = commitOptions.trailers;
+    const finalMessage = trailerOptions ? appendTrailers(message, await resolveTrailers(trailerOptions)) : message;
+    if (finalMessage !== message) {
+        logger.debug('Added commit trailers:\n%s', parseTrailers(finalMessage).trailers.map(t => `${t.key}: ${t.value}`).join('\n'));
     }
+
+    const validatedMessage = validateString(finalMessage, 'commit message');
+    const escapedMessage = shellescape([validatedMessage]);
+    const commitArgs = withSigning(['commit', ...(options.amend ? ['--amend'] : [])], commitOptions.sign);
+    await run(`git ${shellescape(commitArgs)} -m ${escapedMessage}`);
+    return finalMessage;
 };
 
 // Simplified cached determination with single check
@@ -472,6 +882,7 @@ const saveCommitMessage = async (outputDirectory: string, summary: string, stora
 
 interface CommitSplit {
     files: string[];
+    hunks?: HunkSelection[]; // Partial files: only these hunks of the staged diff go into this commit
     message: string;
     rationale: string;
 }
@@ -481,25 +892,67 @@ interface SplitCommitOptions {
     runConfig: Config;
     isDryRun: boolean;
     interactive: boolean;
+    atomic: boolean; // Roll back to the pre-split backup on any failure
+    verify: boolean; // Run the precommit checks on every split commit
+    session?: SplitSession; // Resume this session instead of starting from `splits`
     logger: any;
     storage: any;
 }
 
-interface SplitCommitResult {
+export interface SplitCommitResult {
     success: boolean;
     commitsCreated: number;
     commits: Array<{
         message: string;
         files: string[];
+        hunks?: HunkSelection[];
         sha?: string;
     }>;
     error?: Error;
     skipped: number;
+    backup?: SplitBackup;
+    rolledBack?: boolean;
+    verification?: SplitVerificationResult;
+}
+
+export interface FixupCommitResult {
+    base: string;
+    commits: Array<{ target: BranchCommit; sha?: string }>; // Created, or planned in dry-run mode
+    leftStaged: string[]; // Changes that fit no commit on the branch
+    autosquash?: 'done' | 'skipped';
+    autosquashSkipped?: 'staged-changes' | 'worktree-changes'; // Why the autosquash was skipped
+}
+
+export interface CommitResult {
+    action: 'commit' | 'split' | 'fixup' | 'undo-split' | 'none';
+    dryRun: boolean;
+    committed: boolean; // Commits were written to the repository
+    message?: string; // The generated message, or the one accepted in interactive mode
+    sha?: string; // HEAD after committing
+    amended?: boolean;
+    split?: SplitCommitResult;
+    fixup?: FixupCommitResult;
+    push?: PushResult;
+    restoredHead?: string; // The pre-split HEAD that undo-split went back to
+    note?: string; // Why nothing was done
+}
+
+/**
+ * All files touched by a split, whether committed whole or by hunk
+ */
+function getSplitFiles(split: CommitSplit): string[] {
+    const files = [...split.files];
+    for (const selection of split.hunks || []) {
+        if (!files.includes(selection.file)) {
+            files.push(selection.file);
+        }
+    }
+    return files;
 }
 
 /**
- * Deduplicate files across splits - each file can only be in one split
- * Later splits lose files that were already claimed by earlier splits
+ * Deduplicate files and hunks across splits - each file or hunk can only be in one split
+ * Later splits lose files and hunks that were already claimed by earlier splits
  * Returns filtered splits with empty splits removed
  */
 function deduplicateSplits(
@@ -507,6 +960,7 @@ function deduplicateSplits(
     logger: any
 ): CommitSplit[] {
     const claimedFiles = new Set<string>();
+    const claimedHunks = new Map<string, Set<string>>(); // file -> claimed hunk ranges
     const result: CommitSplit[] = [];
 
     for (const split of splits) {
@@ -515,7 +969,7 @@ function deduplicateSplits(
         const duplicates: string[] = [];
 
         for (const file of split.files) {
-            if (claimedFiles.has(file)) {
+            if (claimedFiles.has(file) || claimedHunks.has(file)) {
                 duplicates.push(file);
             } else {
                 uniqueFiles.push(file);
@@ -523,16 +977,40 @@ function deduplicateSplits(
             }
         }
 
+        // Same for hunk selections, at hunk granularity
+        const uniqueHunks: HunkSelection[] = [];
+        for (const selection of split.hunks || []) {
+            if (claimedFiles.has(selection.file)) {
+                duplicates.push(selection.file);
+                continue;
+            }
+            const claimed = claimedHunks.get(selection.file) || new Set<string>();
+            const hunks = selection.hunks.filter(hunk => {
+                const range = formatHunkRange(hunk);
+                if (claimed.has(range)) {
+                    duplicates.push(`${selection.file} @@ ${range} @@`);
+                    return false;
+                }
+                claimed.add(range);
+                return true;
+            });
+            claimedHunks.set(selection.file, claimed);
+            if (hunks.length > 0) {
+                uniqueHunks.push({ file: selection.file, hunks });
+            }
+        }
+
         // Log if duplicates were found
         if (duplicates.length > 0) {
             logger.warn(`Removing duplicate files from split "${split.message.split('\n')[0]}": ${duplicates.join(', ')}`);
         }
 
-        // Only include split if it has files
-        if (uniqueFiles.length > 0) {
+        // Only include split if it has files or hunks
+        if (uniqueFiles.length > 0 || uniqueHunks.length > 0) {
             result.push({
                 ...split,
-                files: uniqueFiles
+                files: uniqueFiles,
+                ...(split.hunks ? { hunks: uniqueHunks } : {})
             });
         } else {
             logger.warn(`Skipping empty split after deduplication: "${split.message.split('\n')[0]}"`);
@@ -559,8 +1037,11 @@ async function reviewSplitInteractively(
     logger.info(`📋 Commit ${index + 1} of ${total}`);
     logger.info('═'.repeat(80));
     logger.info('');
-    logger.info('Files (%d):', split.files.length);
+    logger.info('Files (%d):', getSplitFiles(split).length);
     split.files.forEach((f: string) => logger.info(`  - ${f}`));
+    (split.hunks || []).forEach((selection: HunkSelection) => {
+        logger.info(`  - ${selection.file} (hunks: ${selection.hunks.map(formatHunkRange).join(', ')})`);
+    });
     logger.info('');
     logger.info('Rationale:');
     logger.info(`  ${split.rationale}`);
@@ -587,7 +1068,7 @@ async function reviewSplitInteractively(
     if (choice === 'e') {
         // Edit the message
         const edited = await editCommitMessageInteractively(split.message);
-        return { action: 'commit', modifiedMessage: edited };
+        return { action: 'edit', modifiedMessage: edited };
     } else if (choice === 'c') {
         return { action: 'commit' };
     } else if (choice === 's') {
@@ -597,23 +1078,141 @@ async function reviewSplitInteractively(
     }
 }
 
+/**
+ * Staged diff of just the files and hunks of one split.
+ * During a split run the index no longer holds the split, so whole files are compared with HEAD
+ * and hunks are taken from the staged diff captured when the run started.
+ */
+async function getSplitDiff(split: CommitSplit, runStagedDiff?: FileDiff[]): Promise<string> {
+    const parts: string[] = [];
+    if (split.files.length > 0) {
+        const result = await run(`git diff ${runStagedDiff ? 'HEAD' : '--cached'} --no-color -- ${shellescape(split.files)}`);
+        parts.push(typeof result === 'string' ? result : result.stdout);
+    }
+    if (split.hunks && split.hunks.length > 0) {
+        parts.push(buildPartialPatch(runStagedDiff || parseDiff(await getStagedDiff()), split.hunks));
+    }
+    return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Ask the LLM for a fresh commit message covering only the changes of one split
+ */
+async function regenerateSplitMessage(split: CommitSplit, runConfig: Config): Promise<string> {
+    return await requestCommitMessage(runConfig, {
+        diffContent: await getSplitDiff(split),
+        userDirection: sanitizeDirection(runConfig.commit?.direction),
+    }, {
+        context: `These changes are one commit of a larger change that is being split into several commits. Describe only these changes. Reason for this split: ${split.rationale}`,
+    }, 'commit-split');
+}
+
+/**
+ * Planning screen shown before any split commit is made. Lets the user move files between splits,
+ * merge, create and reorder splits and regenerate a split's message.
+ * Returns the edited splits, or null if the user cancelled.
+ */
+async function editSplitPlanInteractively(
+    initialSplits: CommitSplit[],
+    runConfig: Config,
+    logger: any
+): Promise<CommitSplit[] | null> {
+    let splits = initialSplits;
+    const askNumber = async (prompt: string) => parseSplitNumber(await getUserTextInput(prompt), splits);
+
+    while (true) {
+        logger.info('');
+        logger.info('═'.repeat(80));
+        logger.info(`🗂️  Split plan (${splits.length} commits)`);
+        logger.info('═'.repeat(80));
+        splits.forEach((split, index) => {
+            logger.info('');
+            logger.info(`${index + 1}. ${split.message.split('\n')[0]}`);
+            formatSplitContents(split).forEach(line => logger.info(`     - ${line}`));
+        });
+        logger.info('');
+
+        const choice = await getUserChoice(
+            'How would you like to proceed with this plan?',
+            [
+                { key: 'c', label: 'Continue - review and create these commits' },
+                { key: 'm', label: 'Move a file to another split' },
+                { key: 'j', label: 'Merge two splits' },
+                { key: 'n', label: 'New split from files' },
+                { key: 'o', label: 'Reorder a split' },
+                { key: 'r', label: 'Regenerate a split message with the LLM' },
+                { key: 'a', label: 'Abort - create no commits' }
+            ],
+            { nonTtyErrorSuggestions: ['Use --sendit to auto-commit without review'] }
+        );
+
+        if (choice === 'c') {
+            return splits;
+        }
+        if (choice === 'a') {
+            return null;
+        }
+
+        try {
+            if (choice === 'm') {
+                const file = (await getUserTextInput('File to move:')).trim();
+                const from = splits.findIndex(split => getSplitFiles(split).includes(file));
+                if (from < 0) {
+                    throw new ValidationError(`No split contains ${file}`);
+                }
+                splits = moveFileBetweenSplits(splits, file, from, await askNumber(`Move ${file} to split number:`));
+            } else if (choice === 'j') {
+                const first = await askNumber('Merge into split number:');
+                splits = mergeSplits(splits, first, await askNumber(`Split number to merge into ${first + 1}:`));
+            } else if (choice === 'n') {
+                const files = (await getUserTextInput('Files for the new split (comma separated):'))
+                    .split(',').map(file => file.trim()).filter(Boolean);
+                splits = createSplit(splits, files, await getUserTextInput('Commit message for the new split:'));
+            } else if (choice === 'o') {
+                const from = await askNumber('Split number to move:');
+                splits = reorderSplit(splits, from, await askNumber('New position:'));
+            } else if (choice === 'r') {
+                const index = await askNumber('Split number to regenerate:');
+                logger.info('🤖 Regenerating message for split %d...', index + 1);
+                splits = setSplitMessage(splits, index, await regenerateSplitMessage(splits[index], runConfig));
+            }
+        } catch (error: any) {
+            logger.warn('⚠️  %s', error.message);
+        }
+    }
+}
+
 /**
  * Create a single commit from a split
  */
 async function createSingleSplitCommit(
     split: CommitSplit,
     commitMessage: string,
+    stagedDiff: FileDiff[],
+    runConfig: Config,
     isDryRun: boolean,
     logger: any
 ): Promise<string | undefined> {
+    const splitFiles = getSplitFiles(split);
+
     // Stage the files for this split
     if (isDryRun) {
         logger.debug(`[DRY RUN] Would stage: ${split.files.join(', ')}`);
+        (split.hunks || []).forEach(selection => {
+            logger.debug(`[DRY RUN] Would stage hunks of ${selection.file}: ${selection.hunks.map(formatHunkRange).join(', ')}`);
+        });
     } else {
-        await stageFiles(split.files);
+        if (split.files.length > 0) {
+            await stageFiles(split.files);
+        }
+
+        // Partial files are staged through a patch containing only the selected hunks
+        if (split.hunks && split.hunks.length > 0) {
+            await applyPatchToIndex(buildPartialPatch(stagedDiff, split.hunks));
+        }
 
         // Verify files were staged correctly
-        const verification = await verifyStagedFiles(split.files);
+        const verification = await verifyStagedFiles(splitFiles);
         if (!verification.allPresent) {
             throw new ValidationError(
                 `Stage verification failed. Missing: ${verification.missing.join(', ')}. ` +
@@ -627,9 +1226,7 @@ async function createSingleSplitCommit(
         logger.debug(`[DRY RUN] Would commit with message: ${commitMessage}`);
         return undefined;
     } else {
-        const validatedMessage = validateString(commitMessage, 'commit message');
-        const escapedMessage = shellescape([validatedMessage]);
-        await run(`git commit -m ${escapedMessage}`);
+        await runGitCommit(commitMessage, runConfig, {}, logger);
 
         // Get the SHA of the commit we just created
         const result = await run('git rev-parse HEAD');
@@ -641,12 +1238,95 @@ async function createSingleSplitCommit(
 }
 
 /**
- * Execute a series of split commits
+ * Check the hunk selections of a split plan against the staged diff.
+ * Every hunk of a partially split file must be claimed by exactly one split.
+ */
+function validateHunkSelections(splits: CommitSplit[], stagedDiff: FileDiff[]): void {
+    const coverage = verifyHunkCoverage(stagedDiff, splits.map(split => split.hunks || []));
+    const problems: string[] = [];
+
+    if (coverage.unknown.length > 0) {
+        problems.push(`not in staged diff: ${coverage.unknown.join(', ')}`);
+    }
+    if (coverage.duplicated.length > 0) {
+        problems.push(`claimed by more than one split: ${coverage.duplicated.join(', ')}`);
+    }
+    if (coverage.missing.length > 0) {
+        problems.push(`not claimed by any split: ${coverage.missing.join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+        throw new ValidationError(`Invalid hunk selections in split plan - ${problems.join('; ')}`);
+    }
+}
+
+/**
+ * Re-stage whatever the remaining splits would have committed, so the user can finish manually
+ */
+async function restageRemainingSplits(remaining: CommitSplit[], stagedDiff: FileDiff[], logger: any): Promise<void> {
+    const remainingFiles = remaining.flatMap((s: CommitSplit) => s.files);
+    const remainingHunks = remaining.flatMap((s: CommitSplit) => s.hunks || []);
+
+    try {
+        if (remainingFiles.length > 0) {
+            await stageFiles(remainingFiles);
+        }
+        if (remainingHunks.length > 0) {
+            await applyPatchToIndex(buildPartialPatch(stagedDiff, remainingHunks));
+        }
+        logger.info(`Remaining ${remainingFiles.length + remainingHunks.length} files are staged for manual commit`);
+    } catch (restageError: any) {
+        logger.error(`Failed to re-stage remaining files: ${restageError.message}`);
+    }
+}
+
+/**
+ * Reset HEAD and the index to the state recorded before the split run
+ */
+async function rollbackSplitCommits(backup: SplitBackup, logger: any): Promise<boolean> {
+    try {
+        await restoreSplitBackup(backup);
+        logger.info(`SPLIT_ROLLBACK: Rolled back split commits | Restored HEAD: ${backup.head?.substring(0, 7) || '(none)'} | Working tree: unchanged`);
+        return true;
+    } catch (rollbackError: any) {
+        logger.error(`SPLIT_ROLLBACK_FAILED: Could not roll back split commits | Error: ${rollbackError.message} | Recovery: kodrdriv commit --undo-split`);
+        return false;
+    }
+}
+
+/**
+ * Save split progress so an interrupted run can be picked up with commit --resume
+ */
+async function saveSplitSession(session: SplitSession, outputDirectory: string, storage: any, logger: any): Promise<void> {
+    try {
+        await storage.writeFile(getOutputPath(outputDirectory, SPLIT_SESSION_FILENAME), serializeSplitSession(session), 'utf-8');
+    } catch (error: any) {
+        logger.warn('Failed to save split session: %s', error.message);
+    }
+}
+
+async function clearSplitSession(outputDirectory: string, storage: any, logger: any): Promise<void> {
+    const sessionPath = getOutputPath(outputDirectory, SPLIT_SESSION_FILENAME);
+    try {
+        if (await storage.exists(sessionPath)) {
+            await storage.deleteFile(sessionPath);
+        }
+    } catch (error: any) {
+        logger.debug('Failed to remove split session %s: %s', sessionPath, error.message);
+    }
+}
+
+/**
+ * Execute a series of split commits, or the pending splits of a resumed session
  */
 async function executeSplitCommits(
     options: SplitCommitOptions
 ): Promise<SplitCommitResult> {
-    const { splits, isDryRun, interactive, logger } = options;
+    const { isDryRun, interactive, atomic, logger, storage, runConfig } = options;
+    const outputDirectory = runConfig.outputDirectory || DEFAULT_OUTPUT_DIRECTORY;
+    const splits: CommitSplit[] = options.session ? options.session.splits : options.splits;
+
+    await enforceRepoGuards('split', getCommitOptions(runConfig).guards, logger, isDryRun);
 
     const result: SplitCommitResult = {
         success: false,
@@ -655,34 +1335,87 @@ async function executeSplitCommits(
         skipped: 0
     };
 
+    let session: SplitSession | undefined = options.session;
+
     try {
         logger.debug('Preparing to create split commits...');
 
+        // Hunk-level splits are staged from the diff as it was staged when the run started,
+        // so capture it (and the staged blob of every partial file) before touching the index
+        const partialFiles = Array.from(new Set(splits.flatMap(split => (split.hunks || []).map(h => h.file))));
+        let stagedDiff: FileDiff[] = [];
+        let rawStagedDiff = '';
+        const expectedBlobs = new Map<string, string | null>();
+        if (session) {
+            stagedDiff = parseDiff(session.stagedDiff || '');
+            Object.entries(session.stagedBlobs || {}).forEach(([file, blob]) => expectedBlobs.set(file, blob));
+        } else if (partialFiles.length > 0) {
+            rawStagedDiff = await getStagedDiff();
+            stagedDiff = parseDiff(rawStagedDiff);
+            validateHunkSelections(splits, stagedDiff);
+            for (const file of partialFiles) {
+                expectedBlobs.set(file, await getIndexBlob(file));
+            }
+            logger.debug(`Split plan stages hunks from ${partialFiles.length} partial files`);
+        }
+
+        if (session) {
+            // The backup recorded when the session started still describes the pre-split state
+            result.backup = await readSplitBackup() || undefined;
+        } else if (!isDryRun) {
+            // Record HEAD and the index so the whole run can be undone later
+            result.backup = await createSplitBackup();
+            logger.debug(`Recorded pre-split backup | HEAD: ${result.backup.head || '(none)'} | Index: ${result.backup.index}`);
+
+            session = createSplitSession(splits, {
+                baseCommit: result.backup.head || undefined,
+                fingerprints: await getWorkingTreeFingerprints(splits.flatMap(getSplitFiles)),
+                ...(partialFiles.length > 0 ? {
+                    stagedDiff: rawStagedDiff,
+                    stagedBlobs: Object.fromEntries(expectedBlobs),
+                } : {}),
+            });
+            await saveSplitSession(session, outputDirectory, storage, logger);
+        }
+
+        const indexes = session ? getPendingSplitIndexes(session) : splits.map((_, index) => index);
+
         logger.info('');
         logger.info('═'.repeat(80));
-        logger.info(`🔀 Creating ${splits.length} commits from staged changes`);
+        logger.info(options.session
+            ? `🔀 Resuming split: ${indexes.length} of ${splits.length} commits remaining`
+            : `🔀 Creating ${splits.length} commits from staged changes`);
         logger.info('═'.repeat(80));
 
         // Process each split
-        for (let i = 0; i < splits.length; i++) {
+        for (let position = 0; position < indexes.length; position++) {
+            const i = indexes[position];
             const split = splits[i];
 
             logger.info('');
             logger.info(`Processing commit ${i + 1} of ${splits.length}...`);
 
             // Interactive review if enabled
-            let commitMessage = split.message;
+            let commitMessage = session?.messages[String(i)] || split.message;
             if (interactive && !isDryRun) {
-                const review = await reviewSplitInteractively(split, i, splits.length, logger);
+                const review = await reviewSplitInteractively({ ...split, message: commitMessage }, i, splits.length, logger);
 
                 if (review.action === 'stop') {
                     logger.info('User stopped split commit process');
                     logger.info(`Created ${result.commitsCreated} commits before stopping`);
+                    if (session) {
+                        await saveSplitSession(session, outputDirectory, storage, logger);
+                        logger.info('SPLIT_SESSION_SAVED: Remaining splits saved | Pending: %d | Resume with: kodrdriv commit --resume', indexes.length - position);
+                    }
                     result.success = false;
                     return result;
                 } else if (review.action === 'skip') {
                     logger.info(`Skipped commit ${i + 1}`);
                     result.skipped++;
+                    if (session) {
+                        session.skipped.push(i);
+                        await saveSplitSession(session, outputDirectory, storage, logger);
+                    }
                     continue;
                 } else if (review.action === 'edit') {
                     commitMessage = review.modifiedMessage!;
@@ -690,6 +1423,12 @@ async function executeSplitCommits(
             }
 
             try {
+                commitMessage = await enforceCommitMessageRules(commitMessage, runConfig, {
+                    interactive: interactive && !isDryRun,
+                    willCommit: !isDryRun,
+                    getDiff: () => getSplitDiff(split, stagedDiff),
+                }, logger);
+
                 // Unstage everything first
                 if (!isDryRun) {
                     await unstageAll();
@@ -699,17 +1438,28 @@ async function executeSplitCommits(
                 const sha = await createSingleSplitCommit(
                     split,
                     commitMessage,
+                    stagedDiff,
+                    runConfig,
                     isDryRun,
                     logger
                 );
 
                 result.commits.push({
                     message: commitMessage,
-                    files: split.files,
+                    files: getSplitFiles(split),
+                    ...(split.hunks && split.hunks.length > 0 ? { hunks: split.hunks } : {}),
                     sha
                 });
                 result.commitsCreated++;
 
+                if (session) {
+                    session.completed.push({ index: i, sha, message: commitMessage });
+                    if (commitMessage !== split.message) {
+                        session.messages[String(i)] = commitMessage;
+                    }
+                    await saveSplitSession(session, outputDirectory, storage, logger);
+                }
+
                 if (isDryRun) {
                     logger.info(`[DRY RUN] Would create commit ${i + 1}: ${commitMessage.split('\n')[0]}`);
                 } else {
@@ -720,15 +1470,13 @@ async function executeSplitCommits(
                 logger.error(`Failed to create commit ${i + 1}: ${error.message}`);
                 logger.info(`Successfully created ${result.commitsCreated} commits before error`);
 
-                // Re-stage remaining files for user
-                if (!isDryRun) {
-                    const remainingFiles = splits.slice(i).flatMap((s: CommitSplit) => s.files);
-                    try {
-                        await stageFiles(remainingFiles);
-                        logger.info(`Remaining ${remainingFiles.length} files are staged for manual commit`);
-                    } catch (restageError: any) {
-                        logger.error(`Failed to re-stage remaining files: ${restageError.message}`);
-                    }
+                if (atomic && result.backup) {
+                    // Atomic mode: undo the commits already made and restore the original index
+                    result.rolledBack = await rollbackSplitCommits(result.backup, logger);
+                    await clearSplitSession(outputDirectory, storage, logger);
+                } else if (!isDryRun) {
+                    // Re-stage remaining files for user
+                    await restageRemainingSplits(indexes.slice(position).map(index => splits[index]), stagedDiff, logger);
                 }
 
                 result.success = false;
@@ -737,17 +1485,80 @@ async function executeSplitCommits(
             }
         }
 
+        // Every hunk landed in exactly one commit if the partial files now match what was staged
+        const anySkipped = result.skipped > 0 || (session?.skipped.length || 0) > 0;
+        if (!isDryRun && expectedBlobs.size > 0 && !anySkipped) {
+            const mismatched: string[] = [];
+            for (const [file, expected] of expectedBlobs) {
+                if (await getCommitBlob('HEAD', file) !== expected) {
+                    mismatched.push(file);
+                }
+            }
+            if (mismatched.length > 0) {
+                logger.error(`Split commits do not reproduce the staged content of: ${mismatched.join(', ')}`);
+                if (atomic && result.backup) {
+                    result.rolledBack = await rollbackSplitCommits(result.backup, logger);
+                    await clearSplitSession(outputDirectory, storage, logger);
+                }
+                result.success = false;
+                result.error = new ValidationError(`Hunk verification failed for: ${mismatched.join(', ')}`);
+                return result;
+            }
+            logger.debug(`Verified all hunks of ${expectedBlobs.size} partial files were committed`);
+        }
+
+        if (session) {
+            await clearSplitSession(outputDirectory, storage, logger);
+        }
+
+        if (options.verify && !isDryRun && result.commitsCreated > 0 && result.backup) {
+            result.verification = await verifySplitBuilds(result.backup.head, runConfig, logger);
+        }
+
         result.success = true;
         return result;
 
     } catch (error: any) {
         logger.error(`Split commit process failed: ${error.message}`);
+        if (atomic && result.backup && !result.rolledBack) {
+            result.rolledBack = await rollbackSplitCommits(result.backup, logger);
+            await clearSplitSession(outputDirectory, storage, logger);
+        }
         result.success = false;
         result.error = error;
         return result;
     }
 }
 
+/**
+ * Run the precommit checks on every commit of the split run, reordering or merging commits that fail.
+ * A failure of the verification itself is reported but leaves the commits in place.
+ */
+async function verifySplitBuilds(base: string | null, runConfig: Config, logger: any): Promise<SplitVerificationResult | undefined> {
+    logger.info('');
+    logger.info('SPLIT_VERIFY_STARTING: Running precommit checks on each split commit | Base: %s', base?.substring(0, 7) || '(none)');
+
+    // Lint fixes would change the commit being checked, so they are never applied here
+    const checkConfig = { ...runConfig, dryRun: false, precommit: { ...runConfig.precommit, fix: false } } as Config;
+    try {
+        const verification = await verifySplitCommits({
+            base,
+            signing: getCommitOptions(runConfig).sign,
+            check: async (packageDir: string) => {
+                await runPrecommitChecks(packageDir, checkConfig, logger);
+            },
+            logger,
+        });
+        const green = verification.commits.filter(commit => commit.green).length;
+        logger.info('SPLIT_VERIFY_COMPLETE: Split commits verified | Green: %d | Failing: %d | Rewritten: %s',
+            green, verification.commits.length - green, verification.rewritten);
+        return verification;
+    } catch (error: any) {
+        logger.warn('SPLIT_VERIFY_FAILED: Could not verify split commits | Error: %s | Impact: Commits are kept unverified', error.message);
+        return undefined;
+    }
+}
+
 /**
  * Format a summary message for split commits
  */
@@ -769,23 +1580,481 @@ function formatSplitCommitSummary(result: SplitCommitResult): string {
         lines.push('Commits:');
         lines.push('');
         result.commits.forEach((commit, idx) => {
-            const sha = commit.sha ? `${commit.sha.substring(0, 7)} ` : '';
+            // After reordering or merging, the verification section lists the final commits
+            const sha = commit.sha && !result.verification?.rewritten ? `${commit.sha.substring(0, 7)} ` : '';
             const firstLine = commit.message.split('\n')[0];
             lines.push(`  ${idx + 1}. ${sha}${firstLine}`);
             lines.push(`     Files: ${commit.files.length}`);
+            if (commit.hunks && commit.hunks.length > 0) {
+                lines.push(`     Partial: ${commit.hunks.map(h => `${h.file} (${h.hunks.length} hunks)`).join(', ')}`);
+            }
         });
     }
 
+    if (result.verification) {
+        lines.push('');
+        lines.push('Build verification:');
+        lines.push('');
+        result.verification.commits.forEach((commit, idx) => {
+            const repair = commit.repair ? ` (${commit.repair})` : '';
+            lines.push(`  ${commit.green ? '✅' : '❌'} ${idx + 1}. ${commit.sha.substring(0, 7)} ${commit.message.split('\n')[0]}${repair}`);
+        });
+    }
+
+    if (result.backup) {
+        lines.push('');
+        lines.push('To undo these commits: kodrdriv commit --undo-split');
+    }
+
     lines.push('');
     lines.push('═'.repeat(80));
 
     return lines.join('\n');
 }
 
-const executeInternal = async (runConfig: Config) => {
+/**
+ * Deduplicate and execute split commits, push if requested and return the summary
+ */
+async function runSplitCommits(
+    splits: CommitSplit[],
+    runConfig: Config,
+    isDryRun: boolean,
+    logger: any,
+    storage: any
+): Promise<CommitResult> {
+    // Deduplicate files across splits to prevent staging errors
+    // (AI sometimes suggests the same file in multiple splits)
+    const deduplicatedSplits = deduplicateSplits(splits, logger);
+
+    if (deduplicatedSplits.length === 0) {
+        throw new CommandError(
+            'All splits were empty after deduplication - no files to commit',
+            'SPLIT_EMPTY',
+            false
+        );
+    }
+
+    const interactive = !!(runConfig.commit?.interactive && !runConfig.commit?.sendit);
+    let plannedSplits = deduplicatedSplits;
+    if (interactive && !isDryRun) {
+        const edited = await editSplitPlanInteractively(deduplicatedSplits, runConfig, logger);
+        if (!edited) {
+            logger.info('SPLIT_PLAN_ABORTED: User aborted the split plan | Action: No commits created');
+            return { action: 'none', dryRun: isDryRun, committed: false, note: 'Split commit aborted - no commits were created.' };
+        }
+        if (edited !== deduplicatedSplits) {
+            const outputDirectory = runConfig.outputDirectory || DEFAULT_OUTPUT_DIRECTORY;
+            await saveSplitPlan(edited, outputDirectory, storage, logger);
+        }
+        plannedSplits = edited;
+    }
+
+    if (!isDryRun) {
+        checkForSecrets(await getStagedDiff(), runConfig, true, logger);
+    }
+
+    const splitResult = await executeSplitCommits({
+        splits: plannedSplits,
+        runConfig,
+        isDryRun,
+        interactive,
+        atomic: !!getCommitOptions(runConfig).atomic,
+        verify: !!getCommitOptions(runConfig).verifySplits,
+        logger,
+        storage
+    });
+
+    return await finishSplitCommits(splitResult, runConfig, isDryRun, logger);
+}
+
+/**
+ * Push after a successful split run, or turn a failed run into an error
+ */
+async function finishSplitCommits(
+    splitResult: SplitCommitResult,
+    runConfig: Config,
+    isDryRun: boolean,
+    logger: any
+): Promise<CommitResult> {
+    if (splitResult.success) {
+        // Push if requested (all commits)
+        const push = await pushCommit(runConfig, logger, isDryRun);
+
+        return {
+            action: 'split',
+            dryRun: isDryRun,
+            committed: !isDryRun && splitResult.commitsCreated > 0,
+            sha: splitResult.verification?.commits.at(-1)?.sha ?? splitResult.commits.at(-1)?.sha,
+            split: splitResult,
+            ...(push ? { push } : {}),
+        };
+    } else {
+        const errorMessage = splitResult.error?.message || 'Unknown error';
+        const recovery = splitResult.rolledBack
+            ? ' (all split commits were rolled back)'
+            : splitResult.backup && splitResult.commitsCreated > 0 ? ' (run kodrdriv commit --undo-split to restore the pre-split state)' : '';
+        throw new CommandError(
+            `Failed to create split commits: ${errorMessage}${recovery}`,
+            'SPLIT_COMMIT_FAILED',
+            false,
+            splitResult.error
+        );
+    }
+}
+
+// Helper function to get the current HEAD commit, if any
+const getHeadCommit = async (): Promise<string | undefined> => {
+    try {
+        const result = await run('git rev-parse HEAD');
+        return (typeof result === 'string' ? result : result.stdout).trim() || undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Save the suggested splits as a versioned plan that can be reviewed and applied later
+ */
+async function saveSplitPlan(
+    splits: CommitSplit[],
+    outputDirectory: string,
+    storage: any,
+    logger: any,
+    model?: string
+): Promise<string | undefined> {
+    try {
+        const plan = createSplitPlan(splits, { baseCommit: await getHeadCommit(), model });
+        const planPath = getOutputPath(outputDirectory, getSplitPlanFilename());
+        await storage.writeFile(planPath, serializeSplitPlan(plan), 'utf-8');
+        logger.info('SPLIT_PLAN_SAVED: Saved split plan | Path: %s | Splits: %d | Apply with: kodrdriv commit --apply-plan %s', planPath, splits.length, planPath);
+        return planPath;
+    } catch (error: any) {
+        logger.warn('Failed to save split plan: %s', error.message);
+        return undefined;
+    }
+}
+
+/**
+ * Execute a saved (or hand-edited) split plan without calling the LLM (commit --apply-plan)
+ */
+async function applySplitPlan(planPath: string, runConfig: Config, isDryRun: boolean, logger: any): Promise<CommitResult> {
+    const storage = createStorage();
+
+    let content: string;
+    try {
+        content = await storage.readFile(planPath, 'utf-8');
+    } catch (error: any) {
+        throw new ValidationError(`Cannot read split plan ${planPath}: ${error.message}`);
+    }
+    const plan = parseSplitPlan(content, planPath);
+
+    logger.info('SPLIT_PLAN_APPLY: Applying split plan | Path: %s | Splits: %d | Created: %s', planPath, plan.splits.length, plan.createdAt || 'unknown');
+
+    const headCommit = await getHeadCommit();
+    if (plan.baseCommit && headCommit && plan.baseCommit !== headCommit) {
+        logger.warn('SPLIT_PLAN_BASE_CHANGED: HEAD moved since the plan was created | Plan base: %s | HEAD: %s | Action: Applying anyway',
+            plan.baseCommit.substring(0, 7), headCommit.substring(0, 7));
+    }
+
+    return await runSplitCommits(plan.splits, runConfig, isDryRun, logger, storage);
+}
+
+/**
+ * Continue an interrupted split run from its first pending split (commit --resume)
+ */
+async function resumeSplitCommits(runConfig: Config, isDryRun: boolean, logger: any): Promise<CommitResult> {
+    const outputDirectory = runConfig.outputDirectory || DEFAULT_OUTPUT_DIRECTORY;
+    const sessionPath = getOutputPath(outputDirectory, SPLIT_SESSION_FILENAME);
+    const storage = createStorage();
+
+    if (!await storage.exists(sessionPath)) {
+        throw new ValidationError(`No split session found at ${sessionPath}. Nothing to resume.`);
+    }
+    const session = parseSplitSession(await storage.readFile(sessionPath, 'utf-8'), sessionPath);
+
+    const pending = getPendingSplitIndexes(session);
+    if (pending.length === 0) {
+        await clearSplitSession(outputDirectory, storage, logger);
+        return { action: 'none', dryRun: isDryRun, committed: false, note: 'Split session has no pending splits - nothing to resume.' };
+    }
+
+    // The repository must still be where the session left it
+    const expectedHead = getExpectedHead(session);
+    const headCommit = await getHeadCommit();
+    if (expectedHead && headCommit !== expectedHead) {
+        throw new ValidationError(`HEAD is ${headCommit?.substring(0, 7) || '(none)'} but the split session expects ${expectedHead.substring(0, 7)}. Restore that commit or discard ${sessionPath}.`);
+    }
+
+    const pendingFiles = Array.from(new Set(pending.flatMap(index => getSplitFiles(session.splits[index]))));
+    const expected = Object.fromEntries(pendingFiles.map(file => [file, session.fingerprints[file] ?? null]));
+    const mismatched = findFingerprintMismatches(expected, await getWorkingTreeFingerprints(pendingFiles));
+    if (mismatched.length > 0) {
+        throw new ValidationError(`Working tree no longer matches the split plan for: ${mismatched.join(', ')}. Discard ${sessionPath} and run commit again.`);
+    }
+
+    logger.info('SPLIT_RESUME: Resuming split session | Started: %s | Completed: %d | Pending: %d', session.startedAt, session.completed.length, pending.length);
+
+    // Resumed splits are staged from the working tree, so start from a clean index
+    if (!isDryRun) {
+        const pendingDiff = await run(`git diff HEAD --no-color -- ${shellescape(pendingFiles)}`);
+        checkForSecrets(typeof pendingDiff === 'string' ? pendingDiff : pendingDiff.stdout, runConfig, true, logger);
+        await unstageAll();
+    }
+
+    const splitResult = await executeSplitCommits({
+        splits: session.splits,
+        session,
+        runConfig,
+        isDryRun,
+        interactive: !!(runConfig.commit?.interactive && !runConfig.commit?.sendit),
+        atomic: !!getCommitOptions(runConfig).atomic,
+        verify: !!getCommitOptions(runConfig).verifySplits,
+        logger,
+        storage
+    });
+
+    return await finishSplitCommits(splitResult, runConfig, isDryRun, logger);
+}
+
+/**
+ * Restore the HEAD and index recorded before the last split run (commit --undo-split)
+ */
+async function undoSplitCommits(isDryRun: boolean, logger: any): Promise<CommitResult> {
+    const backup = await readSplitBackup();
+    if (!backup) {
+        throw new ValidationError('No split backup found. --undo-split only works after a split commit run.');
+    }
+
+    const currentBranch = await run('git symbolic-ref --quiet --short HEAD').then(
+        (result: any) => (typeof result === 'string' ? result : result.stdout).trim(),
+        () => null
+    );
+    if (backup.branch && currentBranch !== backup.branch) {
+        throw new ValidationError(`Split backup was recorded on branch "${backup.branch}" but the current branch is "${currentBranch || '(detached)'}". Check out ${backup.branch} before undoing.`);
+    }
+    if (!await isBackupAncestorOfHead(backup)) {
+        throw new ValidationError(`HEAD no longer descends from the pre-split commit ${backup.head}. History was rewritten since the split; undo manually with git reset.`);
+    }
+
+    logger.info(`SPLIT_UNDO: Restoring state from before split run | Recorded: ${backup.createdAt || 'unknown'} | HEAD: ${backup.head?.substring(0, 7) || '(none)'}`);
+    if (isDryRun) {
+        logger.info(`Would reset HEAD to ${backup.head || '(unborn)'} and restore the index from ${backup.index}`);
+        return { action: 'undo-split', dryRun: true, committed: false, ...(backup.head ? { restoredHead: backup.head } : {}) };
+    }
+
+    await restoreSplitBackup(backup);
+    await clearSplitBackup();
+    logger.info('SPLIT_UNDO_SUCCESS: Split commits undone | Index: restored | Working tree: unchanged');
+
+    return { action: 'undo-split', dryRun: false, committed: false, ...(backup.head ? { restoredHead: backup.head } : {}) };
+}
+
+/**
+ * Ask the LLM which branch commit each change belongs to
+ */
+async function assignFixupTargetsWithLLM(changes: FixupChange[], commits: BranchCommit[], runConfig: Config): Promise<Map<number, BranchCommit>> {
+    const answer = await requestCommitMessage(runConfig, {
+        diffContent: changes.map(change => `### Change ${change.id}: ${describeChange(change)}\n${change.hunks.flatMap(hunk => hunk.lines).join('\n')}`).join('\n\n'),
+        userDirection: `Do not write a commit message. Each change below is a follow-up to one of these commits on the current branch:
+${commits.map(commit => `- ${commit.sha.substring(0, 12)} ${commit.subject}`).join('\n')}
+
+Answer with one line per change in the form "<change number>: <commit sha>". Leave out changes that belong to none of these commits.`,
+    }, {}, 'commit-fixup');
+    return parseFixupAssignments(answer, commits);
+}
+
+/**
+ * Turn the staged changes into fixup! commits for the branch commits they belong to (commit --fixup).
+ * Changes are placed by blame over the branch, or by the LLM when blame cannot place them
+ * (commit.fixup.ai). Changes that fit no commit stay staged. Optionally autosquashes afterwards.
+ */
+async function runFixupCommits(runConfig: Config, isDryRun: boolean, logger: any): Promise<CommitResult> {
+    const commitOptions = getCommitOptions(runConfig);
+    const options: FixupOptions = commitOptions.fixup === true ? {} : commitOptions.fixup || {};
+    const aiMode = options.ai || 'fallback';
+
+    const rawStagedDiff = await getStagedDiff();
+    const stagedDiff = parseDiff(rawStagedDiff);
+    if (stagedDiff.length === 0) {
+        return { action: 'none', dryRun: isDryRun, committed: false, note: 'No staged changes to turn into fixup commits.' };
+    }
+    checkForSecrets(rawStagedDiff, runConfig, !isDryRun, logger);
+    await enforceRepoGuards('commit', commitOptions.guards, logger, isDryRun);
+
+    const base = await getFixupBase(options.base);
+    const commits = await getBranchCommits(base);
+    if (commits.length === 0) {
+        throw new ValidationError(`No commits on this branch since ${base.substring(0, 7)} to fix up`);
+    }
+    logger.info('FIXUP_BRANCH: Looking for fixup targets | Base: %s | Commits: %d | AI: %s', base.substring(0, 7), commits.length, aiMode);
+
+    const changes = getFixupChanges(stagedDiff);
+    const binaryFiles = stagedDiff.filter(fileDiff => fileDiff.isBinary).map(fileDiff => fileDiff.file);
+    const assignments = new Map<number, BranchCommit>();
+    const unassigned = () => changes.filter(change => !assignments.has(change.id));
+
+    const assignByBlame = async () => {
+        for (const change of unassigned()) {
+            const commit = await blameChange(change, commits);
+            if (commit) {
+                assignments.set(change.id, commit);
+            }
+        }
+    };
+    const assignByLLM = async () => {
+        if (unassigned().length === 0) {
+            return;
+        }
+        try {
+            (await assignFixupTargetsWithLLM(unassigned(), commits, runConfig)).forEach((commit, id) => {
+                if (!assignments.has(id)) {
+                    assignments.set(id, commit);
+                }
+            });
+        } catch (error: any) {
+            logger.warn('FIXUP_AI_FAILED: Could not ask the AI for fixup targets | Error: %s', error.message);
+        }
+    };
+
+    if (aiMode === 'always') {
+        await assignByLLM();
+        await assignByBlame();
+    } else {
+        await assignByBlame();
+        if (aiMode === 'fallback') {
+            await assignByLLM();
+        }
+    }
+
+    const targets = groupFixupTargets(commits, assignments, changes);
+    const unresolved = unassigned();
+
+    const lines = [`Fixup targets on the branch since ${base.substring(0, 7)}:`];
+    for (const target of targets) {
+        lines.push(`  fixup! ${target.commit.sha.substring(0, 7)} ${target.commit.subject}`);
+        target.changes.forEach(change => lines.push(`    - ${describeChange(change)}`));
+    }
+    if (unresolved.length > 0 || binaryFiles.length > 0) {
+        lines.push('Left staged (no matching commit):');
+        unresolved.forEach(change => lines.push(`    - ${describeChange(change)}`));
+        binaryFiles.forEach(file => lines.push(`    - ${file} (binary)`));
+    }
+    logger.info('%s', lines.join('\n'));
+
+    const fixup: FixupCommitResult = {
+        base,
+        commits: isDryRun ? targets.map(target => ({ target: target.commit })) : [],
+        leftStaged: [...unresolved.map(describeChange), ...binaryFiles],
+    };
+    if (targets.length === 0 || isDryRun) {
+        if (targets.length > 0) {
+            logger.info('Would create %d fixup commits%s', targets.length, options.autosquash ? ' and autosquash them' : '');
+        }
+        return { action: 'fixup', dryRun: isDryRun, committed: false, fixup };
+    }
+
+    const binaryEntries = await captureIndexEntries(binaryFiles);
+    await unstageAll();
+
+    for (let i = 0; i < targets.length; i++) {
+        const target = targets[i];
+        try {
+            await applyPatchToIndex(buildPartialPatch(stagedDiff, toHunkSelections(target.changes)));
+            await runSecure('git', withSigning(['commit', `--fixup=${target.commit.sha}`], commitOptions.sign));
+            fixup.commits.push({ target: target.commit, sha: await getHeadCommit() });
+            logger.info('✅ Created fixup commit for %s - %s', target.commit.sha.substring(0, 7), target.commit.subject);
+        } catch (error: any) {
+            logger.error('Failed to create fixup commit for %s: %s', target.commit.sha.substring(0, 7), error.message);
+            await unstageAll();
+            const remaining = [...targets.slice(i).flatMap(t => t.changes), ...unresolved];
+            await applyPatchToIndex(buildPartialPatch(stagedDiff, toHunkSelections(remaining)));
+            await restoreIndexEntries(binaryEntries);
+            throw new ExternalDependencyError(`Failed to create fixup commit for ${target.commit.sha.substring(0, 7)}; the remaining changes are staged again`, 'git', error);
+        }
+    }
+
+    if (unresolved.length > 0) {
+        await applyPatchToIndex(buildPartialPatch(stagedDiff, toHunkSelections(unresolved)));
+    }
+    await restoreIndexEntries(binaryEntries);
+
+    if (options.autosquash) {
+        if (fixup.leftStaged.length > 0) {
+            // A rebase would stash the staged leftovers and restore them unstaged
+            logger.warn('FIXUP_AUTOSQUASH_SKIPPED: Changes are still staged | Action: Commit them, then run git rebase -i --autosquash %s', base.substring(0, 7));
+            fixup.autosquash = 'skipped';
+            fixup.autosquashSkipped = 'staged-changes';
+        } else if (await hasWorktreeChanges()) {
+            // Stashing them around the rebase could leave them behind in the stash
+            logger.warn('FIXUP_AUTOSQUASH_SKIPPED: Working tree has uncommitted changes | Action: Commit or stash them, then run git rebase -i --autosquash %s', base.substring(0, 7));
+            fixup.autosquash = 'skipped';
+            fixup.autosquashSkipped = 'worktree-changes';
+        } else {
+            await runAutosquash(base, commitOptions.sign);
+            logger.info('FIXUP_AUTOSQUASHED: Folded fixup commits into their targets | Base: %s', base.substring(0, 7));
+            fixup.autosquash = 'done';
+        }
+    }
+    return { action: 'fixup', dryRun: false, committed: true, sha: await getHeadCommit(), fixup };
+}
+
+function formatFixupSummary(fixup: FixupCommitResult, isDryRun: boolean): string {
+    if (fixup.commits.length === 0) {
+        return 'No staged change could be matched to a commit on this branch; nothing was committed.';
+    }
+    if (isDryRun) {
+        return `DRY RUN: Would create ${fixup.commits.length} fixup commit(s)`;
+    }
+    const summary = [`Created ${fixup.commits.length} fixup commit(s):`, ...fixup.commits.map(commit => `  fixup! ${commit.target.subject}`)];
+    if (fixup.autosquash === 'skipped') {
+        summary.push(fixup.autosquashSkipped === 'worktree-changes'
+            ? 'Autosquash skipped: the working tree has uncommitted changes'
+            : 'Autosquash skipped: some changes are still staged');
+    } else if (fixup.autosquash === 'done') {
+        summary.push(`Autosquashed onto ${fixup.base.substring(0, 7)}`);
+    }
+    return summary.join('\n');
+}
+
+function formatCommitAction(result: CommitResult): string {
+    switch (result.action) {
+        case 'split':
+            return result.split ? formatSplitCommitSummary(result.split) : '';
+        case 'fixup':
+            return result.fixup ? formatFixupSummary(result.fixup, result.dryRun) : '';
+        case 'undo-split': {
+            const head = result.restoredHead?.substring(0, 7) || '(none)';
+            return result.dryRun
+                ? `DRY RUN: Would restore pre-split state (HEAD ${head})`
+                : `Restored pre-split state (HEAD ${head}); the split changes are staged again.`;
+        }
+        case 'none':
+            return result.note || '';
+        default:
+            return result.message ?? '';
+    }
+}
+
+/**
+ * Render a commit result as the text shown on the command line: the commit message, or a
+ * summary of the split, fixup or undo run, followed by the remotes a push failed on
+ */
+export function formatCommitResult(result: CommitResult): string {
+    const text = formatCommitAction(result);
+    return result.push && !result.push.success ? `${text}\n\nPush failed:\n${formatPushResult(result.push)}` : text;
+}
+
+const executeInternal = async (runConfig: Config): Promise<CommitResult> => {
     const isDryRun = runConfig.dryRun || false;
     const logger = getDryRunLogger(isDryRun);
 
+    const commitOptions = getCommitOptions(runConfig);
+    const nothingToCommit = (note: string): CommitResult => ({ action: 'none', dryRun: isDryRun, committed: false, note });
+
+    if (commitOptions.undoSplit) {
+        return await undoSplitCommits(isDryRun, logger);
+    }
+
     logger.info('COMMIT_START: Starting commit message generation | Mode: %s', isDryRun ? 'dry-run' : 'live');
 
     // Track if user explicitly chose to skip in interactive mode
@@ -801,6 +2070,18 @@ const executeInternal = async (runConfig: Config) => {
         }
     }
 
+    if (commitOptions.resume) {
+        return await resumeSplitCommits(runConfig, isDryRun, logger);
+    }
+
+    if (commitOptions.applyPlan) {
+        return await applySplitPlan(commitOptions.applyPlan, runConfig, isDryRun, logger);
+    }
+
+    if (commitOptions.fixup) {
+        return await runFixupCommits(runConfig, isDryRun, logger);
+    }
+
     // Determine cached state with single, clear logic
     logger.info('COMMIT_CHECK_STAGED: Checking for staged changes | Action: Analyzing git status');
     const cached = await determineCachedState(runConfig);
@@ -809,11 +2090,22 @@ const executeInternal = async (runConfig: Config) => {
     // Validate sendit state early - now returns boolean instead of throwing
     validateSenditState(runConfig, cached, isDryRun, logger);
 
+    // Refuse before generating anything if the commit could not be made safely
+    if (runConfig.commit?.sendit && cached) {
+        await enforceRepoGuards('commit', commitOptions.guards, logger, isDryRun);
+    }
+
     logger.info('COMMIT_GENERATE_DIFF: Generating diff content | Max bytes: %d', runConfig.commit?.maxDiffBytes ?? DEFAULT_MAX_DIFF_BYTES);
     let diffContent = '';
     const maxDiffBytes = runConfig.commit?.maxDiffBytes ?? DEFAULT_MAX_DIFF_BYTES;
+    // An amend replaces the last commit, so the message has to describe everything since its parent
+    const amendTarget = runConfig.commit?.amend ? await getAmendTarget() : undefined;
+    if (amendTarget) {
+        logger.info('COMMIT_AMEND_DIFF: Diffing the amended commit against its parent | Base: %s', amendTarget.base.substring(0, 7));
+    }
     const options = {
         cached,
+        ...(amendTarget ? { from: amendTarget.base } : {}),
         excludedPatterns: runConfig.excludedPatterns ?? DEFAULT_EXCLUDED_PATTERNS,
         maxDiffBytes
     };
@@ -846,7 +2138,7 @@ const executeInternal = async (runConfig: Config) => {
                     hasActualChanges = true;
                 } else {
                     logger.warn('No changes detected even after including critical files.');
-                    return 'No changes to commit.';
+                    return nothingToCommit('No changes to commit.');
                 }
             } else {
                 // In non-sendit mode, suggest including the files
@@ -859,7 +2151,7 @@ const executeInternal = async (runConfig: Config) => {
                 logger.warn('Or run with --sendit to automatically include critical files.');
 
                 if (!isDryRun) {
-                    return 'No changes to commit. Use suggestions above to include critical files.';
+                    return nothingToCommit('No changes to commit. Use suggestions above to include critical files.');
                 } else {
                     logger.info('Generating commit message template for future use...');
                 }
@@ -870,7 +2162,7 @@ const executeInternal = async (runConfig: Config) => {
 
             if (runConfig.commit?.sendit && !isDryRun) {
                 logger.warn('No changes detected to commit. Skipping commit operation.');
-                return 'No changes to commit.';
+                return nothingToCommit('No changes to commit.');
             } else {
                 logger.info('NO_DIFF_FALLBACK: No diff content available | Action: Attempting to generate commit message from file content | Strategy: fallback');
 
@@ -890,7 +2182,7 @@ const executeInternal = async (runConfig: Config) => {
                 } else {
                     if (runConfig.commit?.sendit) {
                         logger.info('COMMIT_SKIPPED: Skipping commit operation | Reason: No changes detected | Action: None');
-                        return 'No changes to commit.';
+                        return nothingToCommit('No changes to commit.');
                     } else {
                         logger.info('COMMIT_TEMPLATE_GENERATING: Creating commit message template for future use | Reason: No changes | Purpose: Provide template');
                     }
@@ -899,11 +2191,20 @@ const executeInternal = async (runConfig: Config) => {
         }
     }
 
+    // Staged secrets block sendit before anything is generated; everywhere else they are a warning
+    const stagedDiff = cached && hasActualChanges ? await getStagedDiff(amendTarget?.base) : '';
+    const secretFindings = stagedDiff
+        ? checkForSecrets(stagedDiff, runConfig, !!(runConfig.commit?.sendit && !isDryRun), logger)
+        : scanDiffForSecrets(diffContent, commitOptions.secretScan);
+    // Files with findings are kept from the agentic tools entirely, not only masked in the diff
+    const secretFiles = Array.from(new Set(secretFindings.map(finding => finding.file)));
+    diffContent = redactDiffForLLM(diffContent, runConfig, logger);
+
     const logOptions = {
         limit: runConfig.commit?.messageLimit,
     };
     const log = await Log.create(logOptions);
-    const logContext = await log.get();
+    let logContext = await log.get();
 
     // Always ensure output directory exists for request/response files and GitHub issues lookup
     const outputDirectory = runConfig.outputDirectory || DEFAULT_OUTPUT_DIRECTORY;
@@ -938,25 +2239,43 @@ const executeInternal = async (runConfig: Config) => {
         overridePaths: (runConfig as any).discoveredConfigDirs || [],
         overrides: runConfig.overrides || false,
     };
-    const userDirection = sanitizeDirection(runConfig.commit?.direction);
+    let userDirection = sanitizeDirection(runConfig.commit?.direction);
     if (userDirection) {
         logger.debug('Using user direction: %s', userDirection);
     }
+    if (amendTarget?.message) {
+        // The message being replaced is a hint; the diff is what the new message must describe
+        userDirection = [
+            userDirection,
+            `This rewrites an existing commit. The diff is the whole amended commit, not only the latest changes. Its current message is:\n"""\n${amendTarget.message}\n"""\nKeep what is still accurate and describe the complete change.`,
+        ].filter(Boolean).join('\n\n');
+    }
 
     // Create adapters for ai-service
     const aiConfig = toAIConfig(runConfig);
-    const aiStorageAdapter = createStorageAdapter(outputDirectory);
+    // The agentic tools read files through this storage, so the secret scan, path policy and masks apply to them as well
+    const aiStorageAdapter = withRedactedReads(
+        withSecretsRedactedReads(createStorageAdapter(outputDirectory), commitOptions.secretScan, secretFiles),
+        commitOptions.redaction
+    );
     const aiLogger = createLoggerAdapter(isDryRun);
 
     // Read context from files if provided
-    const contextFromFiles = await readContextFiles(runConfig.commit?.contextFiles, logger);
+    const contextFromFiles = await readContextFiles(runConfig.commit?.contextFiles, logger, getCommitOptions(runConfig).redaction);
 
     // Combine file context with existing context
-    const combinedContext = [
+    let combinedContext = [
         runConfig.commit?.context,
         contextFromFiles
     ].filter(Boolean).join('\n\n---\n\n');
 
+    // Nothing leaves the machine before the redaction policy has been applied
+    const commitRequestFile = getOutputPath(outputDirectory, getTimestampedRequestFilename('commit'));
+    const redacted = await redactCommitInputs({ diffContent, logContext, context: combinedContext }, ['diffContent'], runConfig, commitRequestFile, logger);
+    diffContent = redacted.diffContent;
+    logContext = redacted.logContext;
+    combinedContext = redacted.context;
+
     // Define promptContext for use in interactive improvements
     const promptContext: CommitContext = {
         logContext,
@@ -970,29 +2289,70 @@ const executeInternal = async (runConfig: Config) => {
     }
 
     // Get list of changed files
-    const changedFilesResult = await run(`git diff --name-only ${cached ? '--cached' : ''}`);
+    const changedFilesResult = await run(`git diff --name-only ${cached ? '--cached' : ''}${amendTarget ? ` ${amendTarget.base}` : ''}`);
     const changedFilesOutput = typeof changedFilesResult === 'string' ? changedFilesResult : changedFilesResult.stdout;
     const changedFiles = changedFilesOutput.split('\n').filter((f: string) => f.trim().length > 0);
+    const aiChangedFiles = changedFiles.filter((file: string) =>
+        (!isRedactionEnabled(commitOptions.redaction) || isPathAllowed(file, commitOptions.redaction))
+        && !secretFiles.includes(file) && !isSensitivePath(file, commitOptions.secretScan));
+    if (aiChangedFiles.length < changedFiles.length) {
+        logger.info('AI_FILES_EXCLUDED: Files kept from the AI tools by the secret scan or redaction policy | Files: %s',
+            changedFiles.filter((file: string) => !aiChangedFiles.includes(file)).join(', '));
+    }
 
     logger.debug('Changed files for analysis: %d files', changedFiles.length);
 
+    const provider = getCommitProvider(runConfig);
+    const modelName = provider.model || aiConfig.commands?.commit?.model || aiConfig.model;
+
+    // Reuse the result of an earlier run on the same staged diff, direction and model
+    const cacheKey = stagedDiff && commitOptions.cache?.enabled !== false
+        ? getCommitCacheKey({ diff: stagedDiff, direction: userDirection, model: provider.type === 'hosted' ? modelName : `${provider.type}:${modelName}` })
+        : undefined;
+    const cachedResult = cacheKey && !commitOptions.regenerate
+        ? await readCommitCache(outputDirectory, cacheKey, storage, commitOptions.cache).catch(() => null)
+        : null;
+
     // Run agentic commit generation
-    logger.info('COMMIT_AI_GENERATION: Starting AI-powered commit message generation | Model: %s | Reasoning: %s | Files: %d',
-        aiConfig.commands?.commit?.model || aiConfig.model || 'gpt-4o-mini',
-        aiConfig.commands?.commit?.reasoning || aiConfig.reasoning || 'low',
-        changedFiles.length);
+    if (cachedResult) {
+        logger.info('COMMIT_CACHE_HIT: Reusing the message generated for this staged diff | Created: %s | Splits: %d | Regenerate with: kodrdriv commit --regenerate',
+            cachedResult.createdAt, cachedResult.suggestedSplits.length);
+    } else {
+        logger.info('COMMIT_AI_GENERATION: Starting AI-powered commit message generation | Provider: %s | Model: %s | Reasoning: %s | Files: %d',
+            provider.type,
+            modelName || 'gpt-4o-mini',
+            aiConfig.commands?.commit?.reasoning || aiConfig.reasoning || 'low',
+            changedFiles.length);
+    }
     let usedFallbackCommitMessage = false;
-    const agenticResult = await (async () => {
+    let usedHeuristicMessage = false;
+    const agenticResult = cachedResult ? {
+        commitMessage: cachedResult.commitMessage,
+        iterations: 0,
+        toolCallsExecuted: 0,
+        suggestedSplits: cachedResult.suggestedSplits,
+        conversationHistory: [],
+        toolMetrics: [],
+    } : await (async () => {
         try {
-            return await runAgenticCommit({
-                changedFiles,
+            if (!provider.runAgenticCommit) {
+                // Providers without tool calling get the whole diff in one prompt
+                const commitMessage = await requestCommitMessage(runConfig, { diffContent, userDirection }, {
+                    logContext,
+                    context: combinedContext || undefined,
+                    directories: runConfig.contextDirectories,
+                }, 'commit');
+                return { commitMessage, iterations: 1, toolCallsExecuted: 0, suggestedSplits: [], conversationHistory: [], toolMetrics: [] };
+            }
+            return await provider.runAgenticCommit({
+                changedFiles: aiChangedFiles,
                 diffContent,
                 userDirection,
                 logContext,
-                model: aiConfig.commands?.commit?.model || aiConfig.model,
+                model: modelName,
                 maxIterations: runConfig.commit?.maxAgenticIterations || 10,
                 debug: runConfig.debug,
-                debugRequestFile: getOutputPath(outputDirectory, getTimestampedRequestFilename('commit')),
+                debugRequestFile: commitRequestFile,
                 debugResponseFile: getOutputPath(outputDirectory, getTimestampedResponseFilename('commit')),
                 storage: aiStorageAdapter,
                 logger: aiLogger,
@@ -1004,8 +2364,23 @@ const executeInternal = async (runConfig: Config) => {
             }
 
             usedFallbackCommitMessage = true;
+            logger.warn('COMMIT_AI_TOKEN_LIMIT: AI commit generation exceeded model token limits | Action: Summarizing the diff in chunks | Files: %d', changedFiles.length);
+            try {
+                const chunked = await summarizeDiffInChunks(diffContent, userDirection, runConfig, logger);
+                return {
+                    commitMessage: chunked.commitMessage,
+                    iterations: 0,
+                    toolCallsExecuted: 0,
+                    suggestedSplits: chunked.suggestedSplits,
+                    conversationHistory: [],
+                    toolMetrics: [],
+                };
+            } catch (chunkError: any) {
+                logger.warn('COMMIT_AI_CHUNKED_FAILED: Chunked summarization failed | Error: %s | Action: Falling back to heuristic commit message', chunkError.message);
+            }
+
+            usedHeuristicMessage = true;
             const fallbackMessage = await buildFallbackCommitMessage(changedFiles, storage);
-            logger.warn('COMMIT_AI_TOKEN_LIMIT: AI commit generation exceeded model token limits | Action: Falling back to heuristic commit message | Files: %d', changedFiles.length);
             logger.warn('COMMIT_AI_FALLBACK_MESSAGE: Using fallback commit message | Message: %s', fallbackMessage);
 
             return {
@@ -1023,11 +2398,35 @@ const executeInternal = async (runConfig: Config) => {
     const toolCalls = agenticResult.toolCallsExecuted || 0;
     logger.info(`🔍 Analysis complete: ${iterations} iterations, ${toolCalls} tool calls`);
 
+    // Heuristic messages are not worth keeping; the next run should try the AI again
+    if (cacheKey && !cachedResult && !usedHeuristicMessage) {
+        try {
+            await writeCommitCache(outputDirectory, cacheKey, {
+                commitMessage: agenticResult.commitMessage,
+                suggestedSplits: agenticResult.suggestedSplits,
+                model: aiConfig.commands?.commit?.model || aiConfig.model,
+            }, storage);
+            const evicted = await evictCommitCache(outputDirectory, storage, commitOptions.cache);
+            if (evicted > 0) {
+                logger.debug('Evicted %d old commit cache entries', evicted);
+            }
+        } catch (error: any) {
+            logger.warn('Failed to update the commit message cache: %s', error.message);
+        }
+    }
+
     // Generate self-reflection output if enabled
-    if (runConfig.commit?.selfReflection && !usedFallbackCommitMessage) {
+    if (runConfig.commit?.selfReflection && cachedResult) {
+        logger.info('Skipping self-reflection because the commit message came from the cache');
+    } else if (runConfig.commit?.selfReflection && !usedFallbackCommitMessage) {
         await generateSelfReflection(agenticResult, outputDirectory, storage, logger);
     } else if (runConfig.commit?.selfReflection && usedFallbackCommitMessage) {
-        logger.warn('Skipping self-reflection because commit generation used a fallback message after a token-limit failure');
+        logger.warn('Skipping self-reflection because commit generation fell back to chunked or heuristic generation after a token-limit failure');
+    }
+
+    // Keep every multi-commit suggestion as a plan, whether or not it gets executed now
+    if (agenticResult.suggestedSplits.length > 1) {
+        await saveSplitPlan(agenticResult.suggestedSplits, outputDirectory, storage, logger, aiConfig.commands?.commit?.model || aiConfig.model);
     }
 
     // Check for suggested splits
@@ -1047,43 +2446,7 @@ const executeInternal = async (runConfig: Config) => {
         if (autoSplitEnabled) {
             logger.info('\n🔄 Auto-split enabled - creating separate commits...\n');
 
-            // Deduplicate files across splits to prevent staging errors
-            // (AI sometimes suggests the same file in multiple splits)
-            const deduplicatedSplits = deduplicateSplits(agenticResult.suggestedSplits, logger);
-
-            if (deduplicatedSplits.length === 0) {
-                throw new CommandError(
-                    'All splits were empty after deduplication - no files to commit',
-                    'SPLIT_EMPTY',
-                    false
-                );
-            }
-
-            const splitResult = await executeSplitCommits({
-                splits: deduplicatedSplits,
-                runConfig,
-                isDryRun,
-                interactive: !!(runConfig.commit?.interactive && !runConfig.commit?.sendit),
-                logger,
-                storage
-            });
-
-            if (splitResult.success) {
-                // Push if requested (all commits)
-                if (runConfig.commit?.push && !isDryRun) {
-                    await pushCommit(runConfig.commit.push, logger, isDryRun);
-                }
-
-                return formatSplitCommitSummary(splitResult);
-            } else {
-                const errorMessage = splitResult.error?.message || 'Unknown error';
-                throw new CommandError(
-                    `Failed to create split commits: ${errorMessage}`,
-                    'SPLIT_COMMIT_FAILED',
-                    false,
-                    splitResult.error
-                );
-            }
+            return await runSplitCommits(agenticResult.suggestedSplits, runConfig, isDryRun, logger, storage);
         } else {
             logger.info('\n⚠️  Commit splitting is not automated. Please stage and commit files separately.');
             logger.info('Using combined message for now...\n');
@@ -1097,7 +2460,15 @@ const executeInternal = async (runConfig: Config) => {
 
     // Apply stop-context filtering to commit message
     const filterResult = filterContent(rawSummary, runConfig.stopContext);
-    const summary = filterResult.filtered;
+
+    // Interactive mode checks the message against the commit rules once the user accepts it
+    const summary = runConfig.commit?.interactive && !isDryRun
+        ? filterResult.filtered
+        : await enforceCommitMessageRules(filterResult.filtered, runConfig, {
+            interactive: false,
+            willCommit: !!(runConfig.commit?.sendit && hasActualChanges && cached && !isDryRun),
+            getDiff: async () => diffContent,
+        }, logger);
 
     // Save timestamped copy of commit message with better error handling
     await saveCommitMessage(outputDirectory, summary, storage, logger);
@@ -1153,38 +2524,42 @@ const executeInternal = async (runConfig: Config) => {
             storage,
             diffContent,
             hasActualChanges,
-            cached
+            cached,
+            amendTarget?.message
         );
 
         if (interactiveResult.action === 'skip') {
             logger.info('COMMIT_ABORTED: User aborted commit operation | Reason: User choice | Action: No commit performed');
             logger.info('COMMIT_NO_ACTION: No commit will be performed | Status: aborted | Next: User can retry or modify changes');
             userSkippedCommit = true;
-            return interactiveResult.finalMessage;
+            return { action: 'commit', dryRun: isDryRun, committed: false, message: interactiveResult.finalMessage };
         }
 
         // User chose to commit - check if sendit is enabled to determine what action to take
         const senditEnabled = runConfig.commit?.sendit;
         const willActuallyCommit = senditEnabled && hasActualChanges && cached;
 
+        interactiveResult.finalMessage = await enforceCommitMessageRules(interactiveResult.finalMessage, runConfig, {
+            interactive: true,
+            willCommit: !!willActuallyCommit,
+            getDiff: async () => diffContent,
+        }, logger);
+        const result: CommitResult = { action: 'commit', dryRun: isDryRun, committed: false, message: interactiveResult.finalMessage };
+
         if (willActuallyCommit) {
             const commitAction = runConfig.commit?.amend ? 'amending last commit' : 'committing';
             logger.info('SENDIT_EXECUTING: SendIt enabled, executing commit action | Action: %s | Message Length: %d | Final Message: \n\n%s\n\n', commitAction.charAt(0).toUpperCase() + commitAction.slice(1), interactiveResult.finalMessage.length, interactiveResult.finalMessage);
             try {
-                const validatedSummary = validateString(interactiveResult.finalMessage, 'commit summary');
-                const escapedSummary = shellescape([validatedSummary]);
-                const commitCommand = runConfig.commit?.amend ?
-                    `git commit --amend -m ${escapedSummary}` :
-                    `git commit -m ${escapedSummary}`;
-                await run(commitCommand);
+                await runGitCommit(interactiveResult.finalMessage, runConfig, { amend: runConfig.commit?.amend }, logger);
                 logger.info('COMMIT_SUCCESS: Commit operation completed successfully | Status: committed | Action: Changes saved to repository');
-
-                // Push if requested
-                await pushCommit(runConfig.commit?.push, logger, isDryRun);
+                Object.assign(result, { committed: true, sha: await getHeadCommit(), amended: !!runConfig.commit?.amend });
             } catch (error: any) {
                 logger.error('Failed to commit:', error);
                 throw new ExternalDependencyError('Failed to create commit', 'git', error);
             }
+
+            // Push if requested
+            result.push = await pushCommit(runConfig, logger, isDryRun);
         } else if (senditEnabled && (!hasActualChanges || !cached)) {
             logger.info('📝 SendIt enabled but no staged changes available. Final message saved: \n\n%s\n\n', interactiveResult.finalMessage);
             if (!hasActualChanges) {
@@ -1197,13 +2572,15 @@ const executeInternal = async (runConfig: Config) => {
             logger.info('💡 To automatically commit, add sendit: true to your commit configuration');
         }
 
-        return interactiveResult.finalMessage;
+        return result;
     }
 
+    const result: CommitResult = { action: 'commit', dryRun: isDryRun, committed: false, message: summary };
+
     // Safety check: Never commit if user explicitly skipped in interactive mode
     if (userSkippedCommit) {
         logger.debug('Skipping sendit logic because user chose to skip in interactive mode');
-        return summary;
+        return result;
     }
 
     if (runConfig.commit?.sendit) {
@@ -1213,28 +2590,21 @@ const executeInternal = async (runConfig: Config) => {
             logger.info('Would execute: %s', commitAction);
 
             // Show push command in dry run if requested
-            if (runConfig.commit?.push) {
-                const remote = typeof runConfig.commit.push === 'string' ? runConfig.commit.push : 'origin';
-                logger.info('Would push to %s with: git push %s', remote, remote);
-            }
+            result.push = await pushCommit(runConfig, logger, isDryRun);
         } else if (hasActualChanges && cached) {
             const commitAction = runConfig.commit?.amend ? 'amending commit' : 'committing';
             logger.info('SendIt mode enabled. %s with message: \n\n%s\n\n', commitAction.charAt(0).toUpperCase() + commitAction.slice(1), summary);
             try {
-                const validatedSummary = validateString(summary, 'commit summary');
-                const escapedSummary = shellescape([validatedSummary]);
-                const commitCommand = runConfig.commit?.amend ?
-                    `git commit --amend -m ${escapedSummary}` :
-                    `git commit -m ${escapedSummary}`;
-                await run(commitCommand);
+                await runGitCommit(summary, runConfig, { amend: runConfig.commit?.amend }, logger);
                 logger.info('Commit successful!');
-
-                // Push if requested
-                await pushCommit(runConfig.commit?.push, logger, isDryRun);
+                Object.assign(result, { committed: true, sha: await getHeadCommit(), amended: !!runConfig.commit?.amend });
             } catch (error: any) {
                 logger.error('Failed to commit:', error);
                 throw new ExternalDependencyError('Failed to create commit', 'git', error);
             }
+
+            // Push if requested
+            result.push = await pushCommit(runConfig, logger, isDryRun);
         } else {
             logger.info('SendIt mode enabled, but no changes to commit. Generated message: \n\n%s\n\n', summary);
         }
@@ -1245,10 +2615,13 @@ const executeInternal = async (runConfig: Config) => {
         logger.info('Generated commit message: \n\n%s\n\n', summary);
     }
 
-    return summary;
+    return result;
 }
 
-export const execute = async (runConfig: Config): Promise<string> => {
+/**
+ * Generate a commit message (and commit, split, fix up or push as configured) and return what was done
+ */
+export const executeForResult = async (runConfig: Config): Promise<CommitResult> => {
     try {
         return await executeInternal(runConfig);
     } catch (error: any) {
@@ -1271,3 +2644,7 @@ export const execute = async (runConfig: Config): Promise<string> => {
         throw error;
     }
 };
+
+export const execute = async (runConfig: Config): Promise<string> => {
+    return formatCommitResult(await executeForResult(runConfig));
+};
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+/**
+ * Hooks command - installs kodrdriv as git hooks and runs them
+ *
+ * - prepare-commit-msg fills in a generated commit message
+ * - pre-commit runs the optimized precommit script
+ * - commit-msg checks the message against commit.messageLint
+ *
+ * Each hook is skipped when its KODRDRIV_SKIP_<HOOK> variable (or KODRDRIV_SKIP_HOOKS) is set.
+ */
+import { getDryRunLogger, getLogger, Config } from '@grunnverk/core';
+import { run } from '@grunnverk/git-tools';
+import { ValidationError } from '@grunnverk/shared';
+import fs from 'fs/promises';
+import path from 'path';
+import { execute as executeCommit } from './commit';
+import { optimizePrecommitCommand, recordTestRun } from '../util/precommitOptimizations';
+import { lintCommitMessage, formatLintIssues } from '../util/commitLint';
+import {
+    HOOK_NAMES,
+    SKIP_ALL_HOOKS_ENV,
+    getSkipEnvName,
+    resolveHooksLocation,
+    installHook,
+    uninstallHook,
+    getHookStatus,
+    type HookName,
+    type HookStatus,
+} from '../util/gitHooks';
+import type { CommitOptions, HooksOptions } from '../types';
+
+// Messages git wrote itself (merges, fixups, reverts) are not linted
+const GENERATED_MESSAGE_PATTERN = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+const stripComments = (message: string): string => {
+    // Everything below the scissors line of `git commit -v` is not part of the message
+    const scissors = message.indexOf('# ------------------------ >8 ------------------------');
+    const kept = scissors >= 0 ? message.slice(0, scissors) : message;
+    return kept.split('\n').filter(line => !line.startsWith('#')).join('\n').trim();
+};
+
+const formatStatus = (status: HookStatus): string => {
+    const details = [
+        status.chained ? 'runs the existing hook first' : '',
+        status.foreign && !status.installed ? 'existing hook, not managed by kodrdriv' : '',
+    ].filter(Boolean);
+    return `${status.installed ? '✅' : '⬜'} ${status.name}: ${status.installed ? 'installed' : 'not installed'}${details.length ? ` (${details.join(', ')})` : ''}`;
+};
+
+/**
+ * prepare-commit-msg: write a generated message for plain `git commit`. Messages from -m, -F,
+ * templates, merges and amends are left alone, and generation failures never block the commit.
+ */
+async function runPrepareCommitMsg(args: string[], runConfig: Config, logger: any): Promise<string> {
+    const [messageFile, source] = args;
+    if (!messageFile) {
+        throw new ValidationError('prepare-commit-msg needs the commit message file from git');
+    }
+    if (source) {
+        return `Skipped prepare-commit-msg: message comes from ${source}`;
+    }
+
+    const existing = await fs.readFile(messageFile, 'utf-8').catch(() => '');
+    if (stripComments(existing)) {
+        return 'Skipped prepare-commit-msg: the message file already has a message';
+    }
+
+    let message: string;
+    try {
+        // Only generate: git is already committing, so nothing that stages, commits or rewrites
+        // HEAD (sendit, add, splitting, fixups, split plans and undo) and no prompts
+        const commit: CommitOptions = {
+            ...runConfig.commit as CommitOptions,
+            cached: true,
+            add: false,
+            sendit: false,
+            interactive: false,
+            amend: false,
+            push: false,
+            allowCommitSplitting: false,
+            fixup: false,
+            resume: false,
+            applyPlan: undefined,
+            undoSplit: false,
+            regenerate: false,
+        };
+        message = await executeCommit({ ...runConfig, commit: commit as Config['commit'] });
+    } catch (error: any) {
+        logger.warn(`HOOK_PREPARE_COMMIT_MSG_FAILED: Could not generate a commit message | Error: ${error.message} | Action: Leaving the message empty`);
+        return 'prepare-commit-msg could not generate a message';
+    }
+    if (!message || message.startsWith('No changes to commit')) {
+        return 'Skipped prepare-commit-msg: no staged changes';
+    }
+
+    await fs.writeFile(messageFile, `${message.trim()}\n${existing.startsWith('\n') ? '' : '\n'}${existing}`, 'utf-8');
+    logger.info(`HOOK_PREPARE_COMMIT_MSG_WRITTEN: Wrote generated commit message | File: ${messageFile}`);
+    return message;
+}
+
+/**
+ * pre-commit: run the package's precommit script without the clean and test steps that are not needed
+ */
+async function runPreCommit(runConfig: Config, logger: any): Promise<string> {
+    const packageDir = process.cwd();
+    let script: string | undefined;
+    try {
+        const packageJson = JSON.parse(await fs.readFile(path.join(packageDir, 'package.json'), 'utf-8'));
+        script = packageJson.scripts?.precommit;
+    } catch {
+        // No package.json: nothing to run
+    }
+    if (!script) {
+        return 'Skipped pre-commit: no precommit script in package.json';
+    }
+
+    const { optimizedCommand, skipped, reasons } = await optimizePrecommitCommand(packageDir, script);
+    if (skipped.clean) {
+        logger.info(`HOOK_PRE_COMMIT_SKIP_CLEAN: Skipping clean | Reason: ${reasons.clean}`);
+    }
+    if (skipped.test) {
+        logger.info(`HOOK_PRE_COMMIT_SKIP_TEST: Skipping tests | Reason: ${reasons.test}`);
+    }
+    if (!optimizedCommand) {
+        return 'pre-commit: nothing left to run';
+    }
+
+    logger.info(`HOOK_PRE_COMMIT_RUNNING: Running precommit checks | Command: ${optimizedCommand}`);
+    await run(optimizedCommand, { cwd: packageDir });
+    if (!skipped.test) {
+        await recordTestRun(packageDir);
+    }
+    return 'pre-commit checks passed';
+}
+
+/**
+ * commit-msg: reject messages that break the commit rules
+ */
+async function runCommitMsg(args: string[], runConfig: Config, logger: any): Promise<string> {
+    const [messageFile] = args;
+    if (!messageFile) {
+        throw new ValidationError('commit-msg needs the commit message file from git');
+    }
+    const message = stripComments(await fs.readFile(messageFile, 'utf-8'));
+    if (!message || GENERATED_MESSAGE_PATTERN.test(message)) {
+        return 'Skipped commit-msg: nothing to lint';
+    }
+
+    const rules = ((runConfig.commit || {}) as CommitOptions).messageLint;
+    const result = lintCommitMessage(message, rules);
+    if (!result.valid) {
+        logger.error(`HOOK_COMMIT_MSG_INVALID: Commit message does not follow the commit rules | Issues: ${result.issues.length}\n${formatLintIssues(result.issues)}`);
+        throw new ValidationError(`Commit message does not follow the commit rules:\n${formatLintIssues(result.issues)}`);
+    }
+    return 'commit-msg: message follows the commit rules';
+}
+
+/**
+ * Run one hook on behalf of git, unless its skip variable is set
+ */
+export async function runHook(name: HookName, args: string[], runConfig: Config): Promise<string> {
+    const logger = getLogger();
+    const skipEnv = getSkipEnvName(name);
+    if (process.env[skipEnv] || process.env[SKIP_ALL_HOOKS_ENV]) {
+        logger.info(`HOOK_SKIPPED: Hook skipped by environment | Hook: ${name} | Variable: ${process.env[skipEnv] ? skipEnv : SKIP_ALL_HOOKS_ENV}`);
+        return `Skipped ${name}`;
+    }
+
+    switch (name) {
+        case 'prepare-commit-msg':
+            return await runPrepareCommitMsg(args, runConfig, logger);
+        case 'pre-commit':
+            return await runPreCommit(runConfig, logger);
+        case 'commit-msg':
+            return await runCommitMsg(args, runConfig, logger);
+        default:
+            throw new ValidationError(`Unknown hook "${name}". Use one of: ${HOOK_NAMES.join(', ')}`);
+    }
+}
+
+const executeInternal = async (runConfig: Config): Promise<string> => {
+    const isDryRun = runConfig.dryRun || false;
+    const logger = getDryRunLogger(isDryRun);
+    const options = ((runConfig as Config & { hooks?: HooksOptions }).hooks || {}) as HooksOptions;
+    const action = options.action || 'status';
+
+    if (action === 'run') {
+        if (!options.hook) {
+            throw new ValidationError('hooks run needs the name of the hook');
+        }
+        return await runHook(options.hook, options.args || [], runConfig);
+    }
+
+    const names = options.names?.length ? options.names : HOOK_NAMES;
+    const unknown = names.filter(name => !HOOK_NAMES.includes(name));
+    if (unknown.length > 0) {
+        throw new ValidationError(`Unknown hook(s): ${unknown.join(', ')}. Use one of: ${HOOK_NAMES.join(', ')}`);
+    }
+
+    const location = await resolveHooksLocation();
+    logger.verbose(`HOOKS_LOCATION: Resolved hooks directory | Directory: ${location.directory} | Husky: ${location.husky}`);
+
+    if (isDryRun && action !== 'status') {
+        for (const name of names) {
+            logger.info(`HOOKS_DRY_RUN: Would ${action} hook | Hook: ${name} | Directory: ${location.directory}`);
+        }
+        return `DRY RUN: Would ${action} ${names.join(', ')} in ${location.directory}`;
+    }
+
+    const statuses: HookStatus[] = [];
+    for (const name of names) {
+        if (action === 'install') {
+            statuses.push(await installHook(location, name, options.command));
+        } else if (action === 'uninstall') {
+            statuses.push(await uninstallHook(location, name));
+        } else {
+            statuses.push(await getHookStatus(location, name));
+        }
+    }
+
+    const lines = [
+        `Git hooks in ${location.directory}${location.husky ? ' (husky)' : ''}:`,
+        ...statuses.map(formatStatus),
+    ];
+    if (statuses.some(status => status.installed)) {
+        lines.push('', `Skip one hook with ${names.map(getSkipEnvName).join(', ')}, or all of them with ${SKIP_ALL_HOOKS_ENV}=1`);
+    }
+    const output = lines.join('\n');
+    logger.info(output);
+    return output;
+};
+
+/**
+ * Execute hooks command
+ */
+export const execute = async (runConfig: Config): Promise<string> => {
+    try {
+        return await executeInternal(runConfig);
+    } catch (error: any) {
+        const logger = getLogger();
+        logger.error(`HOOKS_COMMAND_FAILED: Hooks command failed | Error: ${error.message}`);
+        throw error;
+    }
+};
@@ -5,14 +5,28 @@ import { PerformanceTimer } from '../util/performance';
 import { getMcpAwareLogger } from '../util/mcpLogger';
 import path from 'path';
 
+export interface PrecommitStep {
+    name: 'lint-fix' | 'precommit';
+    command: string;
+    status: 'passed' | 'failed' | 'skipped'; // Skipped in dry-run mode
+    durationMs?: number;
+    error?: string;
+}
+
+export interface PrecommitResult {
+    packageDir: string;
+    packageName: string;
+    dryRun: boolean;
+    success: boolean;
+    steps: PrecommitStep[];
+    durationMs: number; // All steps together
+}
+
 /**
- * Execute precommit checks by running the package's precommit script.
- * Expects the package to have a "precommit" script in package.json.
+ * Run the precommit script of the package in packageDir. Throws if the checks fail.
  */
-export const execute = async (runConfig: Config): Promise<string> => {
-    const logger = getMcpAwareLogger();
+export const runPrecommitChecks = async (packageDir: string, runConfig: Config, logger: any): Promise<PrecommitResult> => {
     const isDryRun = runConfig.dryRun || false;
-    const packageDir = process.cwd();
     const shouldFix = runConfig.precommit?.fix || false;
 
     // Verify precommit script exists
@@ -36,19 +50,25 @@ export const execute = async (runConfig: Config): Promise<string> => {
         throw error;
     }
 
+    const result: PrecommitResult = { packageDir, packageName, dryRun: isDryRun, success: false, steps: [], durationMs: 0 };
+
     // If --fix is enabled, try to run lint --fix before precommit
     if (shouldFix && packageJson.scripts?.lint) {
         const lintFixCommand = 'npm run lint -- --fix';
         if (isDryRun) {
             logger.info(`DRY RUN: Would execute: ${lintFixCommand}`);
+            result.steps.push({ name: 'lint-fix', command: lintFixCommand, status: 'skipped' });
         } else {
+            const startedAt = Date.now();
             try {
                 logger.info(`🔧 Running lint --fix before precommit checks: ${lintFixCommand}`);
                 await run(lintFixCommand, { cwd: packageDir });
                 logger.info(`✅ Lint fixes applied`);
+                result.steps.push({ name: 'lint-fix', command: lintFixCommand, status: 'passed', durationMs: Date.now() - startedAt });
             } catch (error: any) {
                 // Log warning but continue with precommit - lint --fix may fail on some issues
                 logger.warn(`⚠️  Lint --fix had issues (continuing with precommit): ${error.message}`);
+                result.steps.push({ name: 'lint-fix', command: lintFixCommand, status: 'failed', durationMs: Date.now() - startedAt, error: error.message });
             }
         }
     }
@@ -57,7 +77,9 @@ export const execute = async (runConfig: Config): Promise<string> => {
 
     if (isDryRun) {
         logger.info(`DRY RUN: Would execute: ${commandToRun}`);
-        return `DRY RUN: Would run precommit checks: ${commandToRun}`;
+        result.steps.push({ name: 'precommit', command: commandToRun, status: 'skipped' });
+        result.success = true;
+        return result;
     }
 
     // Execute the precommit script
@@ -67,10 +89,12 @@ export const execute = async (runConfig: Config): Promise<string> => {
         await run(commandToRun, { cwd: packageDir });
 
         const duration = timer.end('Precommit checks');
-        const seconds = (duration / 1000).toFixed(1);
-        logger.info(`✅ Precommit checks passed (${seconds}s)`);
+        logger.info(`✅ Precommit checks passed (${(duration / 1000).toFixed(1)}s)`);
 
-        return `Precommit checks completed successfully in ${seconds}s`;
+        result.steps.push({ name: 'precommit', command: commandToRun, status: 'passed', durationMs: duration });
+        result.durationMs = result.steps.reduce((total, step) => total + (step.durationMs ?? 0), 0);
+        result.success = true;
+        return result;
     } catch (error: any) {
         timer.end('Precommit checks');
         logger.error(`❌ Precommit checks failed: ${error.message}`);
@@ -78,3 +102,28 @@ export const execute = async (runConfig: Config): Promise<string> => {
     }
 };
 
+/**
+ * Render a precommit result as the line shown on the command line
+ */
+export function formatPrecommitResult(result: PrecommitResult): string {
+    const precommit = result.steps.find(step => step.name === 'precommit');
+    if (result.dryRun) {
+        return `DRY RUN: Would run precommit checks: ${precommit?.command}`;
+    }
+    return `Precommit checks completed successfully in ${((precommit?.durationMs ?? 0) / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Run the precommit checks of the current package and return the structured result
+ */
+export const executeForResult = async (runConfig: Config): Promise<PrecommitResult> => {
+    return await runPrecommitChecks(process.cwd(), runConfig, getMcpAwareLogger());
+};
+
+/**
+ * Execute precommit checks by running the package's precommit script.
+ * Expects the package to have a "precommit" script in package.json.
+ */
+export const execute = async (runConfig: Config): Promise<string> => {
+    return formatPrecommitResult(await executeForResult(runConfig));
+};
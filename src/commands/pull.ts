@@ -5,7 +5,7 @@
  * This command provides a smarter alternative to `git pull` that:
  * - Stashes uncommitted changes before pulling
  * - Tries fast-forward first, then rebase
- * - Auto-resolves common conflicts (package-lock.json, version bumps, etc.)
+ * - Auto-resolves common conflicts (package-lock.json, package.json, changelogs, etc.)
  * - Provides clear reporting of what was auto-resolved vs what needs manual attention
  *
  * Examples:
@@ -18,22 +18,66 @@
 import { getDryRunLogger, getLogger, Config } from '@grunnverk/core';
 import { run, runSecure, getGitStatusSummary, getCurrentBranch } from '@grunnverk/git-tools';
 import { createStorage } from '@grunnverk/shared';
+import shellescape from 'shell-escape';
+import path from 'path';
+import {
+    SigningConfig,
+    SignatureVerificationOptions,
+    withSigning,
+    getCommitSignatures,
+    findRejectedSignatures,
+} from '../util/signing';
+import { formatPackageJsonConflicts, mergePackageJson, stringifyPackageJson } from '../util/packageJsonMerge';
+import { LOCKFILES, detectPackageManager, getLockfileCommands, getLockfileManager, type PackageManagerName } from '../util/packageManager';
+import { describeConflictRule, findConflictRule, validateConflictRules, type ConflictRule } from '../util/conflictRules';
+import { unionMerge } from '../util/unionMerge';
+import type { ArtifactRebuildOptions, CommitOptions, LockfileMode, PullOptions } from '../types';
 
 // Types for pull operation
-interface PullResult {
+export interface PullResult {
     success: boolean;
     hadConflicts: boolean;
     autoResolved: string[];
     manualRequired: string[];
+    conflicts: ConflictResolution[]; // How each conflicted file was handled
+    lockfiles?: LockfileRegeneration[]; // Lockfiles regenerated after resolving conflicts
+    rebuild?: ArtifactRebuild; // Build output rebuilt after taking the remote's copy
     stashApplied: boolean;
-    strategy: 'fast-forward' | 'rebase' | 'merge' | 'failed';
+    strategy: 'fast-forward' | 'rebase' | 'merge' | 'dry-run' | 'failed';
     message: string;
 }
 
-interface ConflictResolution {
+export interface ConflictResolution {
     file: string;
     resolved: boolean;
     strategy: string;
+    rule?: string; // The configured rule that chose the strategy, or built-in
+    error?: string;
+}
+
+interface ResolutionPlan {
+    strategy: string;
+    rule: string;
+    command?: string;
+}
+
+export interface LockfileRegeneration {
+    directory: string;
+    manager: PackageManagerName;
+    command: string;
+    regenerated: boolean;
+    consistent?: boolean; // The lockfile matches package.json; unset when it could not be checked
+    changed?: boolean; // The regenerated lockfile differs from the committed one
+    staged?: boolean; // Committed with the resolved conflicts; unset when a changed lockfile was left uncommitted
+    error?: string;
+}
+
+export interface ArtifactRebuild {
+    command: string;
+    rebuilt: boolean;
+    changed: string[]; // Generated files that differ from the remote's copy after the build
+    committed?: 'follow-up' | 'amend';
+    sha?: string;
     error?: string;
 }
 
@@ -43,6 +87,7 @@ const AUTO_RESOLVABLE_PATTERNS = {
     packageLock: /^package-lock\.json$/,
     yarnLock: /^yarn\.lock$/,
     pnpmLock: /^pnpm-lock\.yaml$/,
+    bunLock: /^bun\.lockb?$/,
 
     // Generated files - take theirs and regenerate
     dist: /^dist\//,
@@ -51,6 +96,9 @@ const AUTO_RESOLVABLE_PATTERNS = {
 
     // Build artifacts
     buildOutput: /\.(js\.map|d\.ts)$/,
+
+    // Append-only files - keep the entries from both sides
+    changelog: /(^|\/)(CHANGELOG|CHANGES|HISTORY|RELEASE[-_]?NOTES)(\.md|\.markdown|\.txt)?$/i,
 };
 
 /**
@@ -66,6 +114,9 @@ function canAutoResolve(filename: string): { canResolve: boolean; strategy: stri
     if (AUTO_RESOLVABLE_PATTERNS.pnpmLock.test(filename)) {
         return { canResolve: true, strategy: 'regenerate-lock' };
     }
+    if (AUTO_RESOLVABLE_PATTERNS.bunLock.test(filename)) {
+        return { canResolve: true, strategy: 'regenerate-lock' };
+    }
     if (AUTO_RESOLVABLE_PATTERNS.dist.test(filename)) {
         return { canResolve: true, strategy: 'take-theirs-regenerate' };
     }
@@ -78,12 +129,47 @@ function canAutoResolve(filename: string): { canResolve: boolean; strategy: stri
     if (AUTO_RESOLVABLE_PATTERNS.buildOutput.test(filename)) {
         return { canResolve: true, strategy: 'take-theirs-regenerate' };
     }
+    if (AUTO_RESOLVABLE_PATTERNS.changelog.test(filename)) {
+        return { canResolve: true, strategy: 'union' };
+    }
 
     return { canResolve: false, strategy: 'manual' };
 }
 
 /**
- * Check if this is a package.json version conflict that can be auto-resolved
+ * How a conflicted file will be resolved: by the first configured rule that matches it, otherwise
+ * by the built-in handling
+ */
+function planResolution(file: string, rules: ConflictRule[]): ResolutionPlan {
+    const match = findConflictRule(file, rules);
+    if (match) {
+        return {
+            strategy: match.rule.strategy,
+            rule: describeConflictRule(match.rule, match.index),
+            ...(match.rule.command ? { command: match.rule.command } : {}),
+        };
+    }
+    if (file === 'package.json' || file.endsWith('/package.json')) {
+        return { strategy: 'package-json-merge', rule: 'built-in' };
+    }
+    return { strategy: canAutoResolve(file).strategy, rule: 'built-in' };
+}
+
+/**
+ * One side of a conflicted file from the index (1 base, 2 ours, 3 theirs), or undefined when that
+ * side does not have the file
+ */
+async function readConflictStage(filepath: string, stage: 1 | 2 | 3): Promise<string | undefined> {
+    try {
+        return (await runSecure('git', ['show', `:${stage}:${filepath}`], { suppressErrorLogging: true })).stdout;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Resolve a package.json conflict with a three-way merge of base, ours and theirs. Both sides are
+ * merged symmetrically (the higher version wins), so it does not matter that a rebase swaps them.
  */
 async function tryResolvePackageJsonConflict(
     filepath: string,
@@ -92,99 +178,113 @@ async function tryResolvePackageJsonConflict(
     const storage = createStorage();
 
     try {
-        const content = await storage.readFile(filepath, 'utf-8');
-
-        // Check if this is actually a conflict file
-        if (!content.includes('<<<<<<<') || !content.includes('>>>>>>>')) {
-            return { resolved: false, error: 'Not a conflict file' };
+        const [base, ours, theirs] = await Promise.all(([1, 2, 3] as const).map(stage => readConflictStage(filepath, stage)));
+        if (ours === undefined || theirs === undefined) {
+            return { resolved: false, error: 'Deleted on one side' };
         }
 
-        // Try to parse ours and theirs versions
-        const oursMatch = content.match(/<<<<<<< .*?\n([\s\S]*?)=======\n/);
-        const theirsMatch = content.match(/=======\n([\s\S]*?)>>>>>>> /);
-
-        if (!oursMatch || !theirsMatch) {
-            return { resolved: false, error: 'Cannot parse conflict markers' };
+        let parsed: Array<Record<string, unknown> | undefined>;
+        try {
+            parsed = [base, ours, theirs].map(content => content === undefined ? undefined : JSON.parse(content));
+        } catch (error: any) {
+            return { resolved: false, error: `Cannot parse a side of the conflict: ${error.message}` };
         }
 
-        // For package.json, if only version differs, take the higher version
-        // This is a simplified heuristic - real conflicts may need more logic
-        const oursPart = oursMatch[1];
-        const theirsPart = theirsMatch[1];
-
-        // Check if this is just a version conflict
-        const versionPattern = /"version":\s*"([^"]+)"/;
-        const oursVersion = oursPart.match(versionPattern);
-        const theirsVersion = theirsPart.match(versionPattern);
-
-        if (oursVersion && theirsVersion) {
-            // Both have versions - take higher one
-            const semver = await import('semver');
-            const higher = semver.gt(
-                oursVersion[1].replace(/-.*$/, ''), // Strip prerelease
-                theirsVersion[1].replace(/-.*$/, '')
-            ) ? oursVersion[1] : theirsVersion[1];
-
-            // Replace the conflicted version with the higher one
-            let resolvedContent = content;
-
-            // Simple approach: take theirs but use higher version
-            // Remove conflict markers and use theirs as base
-            resolvedContent = content.replace(
-                /<<<<<<< .*?\n[\s\S]*?=======\n([\s\S]*?)>>>>>>> .*?\n/g,
-                '$1'
-            );
-
-            // Update version to higher one
-            resolvedContent = resolvedContent.replace(
-                /"version":\s*"[^"]+"/,
-                `"version": "${higher}"`
-            );
-
-            await storage.writeFile(filepath, resolvedContent, 'utf-8');
-            logger.info(`PULL_RESOLVED_VERSION: Auto-resolved version conflict | File: ${filepath} | Version: ${higher}`);
-            return { resolved: true };
+        const { merged, conflicts } = mergePackageJson(parsed[0], parsed[1]!, parsed[2]!);
+        if (conflicts.length > 0) {
+            logger.warn(`PULL_PACKAGE_JSON_CONFLICTS: Fields changed differently on both sides | File: ${filepath} | Conflicts: ${conflicts.length}\n${formatPackageJsonConflicts(conflicts)}`);
+            return { resolved: false, error: `Conflicting fields: ${conflicts.map(conflict => conflict.path).join(', ')}` };
         }
 
-        return { resolved: false, error: 'Complex conflict - not just version' };
+        await storage.writeFile(filepath, stringifyPackageJson(merged, ours), 'utf-8');
+        logger.info(`PULL_RESOLVED_PACKAGE_JSON: Merged package.json from both sides | File: ${filepath}`);
+        return { resolved: true };
     } catch (error: any) {
         return { resolved: false, error: error.message };
     }
 }
 
+/**
+ * Keep the lines both sides added; Markdown files are merged section by section
+ */
+async function resolveUnionConflict(filepath: string): Promise<void> {
+    const [base, ours, theirs] = await Promise.all(([1, 2, 3] as const).map(stage => readConflictStage(filepath, stage)));
+    if (ours === undefined || theirs === undefined) {
+        throw new Error('Deleted on one side');
+    }
+    await createStorage().writeFile(filepath, unionMerge(filepath, base ?? '', ours, theirs), 'utf-8');
+}
+
+// The operation that stopped on the conflicts
+type PullOperation = 'rebase' | 'merge';
+
+/**
+ * The checkout flags for the remote and the local side. A rebase replays the local commits onto
+ * the remote branch, so there --ours is the remote and --theirs the local commit.
+ */
+function getCheckoutSides(operation: PullOperation): { remote: string; local: string } {
+    return operation === 'rebase' ? { remote: '--ours', local: '--theirs' } : { remote: '--theirs', local: '--ours' };
+}
+
 /**
  * Resolve a single conflict file
  */
 async function resolveConflict(
     filepath: string,
     strategy: string,
+    operation: PullOperation,
     logger: any,
-    isDryRun: boolean
+    isDryRun: boolean,
+    command?: string
 ): Promise<ConflictResolution> {
     if (isDryRun) {
         logger.info(`PULL_RESOLVE_DRY_RUN: Would resolve conflict | File: ${filepath} | Strategy: ${strategy}`);
         return { file: filepath, resolved: true, strategy };
     }
 
+    const sides = getCheckoutSides(operation);
     try {
         switch (strategy) {
             case 'regenerate-lock': {
                 // Accept theirs and regenerate
-                await runSecure('git', ['checkout', '--theirs', filepath]);
+                await runSecure('git', ['checkout', sides.remote, filepath]);
                 await runSecure('git', ['add', filepath]);
-                logger.info(`PULL_CONFLICT_RESOLVED: Accepted remote lock file | File: ${filepath} | Strategy: ${strategy} | Note: Will regenerate after pull`);
+                logger.info(`PULL_CONFLICT_RESOLVED: Accepted remote lock file | File: ${filepath} | Strategy: ${strategy} | Note: Will regenerate before committing`);
                 return { file: filepath, resolved: true, strategy };
             }
 
             case 'take-theirs':
-            case 'take-theirs-regenerate': {
-                await runSecure('git', ['checkout', '--theirs', filepath]);
+            case 'take-theirs-regenerate':
+            case 'theirs':
+            case 'regenerate': {
+                await runSecure('git', ['checkout', sides.remote, filepath]);
                 await runSecure('git', ['add', filepath]);
                 logger.info(`PULL_CONFLICT_RESOLVED: Accepted remote version | File: ${filepath} | Strategy: ${strategy}`);
                 return { file: filepath, resolved: true, strategy };
             }
 
-            case 'version-bump': {
+            case 'ours': {
+                await runSecure('git', ['checkout', sides.local, filepath]);
+                await runSecure('git', ['add', filepath]);
+                logger.info(`PULL_CONFLICT_RESOLVED: Kept local version | File: ${filepath} | Strategy: ${strategy}`);
+                return { file: filepath, resolved: true, strategy };
+            }
+
+            case 'union': {
+                await resolveUnionConflict(filepath);
+                await runSecure('git', ['add', filepath]);
+                logger.info(`PULL_CONFLICT_RESOLVED: Kept the lines added on both sides | File: ${filepath} | Strategy: ${strategy}`);
+                return { file: filepath, resolved: true, strategy };
+            }
+
+            case 'script': {
+                await run(`${command} ${shellescape([filepath])}`);
+                await runSecure('git', ['add', filepath]);
+                logger.info(`PULL_CONFLICT_RESOLVED: Resolved by script | File: ${filepath} | Command: ${command}`);
+                return { file: filepath, resolved: true, strategy };
+            }
+
+            case 'package-json-merge': {
                 const result = await tryResolvePackageJsonConflict(filepath, logger);
                 if (result.resolved) {
                     await runSecure('git', ['add', filepath]);
@@ -217,40 +317,82 @@ async function getConflictedFiles(): Promise<string[]> {
  * Try to auto-resolve all conflicts
  */
 async function autoResolveConflicts(
+    rules: ConflictRule[],
+    operation: PullOperation,
     logger: any,
     isDryRun: boolean
-): Promise<{ resolved: string[]; manual: string[] }> {
+): Promise<{ resolved: string[]; manual: string[]; conflicts: ConflictResolution[] }> {
     const conflictedFiles = await getConflictedFiles();
-    const resolved: string[] = [];
-    const manual: string[] = [];
+    const conflicts: ConflictResolution[] = [];
+    const regenerate = new Map<string, ConflictResolution[]>(); // Command -> files it regenerates
 
     for (const file of conflictedFiles) {
-        const { canResolve, strategy } = canAutoResolve(file);
+        const plan = planResolution(file, rules);
+        logger.debug(`PULL_RULE_MATCH: Resolving conflict | File: ${file} | Strategy: ${plan.strategy} | Rule: ${plan.rule}`);
 
-        // Special handling for package.json
-        if (file === 'package.json' || file.endsWith('/package.json')) {
-            const result = await resolveConflict(file, 'version-bump', logger, isDryRun);
-            if (result.resolved) {
-                resolved.push(file);
-            } else {
-                manual.push(file);
-            }
+        if (plan.strategy === 'manual') {
+            conflicts.push({ file, resolved: false, strategy: plan.strategy, rule: plan.rule });
             continue;
         }
 
-        if (canResolve) {
-            const result = await resolveConflict(file, strategy, logger, isDryRun);
-            if (result.resolved) {
-                resolved.push(file);
-            } else {
-                manual.push(file);
+        const result: ConflictResolution = { ...await resolveConflict(file, plan.strategy, operation, logger, isDryRun, plan.command), rule: plan.rule };
+        conflicts.push(result);
+        if (result.resolved && plan.strategy === 'regenerate' && plan.command) {
+            regenerate.set(plan.command, [...regenerate.get(plan.command) || [], result]);
+        }
+    }
+
+    // Regenerate once every conflict is resolved, so the commands see a consistent tree
+    if (conflicts.every(c => c.resolved)) {
+        for (const [command, results] of regenerate) {
+            logger.info(`PULL_REGENERATE_FILES: Regenerating resolved files | Command: ${command} | Files: ${results.map(r => r.file).join(', ')}`);
+            if (isDryRun) {
+                continue;
+            }
+            try {
+                await run(command);
+                await runSecure('git', ['add', '--', ...results.map(r => r.file)]);
+            } catch (error: any) {
+                logger.warn(`PULL_REGENERATE_FILES_FAILED: Command failed, the files keep the remote version | Command: ${command} | Error: ${error.message}`);
+                results.forEach(r => Object.assign(r, { resolved: false, error: `${command} failed: ${error.message}` }));
             }
-        } else {
-            manual.push(file);
         }
     }
 
-    return { resolved, manual };
+    return {
+        resolved: conflicts.filter(c => c.resolved).map(c => c.file),
+        manual: conflicts.filter(c => !c.resolved).map(c => c.file),
+        conflicts,
+    };
+}
+
+/**
+ * Files changed both locally and on the remote branch since they diverged, as of the last fetch,
+ * with the resolution each would get if it conflicts
+ */
+async function previewConflictResolution(
+    remote: string,
+    branch: string,
+    rules: ConflictRule[],
+    logger: any
+): Promise<ConflictResolution[]> {
+    const upstream = `${remote}/${branch}`;
+    let files: string[];
+    try {
+        const base = (await runSecure('git', ['merge-base', 'HEAD', upstream], { suppressErrorLogging: true })).stdout.trim();
+        const changedSince = async (ref: string) => (await runSecure('git', ['diff', '--name-only', base, ref])).stdout.split('\n').filter(f => f.trim());
+        const remoteChanges = new Set(await changedSince(upstream));
+        files = (await changedSince('HEAD')).filter(f => remoteChanges.has(f));
+    } catch {
+        logger.info(`PULL_DRY_RUN_NO_UPSTREAM: ${upstream} has not been fetched, so possible conflicts are unknown`);
+        return [];
+    }
+
+    return files.map(file => {
+        const plan = planResolution(file, rules);
+        logger.info(`PULL_RULE_MATCH: Would resolve a conflict | File: ${file} | Strategy: ${plan.strategy} | Rule: ${plan.rule}`);
+        return { file, resolved: plan.strategy !== 'manual', strategy: plan.strategy, rule: plan.rule };
+    });
 }
 
 /**
@@ -293,24 +435,207 @@ async function applyStashIfNeeded(didStash: boolean, logger: any, isDryRun: bool
 }
 
 /**
- * Regenerate lock files after pull
+ * Stage the lockfiles that changed when they were regenerated, so they are committed with the
+ * resolved conflicts: in the merge commit, or in the commit the rebase is replaying
  */
-async function regenerateLockFiles(resolvedFiles: string[], logger: any, isDryRun: boolean): Promise<void> {
-    const needsRegenerate = resolvedFiles.some(f =>
-        f === 'package-lock.json' || f.endsWith('/package-lock.json')
-    );
+async function stageLockFiles(results: LockfileRegeneration[], logger: any): Promise<void> {
+    const pathspecs = results.flatMap(r => LOCKFILES.map(([name]) => path.join(r.directory, name)));
+    const { stdout } = await runSecure('git', ['status', '--porcelain', '--untracked-files=all', '--', ...pathspecs]);
+    // Changed in the working tree compared with the resolution that is already staged
+    const changed = stdout.split('\n').filter(line => line.trim() && line[1] !== ' ').map(line => line.substring(3));
+    results.forEach(r => {
+        r.changed = changed.some(file => path.dirname(file) === r.directory);
+    });
+    if (changed.length === 0) {
+        logger.info('PULL_LOCKFILES_UNCHANGED: Regenerated lockfiles match the resolved ones');
+        return;
+    }
 
-    if (needsRegenerate) {
-        logger.info('PULL_REGENERATE_LOCK: Regenerating package-lock.json');
-        if (!isDryRun) {
-            try {
-                await run('npm install');
-                logger.info('PULL_REGENERATE_SUCCESS: Lock file regenerated successfully');
-            } catch (error: any) {
-                logger.warn(`PULL_REGENERATE_FAILED: Failed to regenerate lock file | Error: ${error.message}`);
-            }
+    try {
+        await runSecure('git', ['add', '--', ...changed]);
+        results.filter(r => r.changed).forEach(r => {
+            r.staged = true;
+        });
+        logger.info(`PULL_LOCKFILES_STAGED: Regenerated lockfiles staged with the resolved conflicts | Files: ${changed.join(', ')}`);
+    } catch (error: any) {
+        results.filter(r => r.changed).forEach(r => {
+            r.error = r.error || `Staging failed: ${error.message}`;
+        });
+        logger.warn(`PULL_LOCKFILES_UNCOMMITTED: Regenerated lockfiles left uncommitted | Files: ${changed.join(', ')} | Error: ${error.message}`);
+    }
+}
+
+/**
+ * Regenerate the lockfiles of packages whose lockfile or package.json was resolved, with the
+ * package manager each package uses, check that the result matches package.json and stage it.
+ * Runs before the merge is committed or the rebase continues.
+ */
+async function regenerateLockFiles(
+    resolvedFiles: string[],
+    mode: LockfileMode,
+    logger: any,
+    isDryRun: boolean
+): Promise<LockfileRegeneration[]> {
+    const results: LockfileRegeneration[] = [];
+    if (mode === false) {
+        return results;
+    }
+    const directories = Array.from(new Set(resolvedFiles
+        .filter(f => getLockfileManager(f) || path.basename(f) === 'package.json')
+        .map(f => path.dirname(f))));
+
+    for (const directory of directories) {
+        const manager = await detectPackageManager(directory);
+        const lockfileResolved = resolvedFiles.some(f => path.dirname(f) === directory && getLockfileManager(f));
+        if (!lockfileResolved && !manager.lockfile) {
+            continue; // A merged package.json without a lockfile to keep in step
+        }
+
+        const commands = getLockfileCommands(manager);
+        const command = mode === 'lockfile-only' ? commands.lockfileOnly : commands.install;
+        const result: LockfileRegeneration = { directory, manager: manager.name, command, regenerated: false };
+        results.push(result);
+
+        logger.info(`PULL_REGENERATE_LOCK: Regenerating lockfile | Directory: ${directory} | Manager: ${manager.name} (${manager.source}) | Command: ${command}`);
+        if (isDryRun) {
+            continue;
+        }
+        try {
+            await run(command, { cwd: directory });
+            result.regenerated = true;
+            logger.info('PULL_REGENERATE_SUCCESS: Lock file regenerated successfully');
+        } catch (error: any) {
+            result.error = error.message;
+            logger.warn(`PULL_REGENERATE_FAILED: Failed to regenerate lock file | Error: ${error.message}`);
+            continue;
+        }
+
+        try {
+            await run(commands.verify, { cwd: directory });
+            result.consistent = true;
+        } catch (error: any) {
+            result.consistent = false;
+            result.error = (error.stderr || error.message || '').trim();
+            logger.warn(`PULL_LOCKFILE_OUT_OF_SYNC: Regenerated lockfile does not match package.json | Directory: ${directory} | Check: ${commands.verify}`);
         }
     }
+
+    const regenerated = results.filter(r => r.regenerated);
+    if (regenerated.length > 0) {
+        await stageLockFiles(regenerated, logger);
+    }
+    return results;
+}
+
+/**
+ * Check the signatures of the commits about to be pulled. Returns the commits that are rejected.
+ */
+async function verifyIncomingSignatures(
+    range: string,
+    options: SignatureVerificationOptions,
+    logger: any
+): Promise<string[]> {
+    const signatures = await getCommitSignatures(range);
+    const rejected = findRejectedSignatures(signatures, options);
+
+    if (rejected.length === 0) {
+        logger.info(`PULL_SIGNATURES_VERIFIED: All incoming commits are signed | Commits: ${signatures.length}`);
+        return [];
+    }
+
+    logger.error(`PULL_SIGNATURES_REJECTED: Incoming commits have missing or untrusted signatures | Rejected: ${rejected.length} of ${signatures.length}`);
+    rejected.forEach(c => logger.error(`  - ${c.sha.substring(0, 7)} ${c.subject} (${c.status}${c.signer ? `, ${c.signer}` : ''})`));
+    return rejected.map(c => c.sha);
+}
+
+/**
+ * Where the remote's copy of generated files was taken: the build output directory for files in
+ * it, and only the file itself for generated files next to the sources (.d.ts, .js.map)
+ */
+function getRegeneratePathspecs(conflicts: ConflictResolution[]): string[] {
+    return Array.from(new Set(conflicts
+        .filter(c => c.resolved && c.strategy === 'take-theirs-regenerate')
+        .map(c => AUTO_RESOLVABLE_PATTERNS.dist.test(c.file) ? c.file.split('/')[0] : c.file)));
+}
+
+/**
+ * Run the build script after generated files were resolved by taking the remote's copy, so they
+ * match the merged sources again. Changed output is committed as a follow-up commit or amended
+ * into the merge, as configured. After a rebase HEAD is a local commit, so it is never amended.
+ */
+async function rebuildArtifacts(
+    conflicts: ConflictResolution[],
+    config: boolean | ArtifactRebuildOptions | undefined,
+    operation: PullOperation,
+    signing: SigningConfig | undefined,
+    logger: any,
+    isDryRun: boolean
+): Promise<ArtifactRebuild | undefined> {
+    const pathspecs = getRegeneratePathspecs(conflicts);
+    if (config === false || pathspecs.length === 0) {
+        return undefined;
+    }
+    const options: ArtifactRebuildOptions = config === true || config === undefined ? {} : config;
+    const script = options.script || 'build';
+    let commitMode = options.commit ?? 'follow-up';
+
+    let scripts: Record<string, string> = {};
+    try {
+        scripts = JSON.parse(await createStorage().readFile('package.json', 'utf-8')).scripts || {};
+    } catch {
+        // No package.json to build with
+    }
+    const manager = await detectPackageManager('.');
+    const command = `${manager.name} run ${script}`;
+    const result: ArtifactRebuild = { command, rebuilt: false, changed: [] };
+
+    if (!scripts[script]) {
+        result.error = `No "${script}" script in package.json`;
+        logger.warn(`PULL_REBUILD_SKIPPED: Generated files were taken from the remote but cannot be rebuilt | Reason: ${result.error} | Files: ${pathspecs.join(', ')}`);
+        return result;
+    }
+
+    logger.info(`PULL_REBUILD: Rebuilding generated files taken from the remote | Command: ${command} | Paths: ${pathspecs.join(', ')}`);
+    if (isDryRun) {
+        return result;
+    }
+    try {
+        await run(command);
+        result.rebuilt = true;
+    } catch (error: any) {
+        result.error = error.message;
+        logger.warn(`PULL_REBUILD_FAILED: Build failed, generated files are the remote's copy | Error: ${error.message}`);
+        return result;
+    }
+
+    const { stdout } = await runSecure('git', ['status', '--porcelain', '--untracked-files=all', '--', ...pathspecs]);
+    result.changed = stdout.split('\n').filter(line => line.trim()).map(line => line.substring(3));
+    if (result.changed.length === 0) {
+        logger.info('PULL_REBUILD_UNCHANGED: Rebuilt output matches the remote\'s copy');
+        return result;
+    }
+    if (commitMode === false) {
+        logger.info(`PULL_REBUILD_CHANGED: Rebuilt output left uncommitted | Files: ${result.changed.length}`);
+        return result;
+    }
+    if (commitMode === 'amend' && operation === 'rebase') {
+        logger.info('PULL_REBUILD_AMEND_SKIPPED: The pull rebased, so there is no merge commit to amend | Action: Committing the rebuilt output as a follow-up commit');
+        commitMode = 'follow-up';
+    }
+
+    try {
+        await runSecure('git', ['add', '-A', '--', ...pathspecs]);
+        await runSecure('git', withSigning(commitMode === 'amend'
+            ? ['commit', '--amend', '--no-edit']
+            : ['commit', '-m', 'chore: rebuild generated files after pull'], signing));
+        result.committed = commitMode;
+        result.sha = (await runSecure('git', ['rev-parse', 'HEAD'])).stdout.trim();
+        logger.info(`PULL_REBUILD_COMMITTED: Rebuilt output committed | Mode: ${commitMode} | Files: ${result.changed.length}`);
+    } catch (error: any) {
+        result.error = `Rebuilt output could not be committed: ${error.message}`;
+        logger.warn(`PULL_REBUILD_COMMIT_FAILED: ${result.error}`);
+    }
+    return result;
 }
 
 /**
@@ -320,7 +645,14 @@ async function executePull(
     remote: string,
     branch: string | undefined,
     logger: any,
-    isDryRun: boolean
+    isDryRun: boolean,
+    options: {
+        signing?: SigningConfig;
+        verifySignatures?: SignatureVerificationOptions;
+        lockfiles?: LockfileMode;
+        rebuild?: boolean | ArtifactRebuildOptions;
+        rules?: ConflictRule[];
+    } = {}
 ): Promise<PullResult> {
     const currentBranch = await getCurrentBranch();
     const targetBranch = branch || currentBranch;
@@ -343,6 +675,7 @@ async function executePull(
                 hadConflicts: false,
                 autoResolved: [],
                 manualRequired: [],
+                conflicts: [],
                 stashApplied: didStash,
                 strategy: 'failed',
                 message: `Fetch failed: ${error.message}`,
@@ -350,6 +683,24 @@ async function executePull(
         }
     }
 
+    // Step 2b: Refuse to bring in commits that are not properly signed
+    if (options.verifySignatures && !isDryRun) {
+        const rejected = await verifyIncomingSignatures(`HEAD..${remote}/${targetBranch}`, options.verifySignatures, logger);
+        if (rejected.length > 0) {
+            if (didStash) await applyStashIfNeeded(true, logger, isDryRun);
+            return {
+                success: false,
+                hadConflicts: false,
+                autoResolved: [],
+                manualRequired: [],
+                conflicts: [],
+                stashApplied: didStash,
+                strategy: 'failed',
+                message: `Signature verification failed for ${rejected.length} incoming commits: ${rejected.map(sha => sha.substring(0, 7)).join(', ')}`,
+            };
+        }
+    }
+
     // Step 3: Try fast-forward first
     logger.info('PULL_STRATEGY: Attempting fast-forward merge');
     if (!isDryRun) {
@@ -362,6 +713,7 @@ async function executePull(
                 hadConflicts: false,
                 autoResolved: [],
                 manualRequired: [],
+                conflicts: [],
                 stashApplied: didStash,
                 strategy: 'fast-forward',
                 message: 'Fast-forward merge successful',
@@ -375,7 +727,7 @@ async function executePull(
     logger.info('PULL_STRATEGY: Attempting rebase');
     if (!isDryRun) {
         try {
-            await runSecure('git', ['rebase', `${remote}/${targetBranch}`]);
+            await runSecure('git', withSigning(['rebase', `${remote}/${targetBranch}`], options.signing));
             await applyStashIfNeeded(didStash, logger, isDryRun);
             logger.info('PULL_SUCCESS: Rebase successful');
             return {
@@ -383,6 +735,7 @@ async function executePull(
                 hadConflicts: false,
                 autoResolved: [],
                 manualRequired: [],
+                conflicts: [],
                 stashApplied: didStash,
                 strategy: 'rebase',
                 message: 'Rebase successful',
@@ -394,20 +747,24 @@ async function executePull(
                 logger.info(`PULL_CONFLICTS: Rebase has ${conflictedFiles.length} conflicts, attempting auto-resolution`);
 
                 // Step 5: Try to auto-resolve conflicts
-                const { resolved, manual } = await autoResolveConflicts(logger, isDryRun);
+                const { resolved, manual, conflicts } = await autoResolveConflicts(options.rules ?? [], 'rebase', logger, isDryRun);
 
                 if (manual.length === 0) {
                     // All conflicts resolved, continue rebase
                     logger.info('PULL_ALL_RESOLVED: All conflicts auto-resolved, continuing rebase');
                     try {
+                        const lockfiles = await regenerateLockFiles(resolved, options.lockfiles ?? 'install', logger, isDryRun);
                         await runSecure('git', ['rebase', '--continue']);
-                        await regenerateLockFiles(resolved, logger, isDryRun);
+                        const rebuild = await rebuildArtifacts(conflicts, options.rebuild, 'rebase', options.signing, logger, isDryRun);
                         await applyStashIfNeeded(didStash, logger, isDryRun);
                         return {
                             success: true,
                             hadConflicts: true,
                             autoResolved: resolved,
                             manualRequired: [],
+                            conflicts,
+                            lockfiles,
+                            ...(rebuild ? { rebuild } : {}),
                             stashApplied: didStash,
                             strategy: 'rebase',
                             message: `Rebase successful with ${resolved.length} auto-resolved conflicts`,
@@ -428,6 +785,7 @@ async function executePull(
                         hadConflicts: true,
                         autoResolved: resolved,
                         manualRequired: manual,
+                        conflicts,
                         stashApplied: false, // Don't apply stash when manual resolution needed
                         strategy: 'rebase',
                         message: `Rebase paused: ${manual.length} files need manual conflict resolution`,
@@ -449,7 +807,7 @@ async function executePull(
     logger.info('PULL_STRATEGY: Attempting merge');
     if (!isDryRun) {
         try {
-            await runSecure('git', ['merge', `${remote}/${targetBranch}`]);
+            await runSecure('git', withSigning(['merge', `${remote}/${targetBranch}`], options.signing));
             await applyStashIfNeeded(didStash, logger, isDryRun);
             logger.info('PULL_SUCCESS: Merge successful');
             return {
@@ -457,6 +815,7 @@ async function executePull(
                 hadConflicts: false,
                 autoResolved: [],
                 manualRequired: [],
+                conflicts: [],
                 stashApplied: didStash,
                 strategy: 'merge',
                 message: 'Merge successful',
@@ -467,20 +826,24 @@ async function executePull(
             if (conflictedFiles.length > 0) {
                 logger.info(`PULL_CONFLICTS: Merge has ${conflictedFiles.length} conflicts, attempting auto-resolution`);
 
-                const { resolved, manual } = await autoResolveConflicts(logger, isDryRun);
+                const { resolved, manual, conflicts } = await autoResolveConflicts(options.rules ?? [], 'merge', logger, isDryRun);
 
                 if (manual.length === 0) {
                     // All conflicts resolved, commit the merge
                     logger.info('PULL_ALL_RESOLVED: All conflicts auto-resolved, completing merge');
                     try {
-                        await runSecure('git', ['commit', '-m', `Merge ${remote}/${targetBranch} (auto-resolved by kodrdriv)`]);
-                        await regenerateLockFiles(resolved, logger, isDryRun);
+                        const lockfiles = await regenerateLockFiles(resolved, options.lockfiles ?? 'install', logger, isDryRun);
+                        await runSecure('git', withSigning(['commit', '-m', `Merge ${remote}/${targetBranch} (auto-resolved by kodrdriv)`], options.signing));
+                        const rebuild = await rebuildArtifacts(conflicts, options.rebuild, 'merge', options.signing, logger, isDryRun);
                         await applyStashIfNeeded(didStash, logger, isDryRun);
                         return {
                             success: true,
                             hadConflicts: true,
                             autoResolved: resolved,
                             manualRequired: [],
+                            conflicts,
+                            lockfiles,
+                            ...(rebuild ? { rebuild } : {}),
                             stashApplied: didStash,
                             strategy: 'merge',
                             message: `Merge successful with ${resolved.length} auto-resolved conflicts`,
@@ -498,6 +861,7 @@ async function executePull(
                         hadConflicts: true,
                         autoResolved: resolved,
                         manualRequired: manual,
+                        conflicts,
                         stashApplied: false,
                         strategy: 'merge',
                         message: `Merge paused: ${manual.length} files need manual conflict resolution`,
@@ -507,6 +871,20 @@ async function executePull(
         }
     }
 
+    if (isDryRun) {
+        const conflicts = await previewConflictResolution(remote, targetBranch, options.rules ?? [], logger);
+        return {
+            success: true,
+            hadConflicts: false,
+            autoResolved: [],
+            manualRequired: [],
+            conflicts,
+            stashApplied: false,
+            strategy: 'dry-run',
+            message: `Dry run: ${conflicts.length} files changed on both sides since the last fetch`,
+        };
+    }
+
     // If we got here, something went wrong
     if (didStash) {
         logger.warn('PULL_STASH_PRESERVED: Local changes still stashed, use "git stash pop" to restore');
@@ -517,6 +895,7 @@ async function executePull(
         hadConflicts: false,
         autoResolved: [],
         manualRequired: [],
+        conflicts: [],
         stashApplied: false,
         strategy: 'failed',
         message: 'Pull failed - unable to merge or rebase',
@@ -524,21 +903,9 @@ async function executePull(
 }
 
 /**
- * Internal execution
+ * Render a pull result as the report shown on the command line
  */
-const executeInternal = async (runConfig: Config): Promise<string> => {
-    const isDryRun = runConfig.dryRun || false;
-    const logger = getDryRunLogger(isDryRun);
-
-    // Get pull configuration
-    const pullConfig = runConfig.pull || {};
-    const remote = pullConfig.remote || 'origin';
-    const branch = pullConfig.branch;
-
-    // Execute pull
-    const result = await executePull(remote, branch, logger, isDryRun);
-
-    // Format output
+export function formatPullResult(result: PullResult): string {
     const lines: string[] = [];
     lines.push('');
     lines.push('═'.repeat(60));
@@ -548,6 +915,12 @@ const executeInternal = async (runConfig: Config): Promise<string> => {
     lines.push(`Strategy: ${result.strategy}`);
     lines.push(`Message: ${result.message}`);
 
+    if (result.strategy === 'dry-run' && result.conflicts.length > 0) {
+        lines.push('');
+        lines.push('Changed on both sides, resolution if they conflict:');
+        result.conflicts.forEach(c => lines.push(`   - ${c.file}: ${c.strategy} (${c.rule})`));
+    }
+
     if (result.hadConflicts) {
         lines.push('');
         lines.push(`Conflicts detected: ${result.autoResolved.length + result.manualRequired.length}`);
@@ -563,6 +936,32 @@ const executeInternal = async (runConfig: Config): Promise<string> => {
         }
     }
 
+    if (result.lockfiles && result.lockfiles.length > 0) {
+        lines.push('');
+        lines.push('Lockfiles:');
+        result.lockfiles.forEach(lockfile => {
+            const uncommitted = lockfile.changed && !lockfile.staged;
+            const status = !lockfile.regenerated ? 'not regenerated'
+                : lockfile.consistent === false ? 'does not match package.json'
+                    : uncommitted ? 'regenerated, left uncommitted'
+                        : lockfile.staged ? 'regenerated, committed with the resolved conflicts' : 'regenerated';
+            lines.push(`   ${lockfile.regenerated && lockfile.consistent !== false && !uncommitted ? '✓' : '✗'} ${lockfile.directory} (${lockfile.manager}): ${status}`);
+        });
+    }
+
+    if (result.rebuild) {
+        const { rebuild } = result;
+        lines.push('');
+        if (!rebuild.rebuilt) {
+            lines.push(`✗ Generated files not rebuilt (${rebuild.command}): ${rebuild.error || 'dry run'}`);
+        } else if (rebuild.changed.length === 0) {
+            lines.push(`✓ Generated files rebuilt (${rebuild.command}): unchanged`);
+        } else {
+            const committed = rebuild.committed === 'amend' ? 'amended into the merge commit' : rebuild.committed ? `committed as ${rebuild.sha?.substring(0, 7)}` : 'left uncommitted';
+            lines.push(`${rebuild.error ? '✗' : '✓'} Generated files rebuilt (${rebuild.command}): ${rebuild.changed.length} changed, ${committed}`);
+        }
+    }
+
     if (result.stashApplied) {
         lines.push('');
         lines.push('ℹ️  Local changes have been restored from stash');
@@ -571,16 +970,41 @@ const executeInternal = async (runConfig: Config): Promise<string> => {
     lines.push('');
     lines.push('═'.repeat(60));
 
-    const output = lines.join('\n');
-    logger.info(output);
+    return lines.join('\n');
+}
 
-    return output;
+/**
+ * Internal execution
+ */
+const executeInternal = async (runConfig: Config): Promise<PullResult> => {
+    const isDryRun = runConfig.dryRun || false;
+    const logger = getDryRunLogger(isDryRun);
+
+    // Get pull configuration
+    const pullConfig = (runConfig.pull || {}) as PullOptions;
+    const remote = pullConfig.remote || 'origin';
+    const branch = pullConfig.branch;
+    const verifySignatures = pullConfig.verifySignatures === true ? {} : pullConfig.verifySignatures || undefined;
+    validateConflictRules(pullConfig.rules ?? []);
+
+    // Execute pull
+    const result = await executePull(remote, branch, logger, isDryRun, {
+        signing: pullConfig.sign ?? (runConfig.commit as CommitOptions | undefined)?.sign,
+        verifySignatures,
+        lockfiles: pullConfig.lockfiles,
+        rebuild: pullConfig.rebuild,
+        rules: pullConfig.rules,
+    });
+
+    logger.info(formatPullResult(result));
+
+    return result;
 };
 
 /**
- * Execute pull command
+ * Execute pull command and return the structured result
  */
-export const execute = async (runConfig: Config): Promise<string> => {
+export const executeForResult = async (runConfig: Config): Promise<PullResult> => {
     try {
         return await executeInternal(runConfig);
     } catch (error: any) {
@@ -590,3 +1014,9 @@ export const execute = async (runConfig: Config): Promise<string> => {
     }
 };
 
+/**
+ * Execute pull command
+ */
+export const execute = async (runConfig: Config): Promise<string> => {
+    return formatPullResult(await executeForResult(runConfig));
+};
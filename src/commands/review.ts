@@ -21,17 +21,154 @@ import {
     filterContent,
 } from '@grunnverk/core';
 import {
-    createCompletion,
     getUserChoice,
+    editContentInEditor,
     createReviewPrompt,
     ReviewContent,
     ReviewContext,
 } from '@grunnverk/ai-service';
-import { getReleaseNotesContent, getIssuesContent, handleIssueCreation, type Issue, type ReviewResult } from '@grunnverk/github-tools';
+import { getReleaseNotesContent, getIssuesContent, createIssue, type Issue, type ReviewResult } from '@grunnverk/github-tools';
 import path from 'path';
 import os from 'os';
 import { spawn } from 'child_process';
 import fs from 'fs/promises';
+import { redactInputs, writeRedactionReport } from '../util/redaction';
+import { createAIProvider } from '../util/aiProvider';
+import type { ReviewOptions } from '../types';
+
+export interface ReviewCreatedIssue {
+    issueIndex: number; // Position of the review issue in ReviewCommandResult.issues
+    number: number;
+    title: string;
+    url: string;
+}
+
+export interface ReviewCommandResult {
+    dryRun: boolean;
+    summary: string;
+    totalIssues: number;
+    issues: Issue[];
+    createdIssues: ReviewCreatedIssue[];
+    filesProcessed: string[];
+}
+
+const DRY_RUN_REVIEW_REPORT = 'DRY RUN: Review command would analyze note, gather context, and create GitHub issues';
+
+// Body of the GitHub issue created for a review issue
+const formatIssueBody = (issue: Issue): string => {
+    let body = `## Description\n\n${issue.description}\n\n`;
+    body += `## Details\n\n`;
+    body += `- **Priority:** ${issue.priority}\n`;
+    body += `- **Category:** ${issue.category}\n`;
+    body += `- **Source:** Review\n\n`;
+    if (issue.suggestions && issue.suggestions.length > 0) {
+        body += `## Suggestions\n\n${issue.suggestions.map(suggestion => `- ${suggestion}\n`).join('')}\n`;
+    }
+    body += `---\n\n`;
+    body += `*This issue was automatically created from a review session.*`;
+    return body;
+};
+
+const ISSUE_PRIORITIES: Issue['priority'][] = ['low', 'medium', 'high'];
+const ISSUE_CATEGORIES: Issue['category'][] = ['ui', 'content', 'functionality', 'accessibility', 'performance', 'other'];
+
+// Text form of a review issue that is edited in the editor
+const serializeIssue = (issue: Issue): string => [
+    `Title: ${issue.title}`,
+    `Priority: ${issue.priority}`,
+    `Category: ${issue.category}`,
+    '',
+    'Description:',
+    issue.description,
+    '',
+    'Suggestions:',
+    ...(issue.suggestions || []).map(suggestion => `- ${suggestion}`),
+].join('\n');
+
+/**
+ * Read an issue back from its edited text form. Fields that are missing or invalid keep the
+ * value they had.
+ */
+const parseEditedIssue = (content: string, original: Issue): Issue => {
+    const field = (name: string) => content.match(new RegExp(`^${name}:[ \\t]*(.*)$`, 'mi'))?.[1].trim();
+    const section = (name: string, next?: string) => {
+        const match = content.match(new RegExp(`^${name}:[ \\t]*$([\\s\\S]*?)${next ? `^${next}:` : '$(?![\\s\\S])'}`, 'mi'));
+        return match ? match[1].trim() : undefined;
+    };
+    const priority = field('Priority')?.toLowerCase() as Issue['priority'];
+    const category = field('Category')?.toLowerCase() as Issue['category'];
+    const suggestions = section('Suggestions')?.split('\n')
+        .map(line => line.trim().replace(/^[-•]\s*/, '').trim())
+        .filter(Boolean);
+    return {
+        title: field('Title') || original.title,
+        priority: ISSUE_PRIORITIES.includes(priority) ? priority : original.priority,
+        category: ISSUE_CATEGORIES.includes(category) ? category : original.category,
+        description: section('Description', 'Suggestions') || original.description,
+        ...(suggestions && suggestions.length > 0 ? { suggestions } : {}),
+    };
+};
+
+const editIssue = async (issue: Issue): Promise<Issue> => {
+    const { content } = await editContentInEditor(serializeIssue(issue), [
+        '# Edit the issue details below. Lines starting with "#" are ignored.',
+        `# Priorities: ${ISSUE_PRIORITIES.join(', ')}`,
+        `# Categories: ${ISSUE_CATEGORIES.join(', ')}`,
+        '# Suggestions go one per line, starting with "-"',
+    ], '.txt');
+    return parseEditedIssue(content, issue);
+};
+
+/**
+ * Create GitHub issues for the issues a review found: all of them in sendit mode, otherwise the
+ * ones confirmed one by one, after any edits. Edited issues replace their original in issues.
+ * An issue that fails to be created is logged and skipped.
+ */
+export const createReviewIssues = async (issues: Issue[], senditMode: boolean): Promise<ReviewCreatedIssue[]> => {
+    const logger = getLogger();
+    const createdIssues: ReviewCreatedIssue[] = [];
+    if (issues.length > 0) {
+        logger.info(`🔍 Found ${issues.length} issues to potentially create as GitHub issues`);
+    }
+
+    for (let issueIndex = 0; issueIndex < issues.length; issueIndex++) {
+        let choice = senditMode ? 'c' : '';
+        // Ask again after every edit, until the issue is created or skipped
+        while (choice !== 'c' && choice !== 's') {
+            const current = issues[issueIndex];
+            logger.info(`\n📋 Issue ${issueIndex + 1} of ${issues.length}:`);
+            logger.info(`   Title: ${current.title}`);
+            logger.info(`   Priority: ${current.priority} | Category: ${current.category}`);
+            logger.info(`   Description: ${current.description}`);
+            if (current.suggestions && current.suggestions.length > 0) {
+                logger.info(`   Suggestions: ${current.suggestions.join(', ')}`);
+            }
+            choice = await getUserChoice('\nWhat would you like to do with this issue?', [
+                { key: 'c', label: 'Create GitHub issue' },
+                { key: 's', label: 'Skip this issue' },
+                { key: 'e', label: 'Edit issue details' },
+            ]);
+            if (choice === 'e') {
+                issues[issueIndex] = await editIssue(current);
+            }
+        }
+        if (choice !== 'c') {
+            continue;
+        }
+
+        const issue = issues[issueIndex];
+
+        try {
+            logger.info(`🚀 Creating GitHub issue: "${issue.title}"`);
+            const created = await createIssue(issue.title, formatIssueBody(issue), [`priority-${issue.priority}`, `category-${issue.category}`, 'review']);
+            createdIssues.push({ issueIndex, number: created.number, title: issue.title, url: created.html_url });
+            logger.info(`✅ Created GitHub issue #${created.number}: ${created.html_url}`);
+        } catch (error: any) {
+            logger.error(`❌ Failed to create GitHub issue for "${issue.title}": ${error.message}`);
+        }
+    }
+    return createdIssues;
+};
 
 // Utility function to read a review note from a file
 const readReviewNoteFromFile = async (filePath: string): Promise<string> => {
@@ -503,15 +640,31 @@ const processSingleReview = async (reviewNote: string, runConfig: Config, output
     const aiStorageAdapter = createStorageAdapter(outputDirectory);
     const aiLogger = createLoggerAdapter(runConfig.dryRun || false);
 
-    const promptContent: ReviewContent = {
+    const reviewOptions = (runConfig.review || {}) as ReviewOptions;
+
+    // Apply the redaction policy before anything is sent to the AI
+    const debugRequestFile = getOutputPath(outputDirectory, getTimestampedRequestFilename('review-analysis'));
+    const redaction = redactInputs({
         notes: reviewNote,
-    };
-    const promptContext: ReviewContext = {
         context: runConfig.review?.context,
         logContext,
         diffContext,
         releaseNotesContext,
         issuesContext,
+    }, reviewOptions.redaction, ['diffContext']);
+    if (redaction.entries.length > 0) {
+        await writeRedactionReport(createStorage(), debugRequestFile, 'review', redaction.entries, logger);
+    }
+
+    const promptContent: ReviewContent = {
+        notes: redaction.inputs.notes,
+    };
+    const promptContext: ReviewContext = {
+        context: redaction.inputs.context,
+        logContext: redaction.inputs.logContext,
+        diffContext: redaction.inputs.diffContext,
+        releaseNotesContext: redaction.inputs.releaseNotesContext,
+        issuesContext: redaction.inputs.issuesContext,
     };
     const prompt = await createReviewPrompt(promptConfig, promptContent, promptContext);
 
@@ -520,12 +673,12 @@ const processSingleReview = async (reviewNote: string, runConfig: Config, output
 
     let analysisResult: ReviewResult;
     try {
-        const rawResult = await createCompletion(request.messages as ChatCompletionMessageParam[], {
+        const rawResult = await createAIProvider(reviewOptions.provider).createCompletion(request.messages as ChatCompletionMessageParam[], {
             model: modelToUse,
             openaiReasoning: aiConfig.commands?.review?.reasoning || aiConfig.reasoning,
             responseFormat: { type: 'json_object' },
             debug: runConfig.debug,
-            debugRequestFile: getOutputPath(outputDirectory, getTimestampedRequestFilename('review-analysis')),
+            debugRequestFile,
             debugResponseFile: getOutputPath(outputDirectory, getTimestampedResponseFilename('review-analysis')),
             storage: aiStorageAdapter,
             logger: aiLogger,
@@ -582,7 +735,7 @@ const processSingleReview = async (reviewNote: string, runConfig: Config, output
     return analysisResult;
 };
 
-const executeInternal = async (runConfig: Config): Promise<string> => {
+const executeInternal = async (runConfig: Config): Promise<ReviewCommandResult> => {
     const logger = getLogger();
     const isDryRun = runConfig.dryRun || false;
 
@@ -630,7 +783,7 @@ const executeInternal = async (runConfig: Config): Promise<string> => {
                 (reviewExcluded.length > 15 ? '...' : ''));
         }
 
-        return 'DRY RUN: Review command would analyze note, gather context, and create GitHub issues';
+        return { dryRun: true, summary: '', totalIssues: 0, issues: [], createdIssues: [], filesProcessed: [] };
     }
 
     // Enhanced TTY check with proper error handling
@@ -846,12 +999,74 @@ const executeInternal = async (runConfig: Config): Promise<string> => {
         }
     }
 
-    // Handle GitHub issue creation using the issues module
-    const senditMode = runConfig.review?.sendit || false;
-    return await handleIssueCreation(analysisResult, senditMode);
+    const issues = analysisResult.issues || [];
+    const createdIssues = await createReviewIssues(issues, runConfig.review?.sendit || false);
+    return {
+        dryRun: false,
+        summary: analysisResult.summary,
+        totalIssues: analysisResult.totalIssues,
+        issues,
+        createdIssues,
+        filesProcessed: processedFiles,
+    };
 };
 
-export const execute = async (runConfig: Config): Promise<string> => {
+const PRIORITY_EMOJI: Record<Issue['priority'], string> = { high: '🔴', medium: '🟡', low: '🟢' };
+const CATEGORY_EMOJI: Record<Issue['category'], string> = {
+    ui: '🎨',
+    content: '📝',
+    functionality: '⚙️',
+    accessibility: '♿',
+    performance: '⚡',
+    other: '🔧',
+};
+
+/**
+ * Render a review result as shown on the command line
+ */
+export function formatReviewResult(result: ReviewCommandResult): string {
+    if (result.dryRun) {
+        return DRY_RUN_REVIEW_REPORT;
+    }
+
+    const created = result.createdIssues;
+    let output = `📝 Review Results\n\n`;
+    output += `📋 Summary: ${result.summary}\n`;
+    output += `📊 Total Issues Found: ${result.totalIssues}\n`;
+    output += created.length > 0 ? `🚀 GitHub Issues Created: ${created.length}\n\n` : '\n';
+
+    if (result.issues.length > 0) {
+        output += `📝 Issues Identified:\n\n`;
+        result.issues.forEach((issue, index) => {
+            output += `${index + 1}. ${PRIORITY_EMOJI[issue.priority] || PRIORITY_EMOJI.low} ${issue.title}\n`;
+            output += `   ${CATEGORY_EMOJI[issue.category] || CATEGORY_EMOJI.other} Category: ${issue.category} | Priority: ${issue.priority}\n`;
+            output += `   📖 Description: ${issue.description}\n`;
+            const githubIssue = created.find(createdIssue => createdIssue.issueIndex === index);
+            if (githubIssue) {
+                output += `   🔗 GitHub Issue: #${githubIssue.number} - ${githubIssue.url}\n`;
+            }
+            if (issue.suggestions && issue.suggestions.length > 0) {
+                output += `   💡 Suggestions:\n${issue.suggestions.map(suggestion => `      • ${suggestion}\n`).join('')}`;
+            }
+            output += `\n`;
+        });
+    } else {
+        output += `✅ No specific issues identified from the review.\n\n`;
+    }
+
+    if (created.length > 0) {
+        output += `\n🎯 Created GitHub Issues:\n${created.map(issue => `• #${issue.number}: ${issue.title} - ${issue.url}\n`).join('')}\n`;
+        output += `🚀 Next Steps: Review the created GitHub issues and prioritize them in your development workflow.`;
+    } else {
+        output += `🚀 Next Steps: Review the identified issues and prioritize them for your development workflow.`;
+    }
+    return output;
+}
+
+/**
+ * Run a review and return the issues found and the GitHub issues created for them
+ */
+export const executeForResult = async (runConfig: Config): Promise<ReviewCommandResult> => {
     try {
         return await executeInternal(runConfig);
     } catch (error: any) {
@@ -883,3 +1098,7 @@ export const execute = async (runConfig: Config): Promise<string> => {
         throw error;
     }
 };
+
+export const execute = async (runConfig: Config): Promise<string> => {
+    return formatReviewResult(await executeForResult(runConfig));
+};
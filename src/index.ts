@@ -4,6 +4,17 @@ export { execute as precommit } from './commands/precommit';
 export { execute as clean } from './commands/clean';
 export { execute as review } from './commands/review';
 export { execute as pull } from './commands/pull';
+export { execute as hooks } from './commands/hooks';
+
+// Structured results of the commands, and the formatters that render them as text
+export { executeForResult as commitForResult, formatCommitResult } from './commands/commit';
+export type { CommitResult, SplitCommitResult, FixupCommitResult } from './commands/commit';
+export { executeForResult as precommitForResult, formatPrecommitResult } from './commands/precommit';
+export type { PrecommitResult, PrecommitStep } from './commands/precommit';
+export { executeForResult as reviewForResult, formatReviewResult } from './commands/review';
+export type { ReviewCommandResult, ReviewCreatedIssue } from './commands/review';
+export { executeForResult as pullForResult, formatPullResult } from './commands/pull';
+export type { PullResult, ConflictResolution } from './commands/pull';
 
 // Git-specific utilities
 export * from './util/precommitOptimizations';
@@ -0,0 +1,106 @@
+import type { Config } from '@grunnverk/core';
+import type { CommitLintRules } from './util/commitLint';
+import type { TrailerOptions } from './util/trailers';
+import type { SigningConfig, SignatureVerificationOptions } from './util/signing';
+import type { SecretScanOptions } from './util/secretScan';
+import type { RedactionOptions } from './util/redaction';
+import type { CommitCacheOptions } from './util/commitCache';
+import type { AIProviderConfig } from './util/aiProvider';
+import type { HookName } from './util/gitHooks';
+import type { FixupOptions } from './util/fixup';
+import type { RepoGuardOptions } from './util/repoGuards';
+import type { PushConfig } from './util/push';
+import type { ConflictRule } from './util/conflictRules';
+
+/**
+ * Commit options handled by this package on top of the core commit configuration
+ */
+export type CommitOptions = Omit<NonNullable<Config['commit']>, 'push'> & {
+    /** Push after committing: true (origin), a remote name, or upstream, force-with-lease, remotes and retry settings */
+    push?: PushConfig;
+    /** Roll back every split commit if any of them fails */
+    atomic?: boolean;
+    /** Restore the HEAD and index recorded before the last split run */
+    undoSplit?: boolean;
+    /** Path of a saved split plan to execute instead of asking the LLM */
+    applyPlan?: string;
+    /** Continue the interrupted split run saved in the output directory */
+    resume?: boolean;
+    /** Run the precommit checks on every split commit, reordering or merging commits that fail */
+    verifySplits?: boolean;
+    /** Conventional Commits rules every message must follow before it is committed */
+    messageLint?: CommitLintRules;
+    /** Trailers added to every commit, split commit and amend */
+    trailers?: TrailerOptions;
+    /** Sign every commit this package creates (-S), optionally with a specific key and format */
+    sign?: SigningConfig;
+    /** Token budget per chunk when a diff too large for the model is summarized in parts */
+    chunkTokens?: number;
+    /** Secret scanning of staged changes; findings block sendit and split commits */
+    secretScan?: SecretScanOptions;
+    /** Path policies, masks and identifier hashing applied to everything sent to the AI */
+    redaction?: RedactionOptions;
+    /** Ignore the cached message for the staged diff and ask the AI again */
+    regenerate?: boolean;
+    /** Cache of generated messages and split suggestions in the output directory */
+    cache?: CommitCacheOptions;
+    /** Where messages are generated: hosted models (default), an OpenAI-compatible server or a stub */
+    provider?: AIProviderConfig;
+    /** Turn the staged changes into fixup! commits for the branch commits they belong to */
+    fixup?: boolean | FixupOptions;
+    /** Checks of the branch and repository state before sendit, split commits and push */
+    guards?: RepoGuardOptions;
+};
+
+/**
+ * Pull options handled by this package on top of the core pull configuration
+ */
+export type PullOptions = NonNullable<Config['pull']> & {
+    /** Sign rebased commits and merge commits; falls back to commit.sign */
+    sign?: SigningConfig;
+    /** Reject incoming commits whose signature is missing or untrusted */
+    verifySignatures?: boolean | SignatureVerificationOptions;
+    /** How lockfiles are regenerated after their conflicts are resolved (default install) */
+    lockfiles?: LockfileMode;
+    /** Rebuild generated files that were resolved by taking the remote's copy (default true) */
+    rebuild?: boolean | ArtifactRebuildOptions;
+    /** Conflict resolution rules, checked in order before the built-in handling */
+    rules?: ConflictRule[];
+};
+
+export interface ArtifactRebuildOptions {
+    /** package.json script that rebuilds the generated files (default build) */
+    script?: string;
+    /** Commit changed output as a follow-up commit (default), amend it into the merge commit (a follow-up commit when the pull rebased), or leave it uncommitted */
+    commit?: 'follow-up' | 'amend' | false;
+}
+
+/**
+ * install runs the package manager's install, lockfile-only updates just the lockfile, false skips it
+ */
+export type LockfileMode = 'install' | 'lockfile-only' | false;
+
+/**
+ * Review options handled by this package on top of the core review configuration
+ */
+export type ReviewOptions = NonNullable<Config['review']> & {
+    /** Path policies, masks and identifier hashing applied to everything sent to the AI */
+    redaction?: RedactionOptions;
+    /** Where review notes are analyzed: hosted models (default), an OpenAI-compatible server or a stub */
+    provider?: AIProviderConfig;
+};
+
+/**
+ * Options of the hooks command, which installs kodrdriv as git hooks and runs them
+ */
+export interface HooksOptions {
+    /** install, uninstall or status; git calls run from the installed hooks */
+    action?: 'install' | 'uninstall' | 'status' | 'run';
+    /** Hooks to install or uninstall; defaults to all of them */
+    names?: HookName[];
+    /** How the hooks invoke kodrdriv; defaults to "npx --no-install kodrdriv" */
+    command?: string;
+    /** run: the hook git is running and the arguments it passed */
+    hook?: HookName;
+    args?: string[];
+}
@@ -0,0 +1,167 @@
+/**
+ * AI providers for commit and review: the hosted models of ai-service, an OpenAI-compatible server
+ * (llama.cpp, Ollama, vLLM) or a deterministic stub for offline use and tests
+ */
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources';
+import { ValidationError } from '@grunnverk/shared';
+import {
+    createCompletionWithRetry,
+    runAgenticCommit,
+    isTokenLimitError,
+    LLMError,
+    type OpenAIOptions,
+    type AgenticCommitConfig,
+    type AgenticCommitResult,
+} from '@grunnverk/ai-service';
+
+export type AIProviderType = 'hosted' | 'openai-compatible' | 'stub';
+
+export interface AIProviderConfig {
+    type?: AIProviderType; // Defaults to hosted
+    baseUrl?: string; // openai-compatible: e.g. http://localhost:11434/v1
+    apiKey?: string; // openai-compatible: most local servers ignore it
+    model?: string; // Replaces the configured model, local servers use their own model names
+    timeoutMs?: number;
+    response?: string; // stub: returned for every request (parsed when JSON is requested)
+    splits?: StubCommitSplit[]; // stub: the splits the agentic commit flow suggests
+}
+
+export interface StubCommitSplit {
+    files: string[];
+    message: string;
+    rationale?: string;
+}
+
+export interface AIProvider {
+    type: AIProviderType;
+    model?: string; // Model that replaces the configured one, if any
+    createCompletion(messages: ChatCompletionMessageParam[], options?: OpenAIOptions): Promise<string | any>;
+    // Hosted models run the tool-calling loop and the stub answers it; local servers get the diff in a single prompt
+    runAgenticCommit?: (config: AgenticCommitConfig) => Promise<AgenticCommitResult>;
+}
+
+export const DEFAULT_LOCAL_TIMEOUT_MS = 300000;
+export const STUB_COMMIT_MESSAGE = 'chore: update project files';
+export const STUB_REVIEW_RESULT = { summary: 'Stub review - no analysis performed', totalIssues: 0, issues: [] };
+
+/**
+ * The configured provider with environment overrides applied. KODRDRIV_AI_PROVIDER,
+ * KODRDRIV_AI_BASE_URL, KODRDRIV_AI_API_KEY and KODRDRIV_AI_MODEL win over the config file,
+ * so CI and air-gapped machines can switch providers without editing it.
+ */
+export function resolveProviderConfig(config: AIProviderConfig = {}, env: NodeJS.ProcessEnv = process.env): AIProviderConfig {
+    const resolved: AIProviderConfig = {
+        ...config,
+        ...(env.KODRDRIV_AI_PROVIDER ? { type: env.KODRDRIV_AI_PROVIDER as AIProviderType } : {}),
+        ...(env.KODRDRIV_AI_BASE_URL ? { baseUrl: env.KODRDRIV_AI_BASE_URL } : {}),
+        ...(env.KODRDRIV_AI_API_KEY ? { apiKey: env.KODRDRIV_AI_API_KEY } : {}),
+        ...(env.KODRDRIV_AI_MODEL ? { model: env.KODRDRIV_AI_MODEL } : {}),
+    };
+    const type = resolved.type || 'hosted';
+    if (!['hosted', 'openai-compatible', 'stub'].includes(type)) {
+        throw new ValidationError(`Unknown AI provider "${type}". Use hosted, openai-compatible or stub.`);
+    }
+    if (type === 'openai-compatible' && !resolved.baseUrl) {
+        throw new ValidationError('The openai-compatible AI provider needs a baseUrl, e.g. http://localhost:11434/v1');
+    }
+    return { ...resolved, type };
+}
+
+async function writeDebugFile(options: OpenAIOptions, file: string | undefined, data: unknown): Promise<void> {
+    if (options.debug && file && options.storage) {
+        await options.storage.writeTemp(file, JSON.stringify(data, null, 2));
+    }
+}
+
+function createOpenAICompatibleProvider(config: AIProviderConfig): AIProvider {
+    const client = new OpenAI({
+        baseURL: config.baseUrl,
+        apiKey: config.apiKey || 'not-needed',
+        timeout: config.timeoutMs ?? DEFAULT_LOCAL_TIMEOUT_MS,
+    });
+
+    return {
+        type: 'openai-compatible',
+        model: config.model,
+        async createCompletion(messages, options = {}) {
+            const model = config.model || options.model || 'default';
+            await writeDebugFile(options, options.debugRequestFile, { provider: 'openai-compatible', baseUrl: config.baseUrl, model, messages });
+
+            let content: string;
+            try {
+                const completion = await client.chat.completions.create({
+                    model,
+                    messages,
+                    ...(options.responseFormat ? { response_format: options.responseFormat } : {}),
+                    ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+                });
+                content = completion.choices[0]?.message?.content?.trim() || '';
+            } catch (error: any) {
+                throw new LLMError(`Local AI provider at ${config.baseUrl} failed: ${error.message}`, isTokenLimitError(error));
+            }
+
+            await writeDebugFile(options, options.debugResponseFile, { provider: 'openai-compatible', model, content });
+            if (!content) {
+                throw new LLMError(`Local AI provider at ${config.baseUrl} returned no content`);
+            }
+            if (!options.responseFormat) {
+                return content;
+            }
+            try {
+                // Local models often wrap JSON in a code fence
+                return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+            } catch {
+                throw new LLMError(`Local AI provider at ${config.baseUrl} returned invalid JSON`);
+            }
+        },
+    };
+}
+
+function createStubProvider(config: AIProviderConfig): AIProvider {
+    return {
+        type: 'stub',
+        model: config.model,
+        async createCompletion(messages, options = {}) {
+            await writeDebugFile(options, options.debugRequestFile, { provider: 'stub', messages });
+            const result = options.responseFormat
+                ? (config.response ? JSON.parse(config.response) : STUB_REVIEW_RESULT)
+                : (config.response || STUB_COMMIT_MESSAGE);
+            await writeDebugFile(options, options.debugResponseFile, { provider: 'stub', content: result });
+            return result;
+        },
+        async runAgenticCommit(agenticConfig) {
+            const options = agenticConfig as OpenAIOptions;
+            await writeDebugFile(options, agenticConfig.debugRequestFile, { provider: 'stub', changedFiles: agenticConfig.changedFiles });
+            const result: AgenticCommitResult = {
+                commitMessage: config.response || STUB_COMMIT_MESSAGE,
+                iterations: 1,
+                toolCallsExecuted: 0,
+                suggestedSplits: (config.splits || []).map(split => ({ files: split.files, message: split.message, rationale: split.rationale || '' })),
+                conversationHistory: [],
+                toolMetrics: [],
+            };
+            await writeDebugFile(options, agenticConfig.debugResponseFile, { provider: 'stub', content: result });
+            return result;
+        },
+    };
+}
+
+/**
+ * Create the provider for a command from its provider config
+ */
+export function createAIProvider(config?: AIProviderConfig): AIProvider {
+    const resolved = resolveProviderConfig(config);
+    switch (resolved.type) {
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider(resolved);
+        case 'stub':
+            return createStubProvider(resolved);
+        default:
+            return {
+                type: 'hosted',
+                createCompletion: (messages, options) => createCompletionWithRetry(messages, options),
+                runAgenticCommit: (agenticConfig) => runAgenticCommit(agenticConfig),
+            };
+    }
+}
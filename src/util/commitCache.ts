@@ -0,0 +1,148 @@
+/**
+ * Cache of generated commit messages and split suggestions, keyed by the staged diff
+ */
+import crypto from 'crypto';
+import path from 'path';
+import type { PlannedSplit } from './splitPlan';
+
+export const COMMIT_CACHE_DIRECTORY = 'commit-cache';
+export const COMMIT_CACHE_VERSION = 1;
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 7;
+export const DEFAULT_CACHE_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface CommitCacheOptions {
+    enabled?: boolean; // Defaults to true
+    maxAgeDays?: number; // Entries older than this are evicted
+    maxBytes?: number; // Oldest entries are evicted until the cache is smaller than this
+}
+
+export interface CommitCacheKeyInput {
+    diff: string;
+    direction?: string;
+    model?: string;
+}
+
+export interface CommitCacheEntry {
+    version: number;
+    key: string;
+    createdAt: string;
+    model?: string;
+    commitMessage: string;
+    suggestedSplits: PlannedSplit[];
+}
+
+/**
+ * Hash of everything the generated message depends on
+ */
+export function getCommitCacheKey(input: CommitCacheKeyInput): string {
+    return crypto.createHash('sha256')
+        .update(input.diff)
+        .update('\0')
+        .update(input.direction || '')
+        .update('\0')
+        .update(input.model || '')
+        .digest('hex');
+}
+
+export const getCommitCacheDirectory = (outputDirectory: string): string => path.join(outputDirectory, COMMIT_CACHE_DIRECTORY);
+
+const entryPath = (outputDirectory: string, key: string) => path.join(getCommitCacheDirectory(outputDirectory), `${key}.json`);
+
+function parseEntry(content: string): CommitCacheEntry | null {
+    try {
+        const entry = JSON.parse(content);
+        if (entry?.version !== COMMIT_CACHE_VERSION || typeof entry.commitMessage !== 'string' || !Array.isArray(entry.suggestedSplits)) {
+            return null;
+        }
+        return entry;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The cached result for a key, or null if there is none (or it is unreadable or expired)
+ */
+export async function readCommitCache(
+    outputDirectory: string,
+    key: string,
+    storage: any,
+    options: CommitCacheOptions = {}
+): Promise<CommitCacheEntry | null> {
+    const file = entryPath(outputDirectory, key);
+    if (!await storage.exists(file)) {
+        return null;
+    }
+    const entry = parseEntry(await storage.readFile(file, 'utf-8'));
+    const maxAge = (options.maxAgeDays ?? DEFAULT_CACHE_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+    if (!entry || entry.key !== key || Date.now() - Date.parse(entry.createdAt) > maxAge) {
+        return null;
+    }
+    return entry;
+}
+
+/**
+ * Store a result under its key
+ */
+export async function writeCommitCache(
+    outputDirectory: string,
+    key: string,
+    result: { commitMessage: string; suggestedSplits: PlannedSplit[]; model?: string },
+    storage: any
+): Promise<CommitCacheEntry> {
+    const entry: CommitCacheEntry = {
+        version: COMMIT_CACHE_VERSION,
+        key,
+        createdAt: new Date().toISOString(),
+        ...(result.model ? { model: result.model } : {}),
+        commitMessage: result.commitMessage,
+        suggestedSplits: result.suggestedSplits,
+    };
+    await storage.ensureDirectory(getCommitCacheDirectory(outputDirectory));
+    await storage.writeFile(entryPath(outputDirectory, key), JSON.stringify(entry, null, 2), 'utf-8');
+    return entry;
+}
+
+/**
+ * Remove expired and unreadable entries, then the oldest ones until the cache fits its size limit.
+ * Returns the number of entries removed.
+ */
+export async function evictCommitCache(outputDirectory: string, storage: any, options: CommitCacheOptions = {}): Promise<number> {
+    const directory = getCommitCacheDirectory(outputDirectory);
+    if (!await storage.exists(directory)) {
+        return 0;
+    }
+    const maxAge = (options.maxAgeDays ?? DEFAULT_CACHE_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+    const maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+    const now = Date.now();
+
+    const kept: Array<{ file: string; size: number; createdAt: number }> = [];
+    const evicted: string[] = [];
+    for (const name of await storage.listFiles(directory)) {
+        if (!name.endsWith('.json')) {
+            continue;
+        }
+        const file = path.join(directory, name);
+        const content = await storage.readFile(file, 'utf-8');
+        const entry = parseEntry(content);
+        const createdAt = entry ? Date.parse(entry.createdAt) : NaN;
+        if (!entry || Number.isNaN(createdAt) || now - createdAt > maxAge) {
+            evicted.push(file);
+        } else {
+            kept.push({ file, size: Buffer.byteLength(content), createdAt });
+        }
+    }
+
+    kept.sort((a, b) => a.createdAt - b.createdAt);
+    let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+    while (total > maxBytes && kept.length > 0) {
+        const oldest = kept.shift()!;
+        evicted.push(oldest.file);
+        total -= oldest.size;
+    }
+
+    for (const file of evicted) {
+        await storage.deleteFile(file);
+    }
+    return evicted.length;
+}
@@ -0,0 +1,158 @@
+/**
+ * Conventional Commits checks for commit messages
+ */
+export const DEFAULT_COMMIT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'];
+export const DEFAULT_MAX_SUBJECT_LENGTH = 72;
+export const DEFAULT_BODY_WRAP = 100;
+
+export interface CommitLintRules {
+    types?: string[]; // Allowed types, defaults to DEFAULT_COMMIT_TYPES
+    scopes?: string[]; // Allowed scopes, any scope when empty
+    requireScope?: boolean;
+    maxSubjectLength?: number; // Maximum length of the whole header line
+    bodyWrap?: number; // Maximum length of body lines
+    requireBreakingFooter?: boolean; // A "!" header needs a BREAKING CHANGE footer (default true)
+}
+
+export interface CommitLintIssue {
+    rule: 'header-format' | 'type' | 'scope' | 'subject-length' | 'subject-full-stop' | 'body-leading-blank' | 'body-wrap' | 'breaking-footer';
+    message: string;
+}
+
+export interface CommitLintResult {
+    valid: boolean;
+    issues: CommitLintIssue[];
+}
+
+export interface CommitHeader {
+    type: string;
+    scope?: string;
+    breaking: boolean;
+    subject: string;
+}
+
+const HEADER_PATTERN = /^([a-zA-Z]+)(?:\(([^()]+)\))?(!)?: (\S.*)$/;
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE: \S/m;
+// Git trailers and footers ("Refs: #12", "Signed-off-by: ...") are never wrapped
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[A-Za-z][\w-]*): \S/;
+
+/**
+ * Parse a Conventional Commits header, or null if the line does not follow the format
+ */
+export function parseCommitHeader(header: string): CommitHeader | null {
+    const match = header.match(HEADER_PATTERN);
+    if (!match) {
+        return null;
+    }
+    return {
+        type: match[1],
+        ...(match[2] ? { scope: match[2] } : {}),
+        breaking: !!match[3],
+        subject: match[4],
+    };
+}
+
+// Lines inside fenced code blocks are left alone
+function bodyLinesOutsideCode(lines: string[]): Array<{ line: string; index: number }> {
+    const result: Array<{ line: string; index: number }> = [];
+    let inCode = false;
+    lines.forEach((line, index) => {
+        if (line.trim().startsWith('```')) {
+            inCode = !inCode;
+        } else if (!inCode) {
+            result.push({ line, index });
+        }
+    });
+    return result;
+}
+
+/**
+ * Check a commit message against the rules
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules = {}): CommitLintResult {
+    const issues: CommitLintIssue[] = [];
+    const lines = message.trim().split('\n');
+    const headerLine = lines[0] || '';
+    const header = parseCommitHeader(headerLine);
+    const types = rules.types && rules.types.length > 0 ? rules.types : DEFAULT_COMMIT_TYPES;
+    const maxSubjectLength = rules.maxSubjectLength ?? DEFAULT_MAX_SUBJECT_LENGTH;
+    const bodyWrap = rules.bodyWrap ?? DEFAULT_BODY_WRAP;
+
+    if (!header) {
+        issues.push({ rule: 'header-format', message: `Header "${headerLine}" is not in the form "type(scope): subject"` });
+    } else {
+        if (!types.includes(header.type)) {
+            issues.push({ rule: 'type', message: `Type "${header.type}" is not one of: ${types.join(', ')}` });
+        }
+        if (header.scope && rules.scopes && rules.scopes.length > 0 && !rules.scopes.includes(header.scope)) {
+            issues.push({ rule: 'scope', message: `Scope "${header.scope}" is not one of: ${rules.scopes.join(', ')}` });
+        } else if (!header.scope && rules.requireScope) {
+            issues.push({ rule: 'scope', message: 'A scope is required' });
+        }
+        if (header.subject.endsWith('.')) {
+            issues.push({ rule: 'subject-full-stop', message: 'Subject must not end with a full stop' });
+        }
+        if (header.breaking && rules.requireBreakingFooter !== false && !BREAKING_FOOTER_PATTERN.test(message)) {
+            issues.push({ rule: 'breaking-footer', message: 'Breaking change ("!") needs a "BREAKING CHANGE: <description>" footer' });
+        }
+    }
+
+    if (headerLine.length > maxSubjectLength) {
+        issues.push({ rule: 'subject-length', message: `Header is ${headerLine.length} characters, the limit is ${maxSubjectLength}` });
+    }
+
+    if (lines.length > 1 && lines[1].trim() !== '') {
+        issues.push({ rule: 'body-leading-blank', message: 'Header must be followed by a blank line' });
+    }
+
+    const longLines = bodyLinesOutsideCode(lines.slice(1))
+        .filter(({ line }) => line.length > bodyWrap && line.trim().includes(' '));
+    if (longLines.length > 0) {
+        issues.push({ rule: 'body-wrap', message: `${longLines.length} body line(s) are longer than ${bodyWrap} characters` });
+    }
+
+    return { valid: issues.length === 0, issues };
+}
+
+function wrapLine(line: string, width: number): string[] {
+    // Keep list markers and indentation on continuation lines
+    const indent = line.match(/^(\s*(?:[-*+]|\d+[.)])?\s*)/)?.[1] || '';
+    const continuation = ' '.repeat(indent.length);
+    const words = line.slice(indent.length).split(/\s+/).filter(Boolean);
+
+    const wrapped: string[] = [];
+    let current = indent;
+    for (const word of words) {
+        const prefix = wrapped.length === 0 ? indent : continuation;
+        if (current.length > prefix.length && current.length + 1 + word.length > width) {
+            wrapped.push(current);
+            current = continuation + word;
+        } else {
+            current = current.length > prefix.length ? `${current} ${word}` : prefix + word;
+        }
+    }
+    wrapped.push(current);
+    return wrapped;
+}
+
+/**
+ * Re-wrap body lines longer than the limit. The header, code blocks and footers are left unchanged.
+ */
+export function wrapCommitBody(message: string, width: number = DEFAULT_BODY_WRAP): string {
+    const lines = message.split('\n');
+    const outsideCode = new Set(bodyLinesOutsideCode(lines.slice(1)).map(({ index }) => index + 1));
+
+    return lines.flatMap((line, index) => {
+        if (index === 0 || !outsideCode.has(index) || line.length <= width || FOOTER_PATTERN.test(line) || !line.trim().includes(' ')) {
+            return [line];
+        }
+        return wrapLine(line, width);
+    }).join('\n');
+}
+
+/**
+ * Human readable list of lint issues
+ */
+export function formatLintIssues(issues: CommitLintIssue[]): string {
+    return issues.map(issue => `- ${issue.message} (${issue.rule})`).join('\n');
+}
@@ -0,0 +1,57 @@
+/**
+ * Team-defined rules for resolving pull conflicts, checked in order before the built-in ones
+ */
+import { ValidationError } from '@grunnverk/shared';
+import { matchesGlob } from './glob';
+
+/**
+ * - ours / theirs: keep one side's version of the file
+ * - union: keep the lines both sides added
+ * - regenerate: take theirs, then run `command` once all conflicts are resolved and stage the result
+ * - script: run `command` with the file as argument; it resolves the file in place
+ * - manual: always leave the file for a person
+ */
+export type ConflictStrategy = 'ours' | 'theirs' | 'union' | 'regenerate' | 'script' | 'manual';
+
+export interface ConflictRule {
+    pattern: string | string[]; // Globs; a glob without a slash matches the file name at any depth
+    strategy: ConflictStrategy;
+    command?: string; // For regenerate and script
+}
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['ours', 'theirs', 'union', 'regenerate', 'script', 'manual'];
+
+const patternsOf = (rule: ConflictRule): string[] => Array.isArray(rule.pattern) ? rule.pattern : [rule.pattern];
+
+/**
+ * Check the configured rules, so a broken rule fails before the pull instead of halfway through it
+ */
+export function validateConflictRules(rules: ConflictRule[]): void {
+    rules.forEach((rule, index) => {
+        if (!CONFLICT_STRATEGIES.includes(rule.strategy)) {
+            throw new ValidationError(`pull.rules[${index}]: unknown strategy "${rule.strategy}" (expected one of ${CONFLICT_STRATEGIES.join(', ')})`);
+        }
+        if (patternsOf(rule).length === 0 || patternsOf(rule).some(pattern => typeof pattern !== 'string' || !pattern)) {
+            throw new ValidationError(`pull.rules[${index}]: pattern must be a glob or a list of globs`);
+        }
+        if ((rule.strategy === 'regenerate' || rule.strategy === 'script') && !rule.command) {
+            throw new ValidationError(`pull.rules[${index}]: the ${rule.strategy} strategy needs a command`);
+        }
+    });
+}
+
+export function matchesConflictRule(file: string, rule: ConflictRule): boolean {
+    return patternsOf(rule).some(pattern => matchesGlob(file, pattern));
+}
+
+/**
+ * The first rule that matches the file, with its position in the configuration
+ */
+export function findConflictRule(file: string, rules: ConflictRule[] = []): { rule: ConflictRule; index: number } | undefined {
+    const index = rules.findIndex(rule => matchesConflictRule(file, rule));
+    return index === -1 ? undefined : { rule: rules[index], index };
+}
+
+export function describeConflictRule(rule: ConflictRule, index: number): string {
+    return `rules[${index}] ${patternsOf(rule).join(', ')}: ${rule.strategy}${rule.command ? ` (${rule.command})` : ''}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Splitting of diffs that are too large for the model into chunks that can be summarized separately
+ */
+
+// Rough size of a token in characters, good enough to stay under a budget
+export const CHARS_PER_TOKEN = 4;
+export const DEFAULT_CHUNK_TOKENS = 12000;
+
+export interface DiffChunk {
+    files: string[];
+    content: string;
+    partial: boolean; // Only part of a file's diff - the file continues in the next chunk
+}
+
+interface FileSection {
+    file: string;
+    header: string[];
+    hunks: string[][];
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+function parseSections(diff: string): FileSection[] {
+    const sections: FileSection[] = [];
+    let current: FileSection | undefined;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+            current = { file: match ? match[2] : line.slice('diff --git '.length), header: [line], hunks: [] };
+            sections.push(current);
+        } else if (!current) {
+            // Content before the first file header (or a diff in another format)
+            current = { file: '', header: [], hunks: [[line]] };
+            sections.push(current);
+        } else if (line.startsWith('@@')) {
+            current.hunks.push([line]);
+        } else if (current.hunks.length > 0) {
+            current.hunks[current.hunks.length - 1].push(line);
+        } else {
+            current.header.push(line);
+        }
+    }
+
+    return sections.filter(section => section.header.length > 0 || section.hunks.some(hunk => hunk.some(line => line.trim())));
+}
+
+const directoryOf = (file: string) => file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '';
+
+/**
+ * Split a diff into chunks of at most maxTokens. Files are kept whole when they fit and files of
+ * the same directory are grouped together. A file that is too large on its own is split between
+ * hunks (repeating its header), and a single hunk that is still too large is truncated.
+ */
+export function splitDiffIntoChunks(diff: string, maxTokens: number = DEFAULT_CHUNK_TOKENS): DiffChunk[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const chunks: DiffChunk[] = [];
+    let current: { files: string[]; parts: string[]; size: number; directory: string } | undefined;
+
+    const flush = () => {
+        if (current && current.parts.length > 0) {
+            chunks.push({ files: current.files, content: current.parts.join('\n'), partial: false });
+        }
+        current = undefined;
+    };
+
+    for (const section of parseSections(diff)) {
+        const header = section.header.join('\n');
+        const text = [header, ...section.hunks.map(hunk => hunk.join('\n'))].filter(Boolean).join('\n');
+        const directory = directoryOf(section.file);
+
+        if (text.length <= maxChars) {
+            // Start a new chunk when this one is full or the directory changes
+            if (current && (current.size + text.length + 1 > maxChars || current.directory !== directory)) {
+                flush();
+            }
+            if (!current) {
+                current = { files: [], parts: [], size: 0, directory };
+            }
+            if (section.file) {
+                current.files.push(section.file);
+            }
+            current.parts.push(text);
+            current.size += text.length + 1;
+            continue;
+        }
+
+        // Too large for one chunk: send the file's hunks in as many chunks as needed
+        flush();
+        const budget = Math.max(maxChars - header.length - 1, 1);
+        let parts: string[] = [];
+        let size = 0;
+        const pieces: string[] = [];
+        for (const hunk of section.hunks) {
+            let hunkText = hunk.join('\n');
+            if (hunkText.length > budget) {
+                hunkText = `${hunkText.slice(0, Math.max(budget - 40, 0))}\n... [hunk truncated]`;
+            }
+            if (size + hunkText.length + 1 > budget && parts.length > 0) {
+                pieces.push(parts.join('\n'));
+                parts = [];
+                size = 0;
+            }
+            parts.push(hunkText);
+            size += hunkText.length + 1;
+        }
+        if (parts.length > 0) {
+            pieces.push(parts.join('\n'));
+        }
+        pieces.forEach((piece, index) => {
+            chunks.push({
+                files: section.file ? [section.file] : [],
+                content: [header, piece].filter(Boolean).join('\n'),
+                partial: index < pieces.length - 1,
+            });
+        });
+    }
+
+    flush();
+    return chunks;
+}
+
+/**
+ * Group texts into batches that each fit the token budget, keeping their order
+ */
+export function batchByTokens(texts: string[], maxTokens: number = DEFAULT_CHUNK_TOKENS): string[][] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let size = 0;
+
+    for (const text of texts) {
+        if (batch.length > 0 && size + text.length > maxChars) {
+            batches.push(batch);
+            batch = [];
+            size = 0;
+        }
+        batch.push(text);
+        size += text.length;
+    }
+    if (batch.length > 0) {
+        batches.push(batch);
+    }
+    return batches;
+}
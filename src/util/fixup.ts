@@ -0,0 +1,254 @@
+/**
+ * Mapping of staged hunks to the branch commits they fix, for fixup! commits and autosquash
+ */
+import { runSecure } from '@grunnverk/git-tools';
+import { ValidationError } from '@grunnverk/shared';
+import { withSigning, type SigningConfig } from './signing';
+import { formatHunkRange, type DiffHunk, type FileDiff, type HunkSelection } from './hunks';
+
+export interface FixupOptions {
+    base?: string; // Where the branch starts; defaults to the merge base with the upstream or default branch
+    ai?: 'fallback' | 'always' | 'never'; // When to ask the AI: for hunks blame cannot place (default), for all hunks, or never
+    autosquash?: boolean; // Fold the fixup! commits into their targets with a non-interactive rebase
+}
+
+export interface BranchCommit {
+    sha: string;
+    subject: string;
+}
+
+/**
+ * A unit of staged change that goes to one commit: a hunk, or all hunks of a new or deleted file
+ * (those cannot be staged partially)
+ */
+export interface FixupChange {
+    id: number;
+    file: string;
+    hunks: DiffHunk[];
+}
+
+export interface FixupTarget {
+    commit: BranchCommit;
+    changes: FixupChange[];
+}
+
+// A file as staged: "<mode> <blob>", or null when the file is staged as deleted
+export type IndexEntry = { file: string; entry: string | null };
+
+// Branches tried, in order, when the current branch has no upstream
+const DEFAULT_BASE_CANDIDATES = ['origin/HEAD', 'origin/main', 'origin/master', 'main', 'master'];
+
+const git = async (args: string[]): Promise<string> => (await runSecure('git', args, { suppressErrorLogging: true })).stdout;
+
+/**
+ * The commit the current branch started from
+ */
+export async function getFixupBase(base?: string): Promise<string> {
+    if (base) {
+        try {
+            return (await git(['merge-base', 'HEAD', base])).trim();
+        } catch {
+            throw new ValidationError(`Cannot find fixup base "${base}"`);
+        }
+    }
+
+    const head = (await git(['rev-parse', 'HEAD'])).trim();
+    for (const candidate of ['@{upstream}', ...DEFAULT_BASE_CANDIDATES]) {
+        try {
+            const mergeBase = (await git(['merge-base', 'HEAD', candidate])).trim();
+            if (mergeBase && mergeBase !== head) {
+                return mergeBase;
+            }
+        } catch {
+            // Not there, try the next one
+        }
+    }
+    throw new ValidationError('Cannot find where this branch starts. Set it with commit.fixup.base.');
+}
+
+/**
+ * Commits between the base and HEAD, newest first. Merges and existing fixup!/squash! commits
+ * are not targets.
+ */
+export async function getBranchCommits(base: string): Promise<BranchCommit[]> {
+    const output = await git(['log', '--no-merges', '--format=%H%x09%s', `${base}..HEAD`]);
+    return output.split('\n').filter(line => line.trim()).map(line => {
+        const [sha, ...subject] = line.split('\t');
+        return { sha, subject: subject.join('\t') };
+    }).filter(commit => !/^(fixup|squash|amend)! /.test(commit.subject));
+}
+
+/**
+ * Split the staged diff into changes that can each go to a different commit
+ */
+export function getFixupChanges(fileDiffs: FileDiff[]): FixupChange[] {
+    const changes: FixupChange[] = [];
+    for (const fileDiff of fileDiffs) {
+        if (fileDiff.isBinary) {
+            continue;
+        }
+        if (fileDiff.isNew || fileDiff.isDeleted) {
+            changes.push({ id: changes.length + 1, file: fileDiff.file, hunks: fileDiff.hunks });
+        } else {
+            fileDiff.hunks.forEach(hunk => changes.push({ id: changes.length + 1, file: fileDiff.file, hunks: [hunk] }));
+        }
+    }
+    return changes;
+}
+
+/**
+ * Lines of HEAD whose last author decides where a hunk belongs: the removed lines, and the lines
+ * around each insertion
+ */
+export function getBlameLines(hunk: DiffHunk): number[] {
+    const lines = new Set<number>();
+    let oldLine = hunk.oldStart;
+    let previous = '';
+    for (const line of hunk.lines.slice(1)) {
+        if (line.startsWith('-')) {
+            lines.add(oldLine);
+            oldLine++;
+        } else if (line.startsWith('+')) {
+            if (previous !== '+' && previous !== '-') {
+                lines.add(oldLine - 1);
+                lines.add(oldLine);
+            }
+        } else if (!line.startsWith('\\')) {
+            oldLine++;
+        }
+        previous = line.charAt(0);
+    }
+    return [...lines].filter(line => line >= 1).sort((a, b) => a - b);
+}
+
+/**
+ * The commit that last touched each of the given lines of a file in HEAD
+ */
+async function blameLines(file: string, lines: number[]): Promise<string[]> {
+    const lineCount = (await git(['cat-file', '-p', `HEAD:${file}`]).catch(() => '')).split('\n').length - 1;
+    const valid = lines.filter(line => line <= lineCount);
+
+    const shas: string[] = [];
+    // One blame call per run of consecutive lines
+    for (let i = 0; i < valid.length;) {
+        let end = i;
+        while (end + 1 < valid.length && valid[end + 1] === valid[end] + 1) {
+            end++;
+        }
+        const output = await git(['blame', '--porcelain', '-L', `${valid[i]},${valid[end]}`, 'HEAD', '--', file]);
+        output.split('\n').forEach(line => {
+            const match = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+            if (match) {
+                shas.push(match[1]);
+            }
+        });
+        i = end + 1;
+    }
+    return shas;
+}
+
+/**
+ * The branch commit that last touched most of a change's lines, or undefined when they all
+ * predate the branch (or the file is new)
+ */
+export async function blameChange(change: FixupChange, commits: BranchCommit[]): Promise<BranchCommit | undefined> {
+    const counts = new Map<string, number>();
+    for (const hunk of change.hunks) {
+        if (hunk.oldLines === 0 && hunk.oldStart === 0) {
+            continue; // New file: nothing to blame
+        }
+        for (const sha of await blameLines(change.file, getBlameLines(hunk))) {
+            counts.set(sha, (counts.get(sha) || 0) + 1);
+        }
+    }
+
+    // Ties go to the newest commit
+    let best: BranchCommit | undefined;
+    for (const commit of commits) {
+        if ((counts.get(commit.sha) || 0) > (best ? counts.get(best.sha)! : 0)) {
+            best = commit;
+        }
+    }
+    return best;
+}
+
+/**
+ * Group changes by the commit they were assigned to, keeping the order of the branch
+ */
+export function groupFixupTargets(commits: BranchCommit[], assignments: Map<number, BranchCommit>, changes: FixupChange[]): FixupTarget[] {
+    return [...commits].reverse()
+        .map(commit => ({ commit, changes: changes.filter(change => assignments.get(change.id)?.sha === commit.sha) }))
+        .filter(target => target.changes.length > 0);
+}
+
+export const toHunkSelections = (changes: FixupChange[]): HunkSelection[] => changes.map(change => ({ file: change.file, hunks: change.hunks }));
+
+export const describeChange = (change: FixupChange): string => `${change.file} ${change.hunks.map(formatHunkRange).join(', ')}`;
+
+/**
+ * Parse "<change id>: <commit sha>" lines from an AI answer. Unknown ids and commits are ignored.
+ */
+export function parseFixupAssignments(answer: string, commits: BranchCommit[]): Map<number, BranchCommit> {
+    const assignments = new Map<number, BranchCommit>();
+    for (const line of answer.split('\n')) {
+        const match = line.match(/^\s*[-*]?\s*#?(\d+)\s*[:=-]+\s*`?([0-9a-f]{4,40})\b/i);
+        if (!match) {
+            continue;
+        }
+        const sha = match[2].toLowerCase();
+        const commit = commits.find(candidate => candidate.sha.startsWith(sha));
+        if (commit) {
+            assignments.set(Number(match[1]), commit);
+        }
+    }
+    return assignments;
+}
+
+/**
+ * Record how files are staged, for files that cannot be re-staged from a patch (binary files)
+ */
+export async function captureIndexEntries(files: string[]): Promise<IndexEntry[]> {
+    const entries: IndexEntry[] = [];
+    for (const file of files) {
+        const output = (await git(['ls-files', '--stage', '--', file])).trim();
+        const [mode, blob] = output.split(/\s+/);
+        entries.push({ file, entry: output ? `${mode},${blob}` : null });
+    }
+    return entries;
+}
+
+/**
+ * Put files back in the index exactly as they were captured
+ */
+export async function restoreIndexEntries(entries: IndexEntry[]): Promise<void> {
+    for (const { file, entry } of entries) {
+        await runSecure('git', entry
+            ? ['update-index', '--add', '--cacheinfo', `${entry},${file}`]
+            : ['update-index', '--force-remove', '--', file]);
+    }
+}
+
+/**
+ * Whether tracked files have changes that are not committed, staged or not. Untracked files do not count.
+ */
+export async function hasWorktreeChanges(): Promise<boolean> {
+    return (await git(['status', '--porcelain', '--untracked-files=no'])).trim() !== '';
+}
+
+/**
+ * Fold fixup! commits into their targets: an interactive rebase with --autosquash whose todo list
+ * is accepted as generated. Refuses to run on a dirty worktree, since stashing the changes around
+ * the rebase could leave them behind in the stash. Aborts and throws if the rebase stops on a conflict.
+ */
+export async function runAutosquash(base: string, signing?: SigningConfig): Promise<void> {
+    if (await hasWorktreeChanges()) {
+        throw new ValidationError('Cannot autosquash with uncommitted changes; commit or stash them first');
+    }
+    try {
+        await runSecure('git', ['-c', 'sequence.editor=:', ...withSigning(['rebase', '--interactive', '--autosquash', base], signing)]);
+    } catch (error: unknown) {
+        await runSecure('git', ['rebase', '--abort'], { suppressErrorLogging: true }).catch(() => { /* nothing to abort */ });
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ValidationError(`Autosquash rebase failed and was aborted; the fixup! commits are still on the branch: ${reason}`);
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Installation of kodrdriv as git hooks, chained with existing hooks and husky
+ */
+import { runSecure } from '@grunnverk/git-tools';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type HookName = 'prepare-commit-msg' | 'pre-commit' | 'commit-msg';
+
+export const HOOK_NAMES: HookName[] = ['prepare-commit-msg', 'pre-commit', 'commit-msg'];
+export const DEFAULT_HOOK_COMMAND = 'npx --no-install kodrdriv';
+export const SKIP_ALL_HOOKS_ENV = 'KODRDRIV_SKIP_HOOKS';
+
+const BLOCK_START = '# >>> kodrdriv hook >>>';
+const BLOCK_END = '# <<< kodrdriv hook <<<';
+// Existing hooks are moved aside to this name and run before kodrdriv
+const CHAINED_SUFFIX = '.pre-kodrdriv';
+
+export interface HooksLocation {
+    directory: string; // Where hook files are written
+    husky: boolean; // Husky runs the files in .husky/ itself; they are shell fragments
+}
+
+export interface HookStatus {
+    name: HookName;
+    path: string;
+    installed: boolean;
+    chained: boolean; // An existing hook runs before kodrdriv
+    foreign: boolean; // A hook exists that kodrdriv does not manage
+}
+
+/**
+ * Environment variable that skips one hook, e.g. KODRDRIV_SKIP_PRE_COMMIT
+ */
+export const getSkipEnvName = (name: HookName): string => `KODRDRIV_SKIP_${name.toUpperCase().replace(/-/g, '_')}`;
+
+/**
+ * Find where hooks go: husky's script directory when husky manages core.hooksPath, otherwise
+ * git's hooks directory (which honors core.hooksPath)
+ */
+export async function resolveHooksLocation(cwd: string = process.cwd()): Promise<HooksLocation> {
+    const git = async (args: string[]) => (await runSecure('git', args, { cwd, suppressErrorLogging: true })).stdout.trim();
+    const topLevel = await git(['rev-parse', '--show-toplevel']);
+
+    let hooksPath = '';
+    try {
+        hooksPath = await git(['config', '--get', 'core.hooksPath']);
+    } catch {
+        // Not set
+    }
+    // husky 9 points core.hooksPath at .husky/_ (older versions at .husky)
+    if (/(^|\/)\.husky(\/_)?\/?$/.test(hooksPath)) {
+        return { directory: path.join(topLevel, '.husky'), husky: true };
+    }
+
+    return { directory: path.resolve(cwd, await git(['rev-parse', '--git-path', 'hooks'])), husky: false };
+}
+
+/**
+ * The managed block of shell that runs one kodrdriv hook
+ */
+export function buildHookBlock(name: HookName, command: string = DEFAULT_HOOK_COMMAND, chained = false): string {
+    const skipEnv = getSkipEnvName(name);
+    return [
+        BLOCK_START,
+        `# Installed by "kodrdriv hooks install". Set ${skipEnv}=1 (or ${SKIP_ALL_HOOKS_ENV}=1) to skip it.`,
+        ...(chained ? [
+            `if [ -x "$(dirname "$0")/${name}${CHAINED_SUFFIX}" ]; then`,
+            `    "$(dirname "$0")/${name}${CHAINED_SUFFIX}" "$@" || exit $?`,
+            'fi',
+        ] : []),
+        `if [ -z "$${skipEnv}" ] && [ -z "$${SKIP_ALL_HOOKS_ENV}" ]; then`,
+        `    ${command} hooks run ${name} "$@" || exit $?`,
+        'fi',
+        BLOCK_END,
+    ].join('\n');
+}
+
+const BLOCK_PATTERN = new RegExp(`\\n?${BLOCK_START.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[\\s\\S]*?${BLOCK_END.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\n?`);
+
+const readIfExists = async (file: string): Promise<string | null> => fs.readFile(file, 'utf-8').catch(() => null);
+const exists = async (file: string): Promise<boolean> => fs.access(file).then(() => true, () => false);
+
+/**
+ * Install one hook. An existing hook is kept: husky scripts get the block appended, other hooks
+ * are moved aside and run first. Installing again only refreshes the block.
+ */
+export async function installHook(location: HooksLocation, name: HookName, command?: string): Promise<HookStatus> {
+    const file = path.join(location.directory, name);
+    await fs.mkdir(location.directory, { recursive: true });
+    let content = await readIfExists(file);
+    let chained = await exists(`${file}${CHAINED_SUFFIX}`);
+
+    if (content !== null && !BLOCK_PATTERN.test(content) && !location.husky) {
+        // Someone else's hook, possibly not even a shell script: keep it as is and call it
+        await fs.rename(file, `${file}${CHAINED_SUFFIX}`);
+        chained = true;
+        content = null;
+    }
+
+    const block = buildHookBlock(name, command, chained);
+    let updated: string;
+    if (content === null) {
+        updated = location.husky ? `${block}\n` : `#!/bin/sh\n${block}\n`;
+    } else if (BLOCK_PATTERN.test(content)) {
+        updated = content.replace(BLOCK_PATTERN, `\n${block}\n`);
+    } else {
+        updated = `${content.replace(/\n*$/, '')}\n\n${block}\n`;
+    }
+
+    await fs.writeFile(file, updated.replace(/^\n/, ''), 'utf-8');
+    await fs.chmod(file, 0o755);
+    return getHookStatus(location, name);
+}
+
+/**
+ * Remove the kodrdriv block from one hook and put back a hook that was moved aside
+ */
+export async function uninstallHook(location: HooksLocation, name: HookName): Promise<HookStatus> {
+    const file = path.join(location.directory, name);
+    const content = await readIfExists(file);
+    const chainedFile = `${file}${CHAINED_SUFFIX}`;
+
+    if (content !== null && BLOCK_PATTERN.test(content)) {
+        const remaining = content.replace(BLOCK_PATTERN, '\n').trim();
+        if (remaining === '' || remaining === '#!/bin/sh') {
+            await fs.unlink(file);
+        } else {
+            await fs.writeFile(file, `${remaining}\n`, 'utf-8');
+        }
+    }
+
+    if (await exists(chainedFile) && !await exists(file)) {
+        await fs.rename(chainedFile, file);
+    }
+    return getHookStatus(location, name);
+}
+
+/**
+ * Whether a hook is installed and what else runs with it
+ */
+export async function getHookStatus(location: HooksLocation, name: HookName): Promise<HookStatus> {
+    const file = path.join(location.directory, name);
+    const content = await readIfExists(file);
+    const installed = content !== null && BLOCK_PATTERN.test(content);
+    const withoutBlock = content?.replace(BLOCK_PATTERN, '\n').replace('#!/bin/sh', '').trim();
+    return {
+        name,
+        path: file,
+        installed,
+        chained: await exists(`${file}${CHAINED_SUFFIX}`),
+        foreign: content !== null && (!installed || !!withoutBlock),
+    };
+}
@@ -0,0 +1,40 @@
+/**
+ * Glob matching for repository paths and branch names, shared by the redaction path policy,
+ * the pull conflict rules and the protected branch guard
+ */
+
+export interface GlobOptions {
+    matchBase?: boolean; // A pattern without a slash matches the file name in any directory (default true)
+}
+
+/**
+ * Convert a glob ("src/**\/*.ts", "*.pem", "secrets/") to a regex. "*" stays within one path
+ * segment and "**" matches across segments; a "**" directory segment also matches no directory
+ * at all. A trailing slash matches everything below a directory, and a leading "/" or "./"
+ * anchors the pattern at the root.
+ */
+export function globToRegExp(glob: string, { matchBase = true }: GlobOptions = {}): RegExp {
+    let pattern = glob.endsWith('/') ? `${glob}**` : glob;
+    const anyDirectory = matchBase && !pattern.includes('/');
+    pattern = pattern.replace(/^\.?\//, '');
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${anyDirectory ? '(?:.*/)?' : ''}${source}$`);
+}
+
+export function matchesGlob(value: string, pattern: string, options?: GlobOptions): boolean {
+    return globToRegExp(pattern, options).test(value);
+}
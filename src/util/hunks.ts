@@ -0,0 +1,285 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { runSecure } from '@grunnverk/git-tools';
+
+/**
+ * Line range of a single hunk, as shown in its `@@ -a,b +c,d @@` header
+ */
+export interface HunkRange {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+}
+
+/**
+ * A selection of hunks from one file's staged diff
+ */
+export interface HunkSelection {
+    file: string;
+    hunks: HunkRange[];
+}
+
+export interface DiffHunk extends HunkRange {
+    lines: string[]; // Includes the @@ header line
+}
+
+export interface FileDiff {
+    file: string;
+    header: string[]; // diff --git, index, ---, +++ and mode lines
+    hunks: DiffHunk[];
+    isBinary: boolean;
+    isNew: boolean;
+    isDeleted: boolean;
+}
+
+export interface HunkCoverage {
+    duplicated: string[];
+    missing: string[];
+    unknown: string[];
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Format a hunk range the way git prints it in hunk headers
+ */
+export function formatHunkRange(range: HunkRange): string {
+    return `-${range.oldStart},${range.oldLines} +${range.newStart},${range.newLines}`;
+}
+
+/**
+ * Parse a hunk range from "-a,b +c,d" (with or without the surrounding @@ markers)
+ */
+export function parseHunkRange(value: string): HunkRange | null {
+    const normalized = value.trim().startsWith('@@') ? value.trim() : `@@ ${value.trim()} @@`;
+    const match = normalized.match(HUNK_HEADER_PATTERN);
+    if (!match) {
+        return null;
+    }
+    return {
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+    };
+}
+
+function sameRange(a: HunkRange, b: HunkRange): boolean {
+    return a.oldStart === b.oldStart && a.oldLines === b.oldLines &&
+        a.newStart === b.newStart && a.newLines === b.newLines;
+}
+
+function hunkKey(file: string, range: HunkRange): string {
+    return `${file} @@ ${formatHunkRange(range)} @@`;
+}
+
+/**
+ * Parse a unified git diff (as produced by `git diff --no-renames`) into files and hunks
+ */
+export function parseDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    let current: FileDiff | null = null;
+    let currentHunk: DiffHunk | null = null;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+            current = {
+                file: match ? match[2] : line.substring('diff --git '.length),
+                header: [line],
+                hunks: [],
+                isBinary: false,
+                isNew: false,
+                isDeleted: false,
+            };
+            currentHunk = null;
+            files.push(current);
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+
+        const hunkMatch = line.match(HUNK_HEADER_PATTERN);
+        if (hunkMatch) {
+            const range = parseHunkRange(line)!;
+            currentHunk = { ...range, lines: [line] };
+            current.hunks.push(currentHunk);
+            continue;
+        }
+
+        if (currentHunk) {
+            // Hunk bodies only contain context, added, removed and "no newline" lines
+            if (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-') || line.startsWith('\\')) {
+                currentHunk.lines.push(line);
+            }
+            continue;
+        }
+
+        if (line.startsWith('new file mode')) {
+            current.isNew = true;
+        } else if (line.startsWith('deleted file mode')) {
+            current.isDeleted = true;
+        } else if (line.startsWith('Binary files') || line.startsWith('GIT binary patch')) {
+            current.isBinary = true;
+        }
+        current.header.push(line);
+    }
+
+    return files;
+}
+
+/**
+ * Resolve the requested ranges against a file's staged hunks.
+ * Ranges that do not match a staged hunk are returned separately.
+ */
+export function selectHunks(fileDiff: FileDiff, ranges: HunkRange[]): { selected: DiffHunk[]; unmatched: HunkRange[] } {
+    const selected: DiffHunk[] = [];
+    const unmatched: HunkRange[] = [];
+
+    for (const range of ranges) {
+        const hunk = fileDiff.hunks.find(h => sameRange(h, range));
+        if (hunk) {
+            if (!selected.includes(hunk)) {
+                selected.push(hunk);
+            }
+        } else {
+            unmatched.push(range);
+        }
+    }
+
+    // Keep the hunks in file order so the patch applies cleanly
+    selected.sort((a, b) => a.oldStart - b.oldStart);
+    return { selected, unmatched };
+}
+
+/**
+ * Build a patch containing only the selected hunks, suitable for `git apply --cached`
+ */
+export function buildPartialPatch(fileDiffs: FileDiff[], selections: HunkSelection[]): string {
+    const parts: string[] = [];
+
+    for (const selection of selections) {
+        const fileDiff = fileDiffs.find(f => f.file === selection.file);
+        if (!fileDiff) {
+            throw new Error(`No staged changes found for ${selection.file}`);
+        }
+        if (fileDiff.isBinary) {
+            throw new Error(`Cannot select hunks from binary file ${selection.file}`);
+        }
+
+        const { selected, unmatched } = selectHunks(fileDiff, selection.hunks);
+        if (unmatched.length > 0) {
+            throw new Error(`Hunks not found in staged diff of ${selection.file}: ${unmatched.map(formatHunkRange).join(', ')}`);
+        }
+        if ((fileDiff.isNew || fileDiff.isDeleted) && selected.length !== fileDiff.hunks.length) {
+            throw new Error(`Cannot partially stage ${fileDiff.isNew ? 'new' : 'deleted'} file ${selection.file}`);
+        }
+
+        parts.push(...fileDiff.header);
+        for (const hunk of selected) {
+            parts.push(...hunk.lines);
+        }
+    }
+
+    return parts.length > 0 ? `${parts.join('\n')}\n` : '';
+}
+
+/**
+ * Check that every staged hunk of every partially split file is claimed by exactly one split.
+ * Files that are only committed whole are not considered here.
+ */
+export function verifyHunkCoverage(fileDiffs: FileDiff[], selectionsPerSplit: HunkSelection[][]): HunkCoverage {
+    const claims = new Map<string, number>();
+    const unknown: string[] = [];
+    const partialFiles = new Set<string>();
+
+    for (const selections of selectionsPerSplit) {
+        for (const selection of selections) {
+            partialFiles.add(selection.file);
+            const fileDiff = fileDiffs.find(f => f.file === selection.file);
+            if (!fileDiff) {
+                unknown.push(selection.file);
+                continue;
+            }
+            const { selected, unmatched } = selectHunks(fileDiff, selection.hunks);
+            unmatched.forEach(range => unknown.push(hunkKey(selection.file, range)));
+            selected.forEach(hunk => {
+                const key = hunkKey(selection.file, hunk);
+                claims.set(key, (claims.get(key) || 0) + 1);
+            });
+        }
+    }
+
+    const duplicated: string[] = [];
+    const missing: string[] = [];
+    for (const file of partialFiles) {
+        const fileDiff = fileDiffs.find(f => f.file === file);
+        if (!fileDiff) {
+            continue;
+        }
+        for (const hunk of fileDiff.hunks) {
+            const count = claims.get(hunkKey(file, hunk)) || 0;
+            if (count === 0) {
+                missing.push(hunkKey(file, hunk));
+            } else if (count > 1) {
+                duplicated.push(hunkKey(file, hunk));
+            }
+        }
+    }
+
+    return { duplicated, missing, unknown };
+}
+
+/**
+ * Get the staged diff in a form that can be split into partial patches. With a base commit the
+ * index is compared against it instead of HEAD.
+ */
+export async function getStagedDiff(base?: string): Promise<string> {
+    const { stdout } = await runSecure('git', ['diff', '--cached', '--no-color', '--no-ext-diff', '--no-renames', '--src-prefix=a/', '--dst-prefix=b/', ...(base ? [base] : [])]);
+    return stdout;
+}
+
+/**
+ * Apply a patch to the index only, leaving the working tree untouched
+ */
+export async function applyPatchToIndex(patch: string): Promise<void> {
+    if (!patch.trim()) {
+        return;
+    }
+
+    const patchPath = path.join(os.tmpdir(), `kodrdriv_split_${Date.now()}_${Math.random().toString(36).substring(7)}.patch`);
+    await fs.writeFile(patchPath, patch, { encoding: 'utf-8', mode: 0o600 });
+    try {
+        await runSecure('git', ['apply', '--cached', '--whitespace=nowarn', patchPath]);
+    } finally {
+        await fs.unlink(patchPath).catch(() => { /* best effort cleanup */ });
+    }
+}
+
+/**
+ * Get the blob id of a file as currently staged, or null if it is not in the index
+ */
+export async function getIndexBlob(file: string): Promise<string | null> {
+    try {
+        const { stdout } = await runSecure('git', ['rev-parse', '--verify', '--quiet', `:${file}`], { suppressErrorLogging: true });
+        return stdout.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the blob id of a file in a commit, or null if it does not exist there
+ */
+export async function getCommitBlob(commit: string, file: string): Promise<string | null> {
+    try {
+        const { stdout } = await runSecure('git', ['rev-parse', '--verify', '--quiet', `${commit}:${file}`], { suppressErrorLogging: true });
+        return stdout.trim() || null;
+    } catch {
+        return null;
+    }
+}
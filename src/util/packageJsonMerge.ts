@@ -0,0 +1,134 @@
+/**
+ * Three-way merge of package.json: base, ours and theirs are merged field by field, dependency
+ * maps key by key, so only changes that really contradict each other are left for a person
+ */
+import semver from 'semver';
+
+export interface PackageJsonConflict {
+    path: string; // Dotted path of the field, e.g. "dependencies.react"
+    base?: unknown;
+    ours?: unknown;
+    theirs?: unknown;
+}
+
+export interface PackageJsonMergeResult {
+    merged: Record<string, unknown>;
+    conflicts: PackageJsonConflict[];
+}
+
+// Maps of package name to version range, where the higher range wins when both sides change it
+export const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies', 'resolutions'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The higher of two version ranges, or undefined when they cannot be ordered (git URLs,
+ * workspace: and file: specifiers, or ranges with the same lower bound)
+ */
+export function pickHigherRange(a: string, b: string): string | undefined {
+    const lower = (range: string) => {
+        try {
+            return semver.validRange(range) ? semver.minVersion(range) : null;
+        } catch {
+            return null;
+        }
+    };
+    const minA = lower(a);
+    const minB = lower(b);
+    if (!minA || !minB) {
+        return undefined;
+    }
+    const order = semver.compare(minA, minB);
+    return order === 0 ? undefined : order > 0 ? a : b;
+}
+
+// Keys of ours in order, followed by the keys only theirs has
+const mergedKeys = (...maps: Array<Record<string, unknown> | undefined>): string[] =>
+    Array.from(new Set(maps.flatMap(map => Object.keys(map || {}))));
+
+/**
+ * Merge one field. Values changed on only one side take that change; values both sides changed
+ * are merged by kind, and recorded as a conflict when they cannot be.
+ */
+function mergeValue(
+    path: string,
+    base: unknown,
+    ours: unknown,
+    theirs: unknown,
+    conflicts: PackageJsonConflict[]
+): unknown {
+    if (isEqual(ours, theirs) || isEqual(theirs, base)) {
+        return ours;
+    }
+    if (isEqual(ours, base)) {
+        return theirs;
+    }
+
+    const field = path.split('.')[0];
+    const depth = path.split('.').length;
+
+    if (path === 'version' && typeof ours === 'string' && typeof theirs === 'string' && semver.valid(ours) && semver.valid(theirs)) {
+        return semver.gt(ours, theirs) ? ours : theirs;
+    }
+    if (DEPENDENCY_FIELDS.includes(field) && depth === 2 && typeof ours === 'string' && typeof theirs === 'string') {
+        const higher = pickHigherRange(ours, theirs);
+        if (higher) {
+            return higher;
+        }
+    }
+    if (Array.isArray(ours) && Array.isArray(theirs) && [...ours, ...theirs].every(item => typeof item !== 'object')) {
+        // Keep what either side added and drop what either side removed
+        const removed = Array.isArray(base) ? base.filter(item => !ours.includes(item) || !theirs.includes(item)) : [];
+        return Array.from(new Set([...ours, ...theirs])).filter(item => !removed.includes(item));
+    }
+    if (isObject(ours) && isObject(theirs)) {
+        const baseMap = isObject(base) ? base : {};
+        const merged: Record<string, unknown> = {};
+        for (const key of mergedKeys(ours, theirs)) {
+            const value = mergeValue(`${path}.${key}`, baseMap[key], ours[key], theirs[key], conflicts);
+            if (value !== undefined) {
+                merged[key] = value;
+            }
+        }
+        return merged;
+    }
+
+    conflicts.push({ path, base, ours, theirs });
+    return ours;
+}
+
+/**
+ * Three-way merge of parsed package.json contents. Conflicting fields keep our value and are
+ * listed in `conflicts`.
+ */
+export function mergePackageJson(
+    base: Record<string, unknown> | undefined,
+    ours: Record<string, unknown>,
+    theirs: Record<string, unknown>
+): PackageJsonMergeResult {
+    const conflicts: PackageJsonConflict[] = [];
+    const merged: Record<string, unknown> = {};
+    for (const key of mergedKeys(ours, theirs)) {
+        const value = mergeValue(key, base?.[key], ours[key], theirs[key], conflicts);
+        if (value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return { merged, conflicts };
+}
+
+/**
+ * Serialize merged package.json contents with the indentation of an existing file
+ */
+export function stringifyPackageJson(merged: Record<string, unknown>, like: string): string {
+    const indent = like.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+    return `${JSON.stringify(merged, null, indent)}\n`;
+}
+
+export function formatPackageJsonConflicts(conflicts: PackageJsonConflict[]): string {
+    const show = (value: unknown) => value === undefined ? '(absent)' : JSON.stringify(value);
+    return conflicts.map(conflict => `  - ${conflict.path}: ours ${show(conflict.ours)}, theirs ${show(conflict.theirs)}, base ${show(conflict.base)}`).join('\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * Package manager detection and the commands that regenerate and check a package's lockfile
+ */
+import fs from 'fs/promises';
+import path from 'path';
+
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+export interface DetectedPackageManager {
+    name: PackageManagerName;
+    version?: string; // From the packageManager field
+    lockfile?: string; // Existing lockfile of the package, relative to its directory
+    source: 'packageManager' | 'lockfile' | 'default';
+}
+
+export interface LockfileCommands {
+    install: string; // Install dependencies and update the lockfile
+    lockfileOnly: string; // Update the lockfile without touching node_modules where the manager allows it
+    verify: string; // Fails when the lockfile does not match package.json
+}
+
+// Lockfile names in the order they are checked when a package has several
+export const LOCKFILES: Array<[string, PackageManagerName]> = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lock', 'bun'],
+    ['bun.lockb', 'bun'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+];
+
+export function getLockfileManager(file: string): PackageManagerName | undefined {
+    return LOCKFILES.find(([name]) => name === path.basename(file))?.[1];
+}
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+/**
+ * The package manager of the package in directory: the packageManager field of package.json
+ * ("pnpm@9.1.0") wins over the lockfile that is present; npm when there is neither
+ */
+export async function detectPackageManager(directory: string): Promise<DetectedPackageManager> {
+    let lockfile: string | undefined;
+    for (const [name] of LOCKFILES) {
+        if (await exists(path.join(directory, name))) {
+            lockfile = name;
+            break;
+        }
+    }
+
+    let declared: string | undefined;
+    try {
+        declared = JSON.parse(await fs.readFile(path.join(directory, 'package.json'), 'utf-8')).packageManager;
+    } catch {
+        // No readable package.json: go by the lockfile
+    }
+    const match = typeof declared === 'string' ? declared.match(/^(npm|yarn|pnpm|bun)@([^+\s]+)/) : null;
+    if (match) {
+        const name = match[1] as PackageManagerName;
+        const ownLockfile = LOCKFILES.find(([file, manager]) => manager === name && file === lockfile)?.[0];
+        return { name, version: match[2], ...(ownLockfile ? { lockfile: ownLockfile } : {}), source: 'packageManager' };
+    }
+    if (lockfile) {
+        return { name: getLockfileManager(lockfile)!, lockfile, source: 'lockfile' };
+    }
+    return { name: 'npm', source: 'default' };
+}
+
+/**
+ * Lockfile commands of a package manager. Yarn 2 and later (berry) has different flags than yarn 1,
+ * so a yarn version from the packageManager field selects them; without one yarn 1 is assumed.
+ */
+export function getLockfileCommands(manager: Pick<DetectedPackageManager, 'name' | 'version'>): LockfileCommands {
+    switch (manager.name) {
+        case 'yarn':
+            if (manager.version && Number(manager.version.split('.')[0]) >= 2) {
+                return {
+                    install: 'yarn install',
+                    lockfileOnly: 'yarn install --mode=update-lockfile',
+                    verify: 'yarn install --immutable --mode=skip-build',
+                };
+            }
+            return {
+                install: 'yarn install',
+                lockfileOnly: 'yarn install --ignore-scripts', // yarn 1 cannot update only the lockfile
+                verify: 'yarn install --frozen-lockfile --ignore-scripts',
+            };
+        case 'pnpm':
+            return {
+                install: 'pnpm install',
+                lockfileOnly: 'pnpm install --lockfile-only',
+                verify: 'pnpm install --frozen-lockfile --lockfile-only',
+            };
+        case 'bun':
+            return {
+                install: 'bun install',
+                lockfileOnly: 'bun install --lockfile-only',
+                verify: 'bun install --frozen-lockfile --dry-run',
+            };
+        default:
+            return {
+                install: 'npm install',
+                lockfileOnly: 'npm install --package-lock-only --ignore-scripts',
+                verify: 'npm ci --dry-run --ignore-scripts',
+            };
+    }
+}
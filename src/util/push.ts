@@ -0,0 +1,172 @@
+/**
+ * Pushing the current branch: upstream tracking, force-with-lease after amend, several remotes
+ * and a rebase-and-retry on non-fast-forward rejections
+ */
+import shellescape from 'shell-escape';
+import { run } from '@grunnverk/git-tools';
+import { ExternalDependencyError } from '@grunnverk/shared';
+import { withSigning, type SigningConfig } from './signing';
+
+export interface PushOptions {
+    remote?: string; // Defaults to origin
+    remotes?: string[]; // Push to each of these instead of a single remote
+    setUpstream?: boolean; // Track the first remote when the branch has no upstream yet (default true)
+    forceWithLease?: boolean | 'amend'; // Always, never, or only after an amend (default)
+    retries?: number; // Rebase-and-retry attempts after a non-fast-forward rejection (default 1, 0 turns it off)
+}
+
+// true pushes to origin, a string names the remote
+export type PushConfig = boolean | string | PushOptions;
+
+export type PushRejection = 'non-fast-forward' | 'stale-lease' | 'rebase-conflict' | 'error';
+
+export interface RemotePushResult {
+    remote: string;
+    branch: string;
+    success: boolean;
+    attempts: number;
+    forced: boolean; // Pushed with --force-with-lease
+    setUpstream: boolean;
+    rebased: boolean; // The branch was rebased onto the remote before a retry
+    rejection?: PushRejection;
+    error?: string;
+}
+
+export interface PushResult {
+    success: boolean;
+    dryRun: boolean;
+    remotes: RemotePushResult[];
+}
+
+export const DEFAULT_PUSH_RETRIES = 1;
+
+/**
+ * A push that failed for at least one remote. The per-remote outcome is in `result`.
+ */
+export class PushError extends ExternalDependencyError {
+    constructor(public readonly result: PushResult) {
+        super(`Failed to push to ${result.remotes.filter(remote => !remote.success).map(remote => `${remote.remote} (${remote.rejection})`).join(', ')}`, 'git');
+        this.name = 'PushError';
+    }
+}
+
+/**
+ * The push settings for a push config, or null when pushing is off
+ */
+export function resolvePushOptions(config: PushConfig | undefined): (Required<Omit<PushOptions, 'remote'>>) | null {
+    if (!config) {
+        return null;
+    }
+    const options: PushOptions = config === true ? {} : typeof config === 'string' ? { remote: config } : config;
+    return {
+        remotes: options.remotes && options.remotes.length > 0 ? options.remotes : [options.remote || 'origin'],
+        setUpstream: options.setUpstream ?? true,
+        forceWithLease: options.forceWithLease ?? 'amend',
+        retries: options.retries ?? DEFAULT_PUSH_RETRIES,
+    };
+}
+
+/**
+ * Why git rejected a push, from its output
+ */
+export function classifyPushFailure(output: string): PushRejection {
+    if (/\(stale info\)/.test(output)) {
+        return 'stale-lease';
+    }
+    if (/\(non-fast-forward\)|\(fetch first\)|Updates were rejected because the tip/.test(output)) {
+        return 'non-fast-forward';
+    }
+    return 'error';
+}
+
+const gitOutput = async (args: string[]): Promise<string> => {
+    try {
+        const result = await run(`git ${shellescape(args)}`, { suppressErrorLogging: true });
+        return (typeof result === 'string' ? result : result.stdout).trim();
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Push the current branch to every configured remote
+ */
+export async function pushCurrentBranch(
+    config: PushConfig | undefined,
+    context: { amended?: boolean; signing?: SigningConfig; dryRun?: boolean },
+    logger: any
+): Promise<PushResult> {
+    const options = resolvePushOptions(config);
+    const result: PushResult = { success: true, dryRun: !!context.dryRun, remotes: [] };
+    if (!options) {
+        return result;
+    }
+
+    const branch = await gitOutput(['rev-parse', '--abbrev-ref', 'HEAD']);
+    const hasUpstream = !!await gitOutput(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+    const forced = options.forceWithLease === true || (options.forceWithLease === 'amend' && !!context.amended);
+
+    for (const [index, remote] of options.remotes.entries()) {
+        const setUpstream = options.setUpstream && !hasUpstream && index === 0;
+        const pushArgs = ['push', ...(setUpstream ? ['--set-upstream'] : []), ...(forced ? ['--force-with-lease'] : []), remote, branch];
+        const remoteResult: RemotePushResult = { remote, branch, success: false, attempts: 0, forced, setUpstream, rebased: false };
+        result.remotes.push(remoteResult);
+
+        if (context.dryRun) {
+            logger.info('Would push to %s with: git %s', remote, pushArgs.join(' '));
+            remoteResult.success = true;
+            continue;
+        }
+
+        logger.info('🚀 Pushing %s to %s%s...', branch, remote, forced ? ' (force-with-lease)' : '');
+        while (!remoteResult.success) {
+            remoteResult.attempts++;
+            try {
+                await run(`git ${shellescape(pushArgs)}`, { suppressErrorLogging: true });
+                remoteResult.success = true;
+                delete remoteResult.rejection;
+                delete remoteResult.error;
+                logger.info('✅ Pushed to %s%s', remote, setUpstream ? ` and set it as upstream of ${branch}` : '');
+                break;
+            } catch (error: any) {
+                remoteResult.rejection = classifyPushFailure(`${error.stderr || ''}\n${error.stdout || ''}\n${error.message}`);
+                remoteResult.error = (error.stderr || error.message || '').trim();
+            }
+
+            // A forced push was rejected because someone else pushed: never overwrite that
+            if (remoteResult.rejection !== 'non-fast-forward' || forced || remoteResult.attempts > options.retries) {
+                break;
+            }
+
+            logger.warn('PUSH_REJECTED_NON_FAST_FORWARD: %s has commits this branch does not | Action: Rebasing onto %s/%s and retrying', remote, remote, branch);
+            try {
+                await run(`git ${shellescape(withSigning(['pull', '--rebase', '--autostash', remote, branch], context.signing))}`, { suppressErrorLogging: true });
+                remoteResult.rebased = true;
+            } catch (error: any) {
+                await run('git rebase --abort', { suppressErrorLogging: true }).catch(() => { /* no rebase to abort */ });
+                remoteResult.rejection = 'rebase-conflict';
+                remoteResult.error = `Rebase onto ${remote}/${branch} failed and was aborted: ${(error.stderr || error.message || '').trim()}`;
+                break;
+            }
+        }
+
+        if (!remoteResult.success) {
+            result.success = false;
+            logger.error('Failed to push to %s (%s): %s', remote, remoteResult.rejection, remoteResult.error);
+        }
+    }
+
+    return result;
+}
+
+export function formatPushResult(result: PushResult): string {
+    return result.remotes.map(remote => {
+        const details = [
+            remote.forced ? 'force-with-lease' : '',
+            remote.setUpstream ? 'upstream set' : '',
+            remote.rebased ? 'rebased before retry' : '',
+            remote.attempts > 1 ? `${remote.attempts} attempts` : '',
+        ].filter(Boolean).join(', ');
+        return `${remote.success ? '✅' : '❌'} ${remote.remote}/${remote.branch}${details ? ` (${details})` : ''}${remote.success ? '' : `: ${remote.rejection}`}`;
+    }).join('\n');
+}
@@ -0,0 +1,224 @@
+/**
+ * Redaction of the inputs sent to the AI: path policies for diffs, regex masks and hashing of identifiers
+ */
+import crypto from 'crypto';
+import path from 'path';
+import { globToRegExp } from './glob';
+
+export interface RedactionMask {
+    name?: string; // Shown in the placeholder and the report, defaults to the pattern
+    pattern: string;
+    flags?: string; // Regex flags, "g" is always added
+    replacement?: string; // Defaults to [REDACTED:<name>]
+    hash?: boolean; // Replace each match with a stable hash instead, so repeated values stay recognizable
+}
+
+export interface RedactionOptions {
+    enabled?: boolean; // Defaults to true once redaction is configured
+    allowPaths?: string[]; // Globs - when set, only these files' diffs are sent
+    denyPaths?: string[]; // Globs - these files' diffs are never sent
+    masks?: RedactionMask[];
+    hashEmails?: boolean;
+    internalHosts?: string[]; // Domains whose hostnames are hashed, e.g. "corp.example.com"
+    salt?: string; // Mixed into every hash
+}
+
+export interface RedactionReportEntry {
+    input: string; // e.g. diffContent, logContext
+    rule: string; // path, email, hostname or the mask name
+    count: number;
+}
+
+export interface RedactionReport {
+    createdAt: string;
+    command: string;
+    total: number;
+    entries: RedactionReportEntry[];
+}
+
+type Counts = Record<string, number>;
+
+const count = (counts: Counts, rule: string, amount = 1) => {
+    counts[rule] = (counts[rule] || 0) + amount;
+};
+
+export const isRedactionEnabled = (options?: RedactionOptions): options is RedactionOptions =>
+    !!options && options.enabled !== false;
+
+/**
+ * Whether a file's contents may be sent to the AI under the path policy
+ */
+export function isPathAllowed(file: string, options: RedactionOptions = {}): boolean {
+    const matches = (globs: string[] = []) => globs.some(glob => globToRegExp(glob).test(file));
+    if (options.allowPaths && options.allowPaths.length > 0 && !matches(options.allowPaths)) {
+        return false;
+    }
+    return !matches(options.denyPaths);
+}
+
+// Storage the AI tools read files through, e.g. the get_file_content tool
+export interface FileReadStorage {
+    readFile(fileName: string, encoding?: string): Promise<string>;
+}
+
+/**
+ * A path as the path policy sees it: relative to the working directory, with forward slashes
+ */
+export const toPolicyPath = (file: string): string => path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+
+/**
+ * Wrap the storage the AI tools read files through: files outside the path policy cannot be read,
+ * and everything that is read goes through redactText
+ */
+export function withRedactedReads<T extends FileReadStorage>(storage: T, options?: RedactionOptions): T {
+    if (!isRedactionEnabled(options)) {
+        return storage;
+    }
+    return {
+        ...storage,
+        readFile: async (fileName: string, encoding?: string) => {
+            if (!isPathAllowed(toPolicyPath(fileName), options)) {
+                throw new Error(`${fileName} is excluded from AI input by the redaction policy`);
+            }
+            return redactText(await storage.readFile(fileName, encoding), options).content;
+        },
+    };
+}
+
+/**
+ * Short stable hash of an identifier
+ */
+export function hashIdentifier(value: string, salt = ''): string {
+    return crypto.createHash('sha256').update(`${salt}${value.toLowerCase()}`).digest('hex').slice(0, 8);
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+const hostPattern = (domains: string[]) => new RegExp(
+    `\\b(?:[A-Za-z0-9-]+\\.)*(?:${domains.map(domain => domain.replace(/^\./, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`,
+    'gi'
+);
+
+/**
+ * Apply the masks and identifier hashing to free text
+ */
+export function redactText(text: string, options: RedactionOptions = {}): { content: string; counts: Counts } {
+    const counts: Counts = {};
+    if (!text || !isRedactionEnabled(options)) {
+        return { content: text, counts };
+    }
+    const salt = options.salt || '';
+    let content = text;
+
+    for (const mask of options.masks || []) {
+        const name = mask.name || mask.pattern;
+        const flags = mask.flags?.includes('g') ? mask.flags : `${mask.flags || ''}g`;
+        content = content.replace(new RegExp(mask.pattern, flags), match => {
+            count(counts, name);
+            return mask.hash ? `${name}-${hashIdentifier(match, salt)}` : mask.replacement ?? `[REDACTED:${name}]`;
+        });
+    }
+
+    if (options.hashEmails) {
+        content = content.replace(EMAIL_PATTERN, match => {
+            count(counts, 'email');
+            return `email-${hashIdentifier(match, salt)}`;
+        });
+    }
+
+    if (options.internalHosts && options.internalHosts.length > 0) {
+        content = content.replace(hostPattern(options.internalHosts), match => {
+            count(counts, 'hostname');
+            return `host-${hashIdentifier(match, salt)}`;
+        });
+    }
+
+    return { content, counts };
+}
+
+/**
+ * Redact a git diff: files outside the path policy keep only their header line, everything else
+ * goes through redactText
+ */
+export function redactDiff(diff: string, options: RedactionOptions = {}): { content: string; counts: Counts } {
+    const counts: Counts = {};
+    if (!diff || !isRedactionEnabled(options)) {
+        return { content: diff, counts };
+    }
+
+    const sections = diff.split(/^(?=diff --git )/m).map(section => {
+        const file = section.match(/^diff --git a\/.+ b\/(.+)$/m)?.[1];
+        if (!file || isPathAllowed(file, options)) {
+            return section;
+        }
+        count(counts, 'path');
+        return `${section.split('\n')[0]}\n[REDACTED:path excluded by redaction policy]\n`;
+    });
+
+    const redacted = redactText(sections.join(''), options);
+    Object.entries(redacted.counts).forEach(([rule, amount]) => count(counts, rule, amount));
+    return { content: redacted.content, counts };
+}
+
+/**
+ * Redact a set of named inputs. The inputs listed in diffInputs are treated as git diffs.
+ */
+export function redactInputs<T extends Record<string, string | undefined>>(
+    inputs: T,
+    options: RedactionOptions | undefined,
+    diffInputs: Array<keyof T> = []
+): { inputs: T; entries: RedactionReportEntry[] } {
+    if (!isRedactionEnabled(options)) {
+        return { inputs, entries: [] };
+    }
+
+    const redacted: Record<string, string | undefined> = { ...inputs };
+    const entries: RedactionReportEntry[] = [];
+    for (const [input, value] of Object.entries(inputs)) {
+        if (!value) {
+            continue;
+        }
+        const { content, counts } = diffInputs.includes(input) ? redactDiff(value, options) : redactText(value, options);
+        redacted[input] = content;
+        Object.entries(counts).forEach(([rule, amount]) => entries.push({ input, rule, count: amount }));
+    }
+    return { inputs: redacted as T, entries };
+}
+
+/**
+ * The report is written next to the debug request file: "<name>.request.json" -> "<name>.redaction.json"
+ */
+export function getRedactionReportPath(requestFile: string): string {
+    return requestFile.replace(/\.request\.json$/, '') + '.redaction.json';
+}
+
+export function createRedactionReport(command: string, entries: RedactionReportEntry[]): RedactionReport {
+    return {
+        createdAt: new Date().toISOString(),
+        command,
+        total: entries.reduce((sum, entry) => sum + entry.count, 0),
+        entries,
+    };
+}
+
+/**
+ * Write the report of one AI request's redactions next to its debug request file
+ */
+export async function writeRedactionReport(
+    storage: any,
+    requestFile: string,
+    command: string,
+    entries: RedactionReportEntry[],
+    logger: any
+): Promise<string | undefined> {
+    const report = createRedactionReport(command, entries);
+    const reportPath = getRedactionReportPath(requestFile);
+    try {
+        await storage.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+        logger.info('REDACTION_APPLIED: Redacted AI input | Command: %s | Redactions: %d | Report: %s', command, report.total, reportPath);
+        return reportPath;
+    } catch (error: any) {
+        logger.warn('Failed to write redaction report %s: %s', reportPath, error.message);
+        return undefined;
+    }
+}
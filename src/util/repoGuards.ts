@@ -0,0 +1,178 @@
+/**
+ * Repository state checks that run before kodrdriv commits, splits or pushes
+ */
+import { runSecure } from '@grunnverk/git-tools';
+import { ValidationError } from '@grunnverk/shared';
+import fs from 'fs/promises';
+import { matchesGlob } from './glob';
+
+export type GuardedAction = 'commit' | 'split' | 'push';
+export type GuardSeverity = 'block' | 'warn';
+export type InProgressOperation = 'rebase' | 'merge' | 'cherry-pick' | 'revert' | 'bisect' | 'am';
+
+export interface RepoGuardOptions {
+    enabled?: boolean; // Defaults to true
+    protectedBranches?: string[]; // Branch globs ("main", "release/*") that are not committed to directly
+    allowProtected?: boolean; // Warn instead of refusing on a protected branch
+    behindUpstream?: GuardSeverity | 'ignore'; // Defaults to warn
+}
+
+export interface RepoState {
+    branch: string;
+    detached: boolean;
+    operation?: InProgressOperation;
+    upstream?: string;
+    ahead: number;
+    behind: number;
+}
+
+export interface RepoGuardIssue {
+    guard: 'operation' | 'detached' | 'protected' | 'behind';
+    severity: GuardSeverity;
+    message: string;
+    remediation: string;
+}
+
+// Files git keeps in the git directory while an operation is in progress, checked in this order
+const OPERATION_MARKERS: Array<[string, InProgressOperation]> = [
+    ['rebase-merge', 'rebase'],
+    ['rebase-apply/applying', 'am'],
+    ['rebase-apply', 'rebase'],
+    ['MERGE_HEAD', 'merge'],
+    ['CHERRY_PICK_HEAD', 'cherry-pick'],
+    ['REVERT_HEAD', 'revert'],
+    ['BISECT_LOG', 'bisect'],
+];
+
+const OPERATION_REMEDIATION: Record<InProgressOperation, string> = {
+    'rebase': 'Finish the rebase with git rebase --continue, or abort it with git rebase --abort',
+    'merge': 'Conclude the merge with git commit, or abort it with git merge --abort',
+    'cherry-pick': 'Finish the cherry-pick with git cherry-pick --continue, or abort it with git cherry-pick --abort',
+    'revert': 'Finish the revert with git revert --continue, or abort it with git revert --abort',
+    'bisect': 'End the bisect session with git bisect reset',
+    'am': 'Finish applying patches with git am --continue, or abort with git am --abort',
+};
+
+const git = async (args: string[]): Promise<string> => {
+    try {
+        return (await runSecure('git', args, { suppressErrorLogging: true })).stdout.trim();
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Branch, in-progress operation and upstream distance of the current repository. The distance is
+ * measured against the last fetch; nothing is fetched here.
+ */
+export async function detectRepoState(): Promise<RepoState> {
+    let operation: InProgressOperation | undefined;
+    for (const [marker, name] of OPERATION_MARKERS) {
+        const markerPath = await git(['rev-parse', '--path-format=absolute', '--git-path', marker]);
+        if (markerPath && await fs.access(markerPath).then(() => true, () => false)) {
+            operation = name;
+            break;
+        }
+    }
+
+    const head = await git(['rev-parse', '--abbrev-ref', 'HEAD']);
+    const detached = head === 'HEAD';
+    const branch = detached ? '' : head;
+    const upstream = branch ? await git(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']) : '';
+    let ahead = 0;
+    let behind = 0;
+    if (upstream) {
+        [ahead, behind] = (await git(['rev-list', '--left-right', '--count', 'HEAD...@{upstream}'])).split(/\s+/).map(count => Number(count) || 0);
+    }
+
+    return { branch, detached, ...(operation ? { operation } : {}), ...(upstream ? { upstream } : {}), ahead, behind };
+}
+
+/**
+ * Whether a branch matches one of the protected branch globs. "*" stays within one path segment,
+ * "**" matches across segments.
+ */
+export function isProtectedBranch(branch: string, patterns: string[] = []): boolean {
+    return patterns.some(pattern => matchesGlob(branch, pattern, { matchBase: false }));
+}
+
+/**
+ * Problems with the repository state for an action. Blocking issues should stop the action.
+ */
+export function checkRepoGuards(state: RepoState, action: GuardedAction, options: RepoGuardOptions = {}): RepoGuardIssue[] {
+    if (options.enabled === false) {
+        return [];
+    }
+    const issues: RepoGuardIssue[] = [];
+
+    if (state.operation) {
+        issues.push({
+            guard: 'operation',
+            severity: 'block',
+            message: `A ${state.operation} is in progress`,
+            remediation: OPERATION_REMEDIATION[state.operation],
+        });
+    }
+
+    if (state.detached) {
+        issues.push({
+            guard: 'detached',
+            severity: 'block',
+            message: 'HEAD is detached, so new commits would not be on any branch',
+            remediation: 'Create or switch to a branch first: git switch -c <branch>',
+        });
+    } else if (state.branch && isProtectedBranch(state.branch, options.protectedBranches)) {
+        issues.push({
+            guard: 'protected',
+            severity: options.allowProtected ? 'warn' : 'block',
+            message: `${state.branch} is a protected branch`,
+            remediation: options.allowProtected
+                ? 'Make sure you meant to work on this branch directly'
+                : 'Move the work to a feature branch (git switch -c <branch>), or set commit.guards.allowProtected',
+        });
+    }
+
+    const behindSeverity = options.behindUpstream ?? 'warn';
+    if (state.behind > 0 && behindSeverity !== 'ignore') {
+        issues.push({
+            guard: 'behind',
+            severity: behindSeverity,
+            message: `${state.branch} is ${state.behind} commit(s) behind ${state.upstream}`,
+            remediation: action === 'push'
+                ? 'Bring in the upstream changes before pushing: kodrdriv pull'
+                : 'Bring in the upstream changes first to avoid conflicts later: kodrdriv pull',
+        });
+    }
+
+    return issues;
+}
+
+export function formatGuardIssues(issues: RepoGuardIssue[]): string {
+    return issues.map(issue => `  ${issue.severity === 'block' ? '✗' : '!'} ${issue.message}\n    → ${issue.remediation}`).join('\n');
+}
+
+/**
+ * Check the repository before an action: warnings are logged, blocking issues throw. In dry-run
+ * mode blocking issues are only reported.
+ */
+export async function enforceRepoGuards(action: GuardedAction, options: RepoGuardOptions | undefined, logger: any, isDryRun = false): Promise<RepoGuardIssue[]> {
+    if (options?.enabled === false) {
+        return [];
+    }
+    const issues = checkRepoGuards(await detectRepoState(), action, options);
+    const blocking = issues.filter(issue => issue.severity === 'block');
+    const warnings = issues.filter(issue => issue.severity === 'warn');
+
+    if (warnings.length > 0) {
+        logger.warn('REPO_GUARD_WARNING: Repository state needs attention before %s | Issues: %d\n%s', action, warnings.length, formatGuardIssues(warnings));
+    }
+    if (blocking.length > 0) {
+        if (isDryRun) {
+            logger.warn('REPO_GUARD_WOULD_BLOCK: A real run would refuse to %s | Issues: %d\n%s', action, blocking.length, formatGuardIssues(blocking));
+        } else {
+            logger.error('REPO_GUARD_BLOCKED: Refusing to %s | Issues: %d\n%s', action, blocking.length, formatGuardIssues(blocking));
+            throw new ValidationError(`Refusing to ${action}: ${blocking.map(issue => issue.message).join('; ')}. ${blocking.map(issue => issue.remediation).join('. ')}.`);
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,265 @@
+/**
+ * Secret scanning of diffs with regex, path and entropy rules
+ */
+import { FileReadStorage, toPolicyPath } from './redaction';
+
+export interface SecretRule {
+    id: string;
+    description: string;
+    pattern?: RegExp; // Content rule - the first capture group, or the whole match, is the secret
+    path?: RegExp; // Path rule - any change to a matching file is a finding
+    entropy?: { minLength: number; threshold: number }; // Random-looking strings of at least minLength
+    ignorePaths?: RegExp; // Files the rule does not apply to
+}
+
+// Rules as written in the config file, with patterns as strings
+export interface SecretRuleConfig {
+    id: string;
+    description?: string;
+    pattern?: string;
+    path?: string;
+    entropy?: { minLength?: number; threshold?: number };
+    ignorePaths?: string;
+}
+
+export interface SecretScanOptions {
+    enabled?: boolean; // Defaults to true
+    rules?: SecretRuleConfig[]; // Added to the built-in rules
+    disable?: string[]; // Ids of built-in rules to turn off
+    allow?: string[]; // Regexes for values that are known not to be secrets, e.g. test fixtures
+}
+
+export interface SecretFinding {
+    ruleId: string;
+    description: string;
+    file: string;
+    line?: number; // Line in the new version of the file, unset for path rules
+    preview: string; // Masked value, safe to print
+}
+
+const LOCKFILES = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/;
+
+export const DEFAULT_SECRET_RULES: SecretRule[] = [
+    { id: 'private-key', description: 'Private key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY(?: BLOCK)?-----/ },
+    { id: 'aws-access-key', description: 'AWS access key id', pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/ },
+    { id: 'github-token', description: 'GitHub token', pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+    { id: 'slack-token', description: 'Slack token', pattern: /\b(xox[abposr]-[A-Za-z0-9-]{10,})\b/ },
+    { id: 'openai-key', description: 'OpenAI API key', pattern: /\b(sk-(?:proj-)?[A-Za-z0-9_-]{20,})\b/ },
+    { id: 'google-api-key', description: 'Google API key', pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/ },
+    { id: 'stripe-key', description: 'Stripe secret key', pattern: /\b((?:sk|rk)_live_[0-9A-Za-z]{16,})\b/ },
+    {
+        id: 'credential-assignment',
+        description: 'Hard-coded credential',
+        pattern: /(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["']([^\s"'$<>{}]{8,})["']/i,
+    },
+    { id: 'env-file', description: 'Environment file', path: /(^|\/)\.env(\.(?!example$|sample$|template$)[\w.-]+)?$/ },
+    { id: 'private-key-file', description: 'Private key file', path: /(^|\/)(id_(rsa|dsa|ecdsa|ed25519)|[^/]+\.(pem|p12|pfx|key))$/ },
+    { id: 'high-entropy-string', description: 'High-entropy string', entropy: { minLength: 32, threshold: 4.5 }, ignorePaths: LOCKFILES },
+];
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/**
+ * Built-in rules plus the configured ones, minus the disabled ones
+ */
+export function compileSecretRules(options: SecretScanOptions = {}): SecretRule[] {
+    const disabled = new Set(options.disable || []);
+    const custom = (options.rules || []).map((rule): SecretRule => ({
+        id: rule.id,
+        description: rule.description || rule.id,
+        ...(rule.pattern ? { pattern: new RegExp(rule.pattern) } : {}),
+        ...(rule.path ? { path: new RegExp(rule.path) } : {}),
+        ...(rule.entropy ? { entropy: { minLength: rule.entropy.minLength ?? 32, threshold: rule.entropy.threshold ?? 4.5 } } : {}),
+        ...(rule.ignorePaths ? { ignorePaths: new RegExp(rule.ignorePaths) } : {}),
+    }));
+    return [...DEFAULT_SECRET_RULES.filter(rule => !disabled.has(rule.id)), ...custom];
+}
+
+const maskValue = (value: string) => value.length <= 8 ? '****' : `${value.slice(0, 4)}****`;
+
+// Every secret value a content rule finds in one line
+function findSecretsInLine(line: string, rule: SecretRule, allow: RegExp[]): string[] {
+    const values: string[] = [];
+    if (rule.pattern) {
+        const global = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+        for (const match of line.matchAll(global)) {
+            values.push(match[1] ?? match[0]);
+        }
+    }
+    if (rule.entropy) {
+        const { minLength, threshold } = rule.entropy;
+        for (const match of line.matchAll(new RegExp(`[A-Za-z0-9+/=_-]{${minLength},}`, 'g'))) {
+            if (shannonEntropy(match[0]) >= threshold) {
+                values.push(match[0]);
+            }
+        }
+    }
+    // Placeholders of an earlier redaction pass are not secrets either
+    return values.filter(value => !value.includes('[REDACTED:') && !allow.some(pattern => pattern.test(value)));
+}
+
+// Replace the secrets the content rules find in one line with placeholders
+function redactLine(text: string, file: string, rules: SecretRule[], allow: RegExp[]): { text: string; redactions: number } {
+    let redactions = 0;
+    for (const rule of rules) {
+        if (rule.ignorePaths?.test(file)) {
+            continue;
+        }
+        for (const value of findSecretsInLine(text, rule, allow)) {
+            text = text.split(value).join(`[REDACTED:${rule.id}]`);
+            redactions++;
+        }
+    }
+    return { text, redactions };
+}
+
+interface DiffLine {
+    file: string;
+    line: number; // Line number in the new file
+    text: string; // Without the + marker
+}
+
+// Files a diff adds or changes; deleting a sensitive file is not a finding
+function changedFiles(diff: string): string[] {
+    return diff.split(/^(?=diff --git )/m)
+        .filter(section => section.startsWith('diff --git ') && !/^deleted file mode/m.test(section))
+        .map(section => section.match(/^diff --git a\/.+ b\/(.+)$/m)?.[1])
+        .filter((file): file is string => !!file);
+}
+
+function* walkDiff(diff: string): Generator<DiffLine> {
+    let file = '';
+    let newLine = 0;
+    for (const raw of diff.split('\n')) {
+        if (raw.startsWith('diff --git ')) {
+            file = raw.match(/ b\/(.+)$/)?.[1] || file;
+        } else if (raw.startsWith('+++ ') || raw.startsWith('--- ')) {
+            continue;
+        } else if (raw.startsWith('@@')) {
+            newLine = Number(raw.match(/\+(\d+)/)?.[1] || 0);
+        } else if (raw.startsWith('+')) {
+            yield { file, line: newLine++, text: raw.slice(1) };
+        } else if (raw.startsWith(' ')) {
+            newLine++;
+        }
+    }
+}
+
+/**
+ * Scan the lines a diff adds for secrets, and its files for sensitive paths
+ */
+export function scanDiffForSecrets(diff: string, options: SecretScanOptions = {}): SecretFinding[] {
+    if (options.enabled === false) {
+        return [];
+    }
+    const rules = compileSecretRules(options);
+    const allow = (options.allow || []).map(pattern => new RegExp(pattern));
+    const findings: SecretFinding[] = [];
+
+    for (const file of changedFiles(diff)) {
+        rules.filter(rule => rule.path?.test(file)).forEach(rule => {
+            findings.push({ ruleId: rule.id, description: rule.description, file, preview: file });
+        });
+    }
+
+    for (const entry of walkDiff(diff)) {
+        for (const rule of rules) {
+            if (rule.ignorePaths?.test(entry.file)) {
+                continue;
+            }
+            for (const value of findSecretsInLine(entry.text, rule, allow)) {
+                findings.push({ ruleId: rule.id, description: rule.description, file: entry.file, line: entry.line, preview: maskValue(value) });
+            }
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Replace every secret in a diff with a placeholder. Changed lines of files matched by a
+ * path rule are replaced completely.
+ */
+export function redactSecrets(diff: string, options: SecretScanOptions = {}): { content: string; redactions: number } {
+    if (options.enabled === false) {
+        return { content: diff, redactions: 0 };
+    }
+    const rules = compileSecretRules(options);
+    const allow = (options.allow || []).map(pattern => new RegExp(pattern));
+    let redactions = 0;
+    let file = '';
+
+    const lines = diff.split('\n').map(line => {
+        if (line.startsWith('diff --git ')) {
+            file = line.match(/ b\/(.+)$/)?.[1] || file;
+            return line;
+        }
+        if (!/^[+ -]/.test(line) || line.startsWith('+++ ') || line.startsWith('--- ')) {
+            return line;
+        }
+        if (rules.some(rule => rule.path?.test(file))) {
+            redactions++;
+            return `${line[0]}[REDACTED:sensitive file]`;
+        }
+
+        const redacted = redactLine(line.slice(1), file, rules, allow);
+        redactions += redacted.redactions;
+        return `${line[0]}${redacted.text}`;
+    });
+
+    return { content: lines.join('\n'), redactions };
+}
+
+/**
+ * Whether any change to the file is a finding, e.g. .env files and private keys
+ */
+export function isSensitivePath(file: string, options: SecretScanOptions = {}): boolean {
+    return options.enabled !== false && compileSecretRules(options).some(rule => rule.path?.test(file));
+}
+
+/**
+ * Wrap the storage the AI tools read files through: sensitive files and the files with findings
+ * cannot be read, and secrets in everything else are masked as in the diff
+ */
+export function withSecretsRedactedReads<T extends FileReadStorage>(storage: T, options: SecretScanOptions = {}, findingFiles: string[] = []): T {
+    if (options.enabled === false) {
+        return storage;
+    }
+    const rules = compileSecretRules(options);
+    const allow = (options.allow || []).map(pattern => new RegExp(pattern));
+    const blocked = new Set(findingFiles);
+    return {
+        ...storage,
+        readFile: async (fileName: string, encoding?: string) => {
+            const file = toPolicyPath(fileName);
+            if (blocked.has(file) || rules.some(rule => rule.path?.test(file))) {
+                throw new Error(`${fileName} may contain secrets and is not sent to the AI`);
+            }
+            const content = await storage.readFile(fileName, encoding);
+            return content.split('\n').map(line => redactLine(line, file, rules, allow).text).join('\n');
+        },
+    };
+}
+
+/**
+ * One line per finding, with masked values
+ */
+export function formatSecretFindings(findings: SecretFinding[]): string {
+    return findings
+        .map(f => `- ${f.file}${f.line ? `:${f.line}` : ''} ${f.description} (${f.ruleId})${f.line ? ` ${f.preview}` : ''}`)
+        .join('\n');
+}
@@ -0,0 +1,74 @@
+import { runSecure } from '@grunnverk/git-tools';
+
+export interface SigningOptions {
+    key?: string; // GPG key id, or SSH key file / public key when format is ssh
+    format?: 'openpgp' | 'ssh' | 'x509';
+}
+
+// true signs with git's configured user.signingKey and gpg.format
+export type SigningConfig = boolean | SigningOptions;
+
+export interface SignatureVerificationOptions {
+    allowUntrusted?: boolean; // Accept good signatures from keys without full trust
+}
+
+export type SignatureStatus = 'good' | 'untrusted' | 'missing' | 'bad' | 'expired' | 'revoked' | 'unverifiable';
+
+export interface CommitSignature {
+    sha: string;
+    status: SignatureStatus;
+    signer: string;
+    subject: string;
+}
+
+/**
+ * Add the signing flags to a git command. args[0] is the subcommand, e.g. ['commit', '-m', message].
+ * The signature format is passed as a one-off config option before the subcommand.
+ */
+export function withSigning(args: string[], signing: SigningConfig | undefined): string[] {
+    if (!signing) {
+        return args;
+    }
+    const options = signing === true ? {} : signing;
+    const [subcommand, ...rest] = args;
+    return [
+        ...(options.format ? ['-c', `gpg.format=${options.format}`] : []),
+        subcommand,
+        options.key ? `--gpg-sign=${options.key}` : '--gpg-sign',
+        ...rest,
+    ];
+}
+
+// Codes of git's %G? placeholder
+const SIGNATURE_CODES: Record<string, SignatureStatus> = {
+    G: 'good',
+    U: 'untrusted',
+    N: 'missing',
+    B: 'bad',
+    X: 'expired',
+    Y: 'expired',
+    R: 'revoked',
+    E: 'unverifiable',
+};
+
+/**
+ * Signature status of every commit in a revision range, e.g. "HEAD..origin/main"
+ */
+export async function getCommitSignatures(range: string): Promise<CommitSignature[]> {
+    const { stdout } = await runSecure('git', ['log', '--format=%H%x09%G?%x09%GS%x09%s', range], { suppressErrorLogging: true });
+    return stdout.split('\n').filter(line => line.trim()).map(line => {
+        const [sha, code, signer, ...subject] = line.split('\t');
+        return { sha, status: SIGNATURE_CODES[code] || 'unverifiable', signer, subject: subject.join('\t') };
+    });
+}
+
+/**
+ * Commits whose signature is missing or not trusted enough
+ */
+export function findRejectedSignatures(
+    signatures: CommitSignature[],
+    options: SignatureVerificationOptions = {}
+): CommitSignature[] {
+    return signatures.filter(signature =>
+        !(signature.status === 'good' || (signature.status === 'untrusted' && options.allowUntrusted)));
+}
@@ -0,0 +1,111 @@
+import { runSecure } from '@grunnverk/git-tools';
+
+/**
+ * Refs recording the repository state before a split commit run, so it can be rolled back
+ */
+export const SPLIT_BACKUP_HEAD_REF = 'refs/kodrdriv/split-backup/head';
+export const SPLIT_BACKUP_INDEX_REF = 'refs/kodrdriv/split-backup/index';
+
+export interface SplitBackup {
+    head: string | null; // null when the split run started on an unborn branch
+    index: string; // Commit wrapping the tree of the index
+    branch: string | null;
+    createdAt: string;
+}
+
+async function git(args: string[]): Promise<string> {
+    const { stdout } = await runSecure('git', args, { suppressErrorLogging: true });
+    return stdout.trim();
+}
+
+async function tryGit(args: string[]): Promise<string | null> {
+    try {
+        return await git(args);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Record HEAD and the index under the split backup refs
+ */
+export async function createSplitBackup(): Promise<SplitBackup> {
+    const head = await tryGit(['rev-parse', '--verify', '--quiet', 'HEAD']);
+    const branch = await tryGit(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+    const createdAt = new Date().toISOString();
+
+    // The index is preserved as a commit so it is reachable and survives gc
+    const tree = await git(['write-tree']);
+    const message = [
+        'kodrdriv split backup',
+        '',
+        `branch: ${branch || '(detached)'}`,
+        `head: ${head || '(none)'}`,
+        `created: ${createdAt}`,
+    ].join('\n');
+    const index = await git(['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message]);
+
+    await git(['update-ref', SPLIT_BACKUP_INDEX_REF, index]);
+    if (head) {
+        await git(['update-ref', SPLIT_BACKUP_HEAD_REF, head]);
+    } else {
+        await tryGit(['update-ref', '-d', SPLIT_BACKUP_HEAD_REF]);
+    }
+
+    return { head, index, branch, createdAt };
+}
+
+/**
+ * Read the recorded split backup, or null if none exists
+ */
+export async function readSplitBackup(): Promise<SplitBackup | null> {
+    const index = await tryGit(['rev-parse', '--verify', '--quiet', SPLIT_BACKUP_INDEX_REF]);
+    if (!index) {
+        return null;
+    }
+
+    const head = await tryGit(['rev-parse', '--verify', '--quiet', SPLIT_BACKUP_HEAD_REF]);
+    const body = await tryGit(['log', '-1', '--format=%B', index]) || '';
+    const branchMatch = body.match(/^branch: (.+)$/m);
+    const createdMatch = body.match(/^created: (.+)$/m);
+    const branch = branchMatch && branchMatch[1] !== '(detached)' ? branchMatch[1] : null;
+
+    return { head, index, branch, createdAt: createdMatch ? createdMatch[1] : '' };
+}
+
+/**
+ * Reset HEAD and the index to the recorded backup. The working tree is left untouched,
+ * so the changes of any commits that are undone come back as staged changes.
+ */
+export async function restoreSplitBackup(backup: SplitBackup): Promise<void> {
+    if (backup.head) {
+        await git(['reset', '--soft', backup.head]);
+    } else {
+        // The run started before the first commit - make the branch unborn again
+        await git(['update-ref', '-d', 'HEAD']);
+    }
+    await git(['read-tree', `${backup.index}^{tree}`]);
+}
+
+/**
+ * Check whether HEAD only moved forward from the backup, i.e. nothing was rewritten since
+ */
+export async function isBackupAncestorOfHead(backup: SplitBackup): Promise<boolean> {
+    if (!backup.head) {
+        return true;
+    }
+    try {
+        await git(['merge-base', '--is-ancestor', backup.head, 'HEAD']);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Remove the split backup refs
+ */
+export async function clearSplitBackup(): Promise<void> {
+    await tryGit(['update-ref', '-d', SPLIT_BACKUP_HEAD_REF]);
+    await tryGit(['update-ref', '-d', SPLIT_BACKUP_INDEX_REF]);
+}
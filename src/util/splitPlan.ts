@@ -0,0 +1,155 @@
+import { ValidationError } from '@grunnverk/shared';
+import { HunkSelection, formatHunkRange, parseHunkRange } from './hunks';
+
+/**
+ * Version of the split plan file format. Bump when the shape changes incompatibly.
+ */
+export const SPLIT_PLAN_VERSION = 1;
+
+export interface PlannedSplit {
+    files: string[];
+    hunks?: HunkSelection[];
+    message: string;
+    rationale: string;
+}
+
+export interface SplitPlan {
+    version: number;
+    createdAt: string;
+    baseCommit?: string; // HEAD when the plan was made
+    model?: string;
+    splits: PlannedSplit[];
+}
+
+// On disk, hunk ranges are written the way git prints them ("-12,4 +12,6") so plans stay easy to edit
+interface SerializedHunkSelection {
+    file: string;
+    hunks: string[];
+}
+
+/**
+ * Build a split plan from split suggestions
+ */
+export function createSplitPlan(
+    splits: PlannedSplit[],
+    metadata: { baseCommit?: string; model?: string } = {}
+): SplitPlan {
+    return {
+        version: SPLIT_PLAN_VERSION,
+        createdAt: new Date().toISOString(),
+        ...(metadata.baseCommit ? { baseCommit: metadata.baseCommit } : {}),
+        ...(metadata.model ? { model: metadata.model } : {}),
+        splits: splits.map(split => ({
+            files: [...split.files],
+            ...(split.hunks && split.hunks.length > 0 ? { hunks: split.hunks } : {}),
+            message: split.message,
+            rationale: split.rationale,
+        })),
+    };
+}
+
+/**
+ * Serialize a split plan to pretty-printed JSON
+ */
+export function serializeSplitPlan(plan: SplitPlan): string {
+    const serialized = {
+        ...plan,
+        splits: plan.splits.map(split => ({
+            ...split,
+            ...(split.hunks ? {
+                hunks: split.hunks.map((selection): SerializedHunkSelection => ({
+                    file: selection.file,
+                    hunks: selection.hunks.map(formatHunkRange),
+                })),
+            } : {}),
+        })),
+    };
+    return `${JSON.stringify(serialized, null, 2)}\n`;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Parse and validate a split plan. Throws a ValidationError describing the first problem found.
+ */
+export function parseSplitPlan(content: string, source: string = 'split plan'): SplitPlan {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (error: any) {
+        throw new ValidationError(`${source} is not valid JSON: ${error.message}`);
+    }
+
+    if (!data || typeof data !== 'object') {
+        throw new ValidationError(`${source} must contain a JSON object`);
+    }
+    if (data.version !== SPLIT_PLAN_VERSION) {
+        throw new ValidationError(`${source} has unsupported version ${data.version} (expected ${SPLIT_PLAN_VERSION})`);
+    }
+    if (!Array.isArray(data.splits) || data.splits.length === 0) {
+        throw new ValidationError(`${source} must contain at least one split`);
+    }
+
+    const splits: PlannedSplit[] = data.splits.map((split: any, index: number) => {
+        const label = `${source} split ${index + 1}`;
+        if (!split || typeof split !== 'object') {
+            throw new ValidationError(`${label} is not an object`);
+        }
+        if (typeof split.message !== 'string' || !split.message.trim()) {
+            throw new ValidationError(`${label} is missing a commit message`);
+        }
+        const files = split.files ?? [];
+        if (!isStringArray(files)) {
+            throw new ValidationError(`${label} has an invalid files list`);
+        }
+
+        let hunks: HunkSelection[] | undefined;
+        if (split.hunks !== undefined) {
+            if (!Array.isArray(split.hunks)) {
+                throw new ValidationError(`${label} has an invalid hunks list`);
+            }
+            hunks = split.hunks.map((selection: any) => {
+                if (!selection || typeof selection.file !== 'string' || !Array.isArray(selection.hunks)) {
+                    throw new ValidationError(`${label} has an invalid hunk selection`);
+                }
+                return {
+                    file: selection.file,
+                    hunks: selection.hunks.map((range: any) => {
+                        const parsed = typeof range === 'string' ? parseHunkRange(range) : range;
+                        if (!parsed || [parsed.oldStart, parsed.oldLines, parsed.newStart, parsed.newLines].some(n => typeof n !== 'number')) {
+                            throw new ValidationError(`${label} has an invalid hunk range for ${selection.file}: ${JSON.stringify(range)}`);
+                        }
+                        return parsed;
+                    }),
+                };
+            });
+        }
+
+        if (files.length === 0 && (!hunks || hunks.length === 0)) {
+            throw new ValidationError(`${label} has no files or hunks`);
+        }
+
+        return {
+            files,
+            ...(hunks ? { hunks } : {}),
+            message: split.message,
+            rationale: typeof split.rationale === 'string' ? split.rationale : '',
+        };
+    });
+
+    return {
+        version: data.version,
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+        ...(typeof data.baseCommit === 'string' ? { baseCommit: data.baseCommit } : {}),
+        ...(typeof data.model === 'string' ? { model: data.model } : {}),
+        splits,
+    };
+}
+
+/**
+ * Filename for a saved split plan
+ */
+export function getSplitPlanFilename(date: Date = new Date()): string {
+    return `split-plan-${date.toISOString().replace(/[:.]/g, '-')}.json`;
+}
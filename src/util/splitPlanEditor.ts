@@ -0,0 +1,182 @@
+import { ValidationError } from '@grunnverk/shared';
+import { HunkSelection, formatHunkRange } from './hunks';
+import { PlannedSplit } from './splitPlan';
+
+/**
+ * Editing operations for the split planning screen. Every operation returns a new list of splits
+ * and leaves its input untouched; split numbers are zero-based indexes here.
+ */
+
+function checkIndex(splits: PlannedSplit[], index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= splits.length) {
+        throw new ValidationError(`There is no split ${index + 1} (plan has ${splits.length} splits)`);
+    }
+}
+
+function containsFile(split: PlannedSplit, file: string): boolean {
+    return split.files.includes(file) || (split.hunks || []).some(selection => selection.file === file);
+}
+
+function hasContent(split: PlannedSplit): boolean {
+    return split.files.length > 0 || (split.hunks || []).some(selection => selection.hunks.length > 0);
+}
+
+/**
+ * Take a file (whole or its hunk selection) out of a split
+ */
+function takeFile(split: PlannedSplit, file: string): { split: PlannedSplit; files: string[]; hunks: HunkSelection[] } {
+    const files = split.files.filter(f => f === file);
+    const hunks = (split.hunks || []).filter(selection => selection.file === file);
+    return {
+        split: {
+            ...split,
+            files: split.files.filter(f => f !== file),
+            ...(split.hunks ? { hunks: split.hunks.filter(selection => selection.file !== file) } : {}),
+        },
+        files,
+        hunks,
+    };
+}
+
+function addContent(split: PlannedSplit, files: string[], hunks: HunkSelection[]): PlannedSplit {
+    const mergedHunks = [...(split.hunks || [])];
+    for (const selection of hunks) {
+        const existing = mergedHunks.findIndex(s => s.file === selection.file);
+        if (existing >= 0) {
+            mergedHunks[existing] = { file: selection.file, hunks: [...mergedHunks[existing].hunks, ...selection.hunks] };
+        } else {
+            mergedHunks.push(selection);
+        }
+    }
+
+    // A whole file absorbs any hunk selection for the same file
+    const mergedFiles = Array.from(new Set([...split.files, ...files]));
+    const remainingHunks = mergedHunks.filter(selection => !mergedFiles.includes(selection.file));
+
+    return {
+        ...split,
+        files: mergedFiles,
+        ...(remainingHunks.length > 0 ? { hunks: remainingHunks } : {}),
+    };
+}
+
+/**
+ * Move a file, including any hunk selection of it, from one split to another.
+ * The source split is dropped when it has nothing left.
+ */
+export function moveFileBetweenSplits(splits: PlannedSplit[], file: string, from: number, to: number): PlannedSplit[] {
+    checkIndex(splits, from);
+    checkIndex(splits, to);
+    if (from === to) {
+        return splits;
+    }
+
+    if (!containsFile(splits[from], file)) {
+        throw new ValidationError(`Split ${from + 1} does not contain ${file}`);
+    }
+
+    const taken = takeFile(splits[from], file);
+    const result = splits.map((split, index) => {
+        if (index === from) {
+            return taken.split;
+        }
+        if (index === to) {
+            return addContent(split, taken.files, taken.hunks);
+        }
+        return split;
+    });
+    return result.filter(hasContent);
+}
+
+/**
+ * Merge the second split into the first. The first split keeps its position and message.
+ */
+export function mergeSplits(splits: PlannedSplit[], first: number, second: number): PlannedSplit[] {
+    checkIndex(splits, first);
+    checkIndex(splits, second);
+    if (first === second) {
+        throw new ValidationError('Cannot merge a split with itself');
+    }
+
+    const target = splits[first];
+    const source = splits[second];
+    const merged: PlannedSplit = {
+        ...addContent(target, source.files, source.hunks || []),
+        rationale: [target.rationale, source.rationale].filter(Boolean).join(' '),
+    };
+
+    return splits
+        .map((split, index) => index === first ? merged : split)
+        .filter((_, index) => index !== second);
+}
+
+/**
+ * Create a new split at the end of the plan from files taken out of the existing splits
+ */
+export function createSplit(splits: PlannedSplit[], files: string[], message: string): PlannedSplit[] {
+    if (files.length === 0) {
+        throw new ValidationError('A new split needs at least one file');
+    }
+    if (!message.trim()) {
+        throw new ValidationError('A new split needs a commit message');
+    }
+
+    let result = [...splits];
+    let created: PlannedSplit = { files: [], message, rationale: 'Created in the split plan editor' };
+    for (const file of files) {
+        const index = result.findIndex(split => containsFile(split, file));
+        if (index < 0) {
+            throw new ValidationError(`No split contains ${file}`);
+        }
+        const taken = takeFile(result[index], file);
+        result = result.map((split, i) => i === index ? taken.split : split);
+        created = addContent(created, taken.files, taken.hunks);
+    }
+
+    return [...result.filter(hasContent), created];
+}
+
+/**
+ * Move a split to a new position in the commit order
+ */
+export function reorderSplit(splits: PlannedSplit[], from: number, to: number): PlannedSplit[] {
+    checkIndex(splits, from);
+    checkIndex(splits, to);
+    const result = [...splits];
+    const [moved] = result.splice(from, 1);
+    result.splice(to, 0, moved);
+    return result;
+}
+
+/**
+ * Replace the commit message of one split
+ */
+export function setSplitMessage(splits: PlannedSplit[], index: number, message: string): PlannedSplit[] {
+    checkIndex(splits, index);
+    if (!message.trim()) {
+        throw new ValidationError('Commit message cannot be empty');
+    }
+    return splits.map((split, i) => i === index ? { ...split, message } : split);
+}
+
+/**
+ * One line per file of a split, with hunk ranges for partial files
+ */
+export function formatSplitContents(split: PlannedSplit): string[] {
+    return [
+        ...split.files,
+        ...(split.hunks || []).map(selection => `${selection.file} (hunks: ${selection.hunks.map(formatHunkRange).join(', ')})`),
+    ];
+}
+
+/**
+ * Parse a one-based split number typed by the user into an index
+ */
+export function parseSplitNumber(input: string, splits: PlannedSplit[]): number {
+    const value = Number(input.trim());
+    if (!input.trim() || !Number.isInteger(value)) {
+        throw new ValidationError(`"${input.trim()}" is not a split number`);
+    }
+    checkIndex(splits, value - 1);
+    return value - 1;
+}
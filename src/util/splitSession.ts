@@ -0,0 +1,118 @@
+import { runSecure } from '@grunnverk/git-tools';
+import { ValidationError } from '@grunnverk/shared';
+import { PlannedSplit } from './splitPlan';
+
+export const SPLIT_SESSION_FILENAME = 'split-session.json';
+export const SPLIT_SESSION_VERSION = 1;
+
+/**
+ * A split commit run in progress, saved after every step so it can be resumed with `commit --resume`
+ */
+export interface SplitSession {
+    version: number;
+    startedAt: string;
+    updatedAt: string;
+    baseCommit?: string; // HEAD before the first split commit
+    splits: PlannedSplit[];
+    completed: Array<{ index: number; sha?: string; message: string }>;
+    skipped: number[];
+    messages: Record<string, string>; // Edited commit messages by split index
+    fingerprints: Record<string, string | null>; // Working tree blob per file, null if deleted
+    stagedDiff?: string; // Staged diff of partially split files, needed to stage their hunks
+    stagedBlobs?: Record<string, string | null>; // Staged blob of each partially split file, to verify the result
+}
+
+/**
+ * Start a new session for the given splits
+ */
+export function createSplitSession(
+    splits: PlannedSplit[],
+    state: {
+        baseCommit?: string;
+        fingerprints: Record<string, string | null>;
+        stagedDiff?: string;
+        stagedBlobs?: Record<string, string | null>;
+    }
+): SplitSession {
+    const now = new Date().toISOString();
+    return {
+        version: SPLIT_SESSION_VERSION,
+        startedAt: now,
+        updatedAt: now,
+        ...(state.baseCommit ? { baseCommit: state.baseCommit } : {}),
+        splits,
+        completed: [],
+        skipped: [],
+        messages: {},
+        fingerprints: state.fingerprints,
+        ...(state.stagedDiff ? { stagedDiff: state.stagedDiff, stagedBlobs: state.stagedBlobs || {} } : {}),
+    };
+}
+
+/**
+ * Indexes of the splits that have neither been committed nor skipped
+ */
+export function getPendingSplitIndexes(session: SplitSession): number[] {
+    const done = new Set<number>([...session.completed.map(c => c.index), ...session.skipped]);
+    return session.splits.map((_, index) => index).filter(index => !done.has(index));
+}
+
+/**
+ * The commit HEAD should point at when the session is resumed
+ */
+export function getExpectedHead(session: SplitSession): string | undefined {
+    const lastCommitted = [...session.completed].reverse().find(c => c.sha);
+    return lastCommitted?.sha || session.baseCommit;
+}
+
+export function parseSplitSession(content: string, source: string = SPLIT_SESSION_FILENAME): SplitSession {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (error: any) {
+        throw new ValidationError(`${source} is not valid JSON: ${error.message}`);
+    }
+
+    if (!data || data.version !== SPLIT_SESSION_VERSION) {
+        throw new ValidationError(`${source} has unsupported version ${data?.version} (expected ${SPLIT_SESSION_VERSION})`);
+    }
+    if (!Array.isArray(data.splits) || !Array.isArray(data.completed) || !Array.isArray(data.skipped)) {
+        throw new ValidationError(`${source} is missing split progress`);
+    }
+
+    return {
+        ...data,
+        messages: data.messages || {},
+        fingerprints: data.fingerprints || {},
+    };
+}
+
+export function serializeSplitSession(session: SplitSession): string {
+    return `${JSON.stringify({ ...session, updatedAt: new Date().toISOString() }, null, 2)}\n`;
+}
+
+/**
+ * Hash the working tree content of each file, recording null for files that no longer exist
+ */
+export async function getWorkingTreeFingerprints(files: string[]): Promise<Record<string, string | null>> {
+    const fingerprints: Record<string, string | null> = {};
+    for (const file of files) {
+        try {
+            const { stdout } = await runSecure('git', ['hash-object', '--', file], { suppressErrorLogging: true });
+            fingerprints[file] = stdout.trim();
+        } catch {
+            fingerprints[file] = null;
+        }
+    }
+    return fingerprints;
+}
+
+/**
+ * Files whose current fingerprint differs from the recorded one
+ */
+export function findFingerprintMismatches(
+    expected: Record<string, string | null>,
+    actual: Record<string, string | null>
+): string[] {
+    return Object.keys(expected).filter(file => (actual[file] ?? null) !== expected[file]);
+}
@@ -0,0 +1,189 @@
+import { runSecure } from '@grunnverk/git-tools';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SigningConfig, withSigning } from './signing';
+import { parseTrailers, uniqueTrailers } from './trailers';
+
+export interface VerifiedSplitCommit {
+    sha: string;
+    message: string;
+    green: boolean;
+    repair?: 'reordered' | 'merged'; // How the commit was changed to make it build
+}
+
+export interface SplitVerificationResult {
+    commits: VerifiedSplitCommit[];
+    head: string;
+    rewritten: boolean; // True when commits were reordered or merged and HEAD moved
+}
+
+export interface SplitVerificationOptions {
+    base: string | null; // Commit the split run started from, null on an unborn branch
+    check: (packageDir: string) => Promise<void>; // Throws when the package fails its checks
+    signing?: SigningConfig; // Sign the commits that are rewritten
+    logger: any;
+}
+
+interface ChainCommit {
+    sha: string;
+    tree: string;
+    message: string;
+}
+
+/**
+ * Message of two commits merged into one: both texts, then the trailers of both once at the end
+ */
+export function mergeCommitMessages(first: string, second: string): string {
+    const [a, b] = [parseTrailers(first), parseTrailers(second)];
+    const trailers = uniqueTrailers([...a.trailers, ...b.trailers]);
+    const body = `${a.body}\n\n${b.body}`;
+    // Not through appendTrailers: a second subject alone would pass for a trailer block
+    return trailers.length > 0 ? `${body}\n\n${trailers.map(trailer => `${trailer.key}: ${trailer.value}`).join('\n')}` : body;
+}
+
+async function git(args: string[], cwd?: string): Promise<string> {
+    const { stdout } = await runSecure('git', args, { suppressErrorLogging: true, ...(cwd ? { cwd } : {}) });
+    return stdout.trim();
+}
+
+async function readChain(base: string | null): Promise<ChainCommit[]> {
+    const output = await git(['rev-list', '--reverse', base ? `${base}..HEAD` : 'HEAD']);
+    const chain: ChainCommit[] = [];
+    for (const sha of output.split('\n').filter(Boolean)) {
+        chain.push({
+            sha,
+            tree: await git(['rev-parse', `${sha}^{tree}`]),
+            message: await git(['log', '-1', '--format=%B', sha]),
+        });
+    }
+    return chain;
+}
+
+async function commitTree(tree: string, parent: string | null, message: string, signing?: SigningConfig): Promise<string> {
+    return await git(withSigning(['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', message], signing));
+}
+
+// Share the installed dependencies with the verification worktree instead of installing them again
+async function linkNodeModules(repoRoot: string, worktree: string, relativeDir: string): Promise<void> {
+    for (const dir of Array.from(new Set(['', relativeDir]))) {
+        const source = path.join(repoRoot, dir, 'node_modules');
+        const target = path.join(worktree, dir, 'node_modules');
+        try {
+            await fs.access(source);
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.symlink(source, target, 'dir');
+        } catch {
+            // No dependencies installed there, or already linked
+        }
+    }
+}
+
+/**
+ * Build-check every commit created by a split run, from the oldest, in a temporary worktree.
+ * When a commit fails, first try swapping it with the next commit, then try merging the two.
+ * If that changes the history, HEAD is moved to the rewritten commits; the final tree is always the same.
+ */
+export async function verifySplitCommits(options: SplitVerificationOptions): Promise<SplitVerificationResult> {
+    const { base, check, signing, logger } = options;
+    const originalHead = await git(['rev-parse', 'HEAD']);
+    const chain = await readChain(base);
+
+    const repoRoot = await git(['rev-parse', '--show-toplevel']);
+    const relativeDir = path.relative(repoRoot, process.cwd());
+    const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-verify-'));
+    await git(['worktree', 'add', '--detach', '--force', worktree, originalHead]);
+    await linkNodeModules(repoRoot, worktree, relativeDir);
+
+    const isGreen = async (sha: string): Promise<boolean> => {
+        await git(['checkout', '--detach', '--force', sha], worktree);
+        await git(['clean', '-fdxq', '-e', 'node_modules'], worktree);
+        try {
+            await check(path.join(worktree, relativeDir));
+            return true;
+        } catch (error: any) {
+            logger.debug(`Checks failed on ${sha.substring(0, 7)}: ${error.message}`);
+            return false;
+        }
+    };
+
+    // Tree of `parent` with only the changes `commit` made on top of `previous`
+    const applyOnto = async (parent: string, previous: string, commit: string): Promise<string | null> => {
+        const patchFile = path.join(worktree, '..', `${path.basename(worktree)}.patch`);
+        try {
+            await git(['checkout', '--detach', '--force', parent], worktree);
+            const { stdout: patch } = await runSecure('git', ['diff', '--binary', previous, commit], { suppressErrorLogging: true });
+            await fs.writeFile(patchFile, patch, 'utf-8');
+            await git(['apply', '--index', patchFile], worktree);
+            return await git(['write-tree'], worktree);
+        } catch {
+            return null;
+        } finally {
+            await fs.rm(patchFile, { force: true });
+        }
+    };
+
+    const verified: VerifiedSplitCommit[] = [];
+    let parent = base;
+    try {
+        for (let i = 0; i < chain.length; i++) {
+            const current = chain[i];
+            const next = chain[i + 1];
+            // Once anything was rewritten, later commits keep their trees but need new parents
+            const sha = parent === (i === 0 ? base : chain[i - 1].sha) ? current.sha : await commitTree(current.tree, parent, current.message, signing);
+
+            logger.info(`🔨 Verifying commit ${i + 1} of ${chain.length}: ${current.message.split('\n')[0]}`);
+            if (await isGreen(sha)) {
+                verified.push({ sha, message: current.message, green: true });
+                parent = sha;
+                continue;
+            }
+
+            if (next) {
+                // Reorder: the next commit first, then the failing one on top of it
+                const swappedTree = parent ? await applyOnto(parent, current.sha, next.sha) : null;
+                if (swappedTree) {
+                    const first = await commitTree(swappedTree, parent, next.message, signing);
+                    if (await isGreen(first)) {
+                        const second = await commitTree(next.tree, first, current.message, signing);
+                        if (await isGreen(second)) {
+                            logger.info(`🔀 Commit ${i + 1} builds after commit ${i + 2} - swapped them`);
+                            verified.push({ sha: first, message: next.message, green: true, repair: 'reordered' });
+                            verified.push({ sha: second, message: current.message, green: true, repair: 'reordered' });
+                            parent = second;
+                            i++;
+                            continue;
+                        }
+                    }
+                }
+
+                // Merge: the failing commit and the next one as a single commit
+                const message = mergeCommitMessages(current.message, next.message);
+                const merged = await commitTree(next.tree, parent, message, signing);
+                if (await isGreen(merged)) {
+                    logger.info(`🔗 Commit ${i + 1} builds when merged with commit ${i + 2} - merged them`);
+                    verified.push({ sha: merged, message, green: true, repair: 'merged' });
+                    parent = merged;
+                    i++;
+                    continue;
+                }
+            }
+
+            logger.warn(`⚠️  Commit ${i + 1} does not pass the checks: ${current.message.split('\n')[0]}`);
+            verified.push({ sha, message: current.message, green: false });
+            parent = sha;
+        }
+    } finally {
+        await git(['worktree', 'remove', '--force', worktree]).catch(() => undefined);
+        await fs.rm(worktree, { recursive: true, force: true });
+    }
+
+    const head = parent || originalHead;
+    const rewritten = head !== originalHead;
+    if (rewritten) {
+        // The rewritten history ends in the same tree, so only HEAD has to move
+        await git(['update-ref', '-m', 'kodrdriv: verified split commits', 'HEAD', head, originalHead]);
+    }
+
+    return { commits: verified, head, rewritten };
+}
@@ -0,0 +1,169 @@
+import { runSecure } from '@grunnverk/git-tools';
+import fs from 'fs/promises';
+import os from 'os';
+
+export interface Trailer {
+    key: string;
+    value: string;
+}
+
+export interface TrailerOptions {
+    signOff?: boolean; // Add Signed-off-by with the committer identity (DCO)
+    coAuthors?: string[]; // "Name <email>" entries added as Co-authored-by
+    detectPairing?: boolean; // Also take Co-authored-by lines from the configured commit template
+    issueRefs?: boolean | 'Refs' | 'Closes'; // Reference issues found in the branch name (true means Refs)
+    custom?: Record<string, string | string[]>; // Any other trailers, e.g. { Reviewed-by: 'Jane <jane@example.com>' }
+}
+
+const TRAILER_PATTERN = /^([A-Za-z0-9][A-Za-z0-9-]*): (.+)$/;
+
+/**
+ * Split a commit message into its text and the trailer block of its last paragraph, if it has one
+ */
+export function parseTrailers(message: string): { body: string; trailers: Trailer[] } {
+    const trimmed = message.replace(/\s+$/, '');
+    const paragraphs = trimmed.split(/\n\s*\n/);
+    // The header alone is never a trailer block
+    if (paragraphs.length < 2) {
+        return { body: trimmed, trailers: [] };
+    }
+
+    const lastParagraph = paragraphs[paragraphs.length - 1];
+    const lines = lastParagraph.split('\n');
+    const trailers: Trailer[] = [];
+    for (const line of lines) {
+        const match = line.match(TRAILER_PATTERN);
+        if (match) {
+            trailers.push({ key: match[1], value: match[2].trim() });
+        } else if (/^\s+\S/.test(line) && trailers.length > 0) {
+            // Folded continuation of the previous trailer
+            trailers[trailers.length - 1].value += ` ${line.trim()}`;
+        } else {
+            return { body: trimmed, trailers: [] };
+        }
+    }
+
+    return { body: trimmed.slice(0, trimmed.length - lastParagraph.length).replace(/\s+$/, ''), trailers };
+}
+
+const trailerId = (trailer: Trailer) => `${trailer.key.toLowerCase()}: ${trailer.value.trim().replace(/\s+/g, ' ').toLowerCase()}`;
+
+/**
+ * Trailers in order without the empty and repeated ones (keys compare case-insensitively)
+ */
+export function uniqueTrailers(trailers: Trailer[]): Trailer[] {
+    const seen = new Set<string>();
+    return trailers.filter(trailer => {
+        if (!trailer.value.trim() || seen.has(trailerId(trailer))) {
+            return false;
+        }
+        seen.add(trailerId(trailer));
+        return true;
+    }).map(trailer => ({ key: trailer.key, value: trailer.value.trim() }));
+}
+
+/**
+ * Add trailers to a commit message in git trailer format. Trailers already present, in the
+ * message or earlier in the list, are not repeated (keys compare case-insensitively).
+ */
+export function appendTrailers(message: string, trailers: Trailer[]): string {
+    const { body, trailers: existing } = parseTrailers(message);
+    const seen = new Set(existing.map(trailerId));
+    const merged = [...existing];
+    for (const trailer of trailers) {
+        if (!trailer.value.trim() || seen.has(trailerId(trailer))) {
+            continue;
+        }
+        seen.add(trailerId(trailer));
+        merged.push({ key: trailer.key, value: trailer.value.trim() });
+    }
+
+    if (merged.length === 0) {
+        return message;
+    }
+    return `${body}\n\n${merged.map(trailer => `${trailer.key}: ${trailer.value}`).join('\n')}`;
+}
+
+// Numbers in a branch name that start a segment ("123-login", "fix/42") or follow an issue marker ("issue-7", "gh-12", "#5")
+const ISSUE_NUMBER_PATTERN = /(?:^|\/)(\d+)(?=$|[/-])|(?:^|[/_-])(?:issues?[-/]?|gh-?|#)(\d+)(?=$|[/_-])/gi;
+
+// A segment that starts with a year ("2024-refactor") is not an issue number
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+/**
+ * Issue references found in a branch name, e.g. "feature/123-login" -> ["#123"],
+ * "fix/PROJ-45-crash" -> ["PROJ-45"]. Other numbers (years, versions) are not references.
+ */
+export function getIssueRefsFromBranch(branch: string): string[] {
+    const refs: string[] = [];
+    for (const match of branch.matchAll(/(?:^|[/_-])([A-Z][A-Z0-9]+-\d+)(?=$|[/_-])/g)) {
+        refs.push(match[1]);
+    }
+    if (refs.length > 0) {
+        return refs;
+    }
+    for (const match of branch.matchAll(ISSUE_NUMBER_PATTERN)) {
+        if (match[2] || !YEAR_PATTERN.test(match[1])) {
+            refs.push(`#${match[2] || match[1]}`);
+        }
+    }
+    return Array.from(new Set(refs));
+}
+
+async function tryGit(args: string[]): Promise<string | null> {
+    try {
+        const { stdout } = await runSecure('git', args, { suppressErrorLogging: true });
+        return stdout.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Co-authors listed in the commit template, where pairing tools such as git-mob keep the current pair
+ */
+export async function detectPairingCoAuthors(): Promise<string[]> {
+    const template = await tryGit(['config', '--path', '--get', 'commit.template']);
+    if (!template) {
+        return [];
+    }
+    try {
+        const content = await fs.readFile(template.replace(/^~(?=$|\/)/, os.homedir()), 'utf-8');
+        return content.split('\n')
+            .map(line => line.match(/^Co-authored-by:\s*(.+)$/i)?.[1]?.trim())
+            .filter((value): value is string => !!value);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Work out the trailers to add for the given options
+ */
+export async function resolveTrailers(options: TrailerOptions): Promise<Trailer[]> {
+    const trailers: Trailer[] = [];
+
+    if (options.signOff) {
+        // "Name <email> 1700000000 +0100" - drop the timestamp
+        const ident = await tryGit(['var', 'GIT_COMMITTER_IDENT']);
+        const identity = ident?.match(/^(.+?>)/)?.[1];
+        if (identity) {
+            trailers.push({ key: 'Signed-off-by', value: identity });
+        }
+    }
+
+    const coAuthors = [...(options.coAuthors || []), ...(options.detectPairing ? await detectPairingCoAuthors() : [])];
+    coAuthors.forEach(author => trailers.push({ key: 'Co-authored-by', value: author }));
+
+    if (options.issueRefs) {
+        const branch = await tryGit(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+        const key = options.issueRefs === true ? 'Refs' : options.issueRefs;
+        getIssueRefsFromBranch(branch || '').forEach(ref => trailers.push({ key, value: ref }));
+    }
+
+    for (const [key, value] of Object.entries(options.custom || {})) {
+        (Array.isArray(value) ? value : [value]).forEach(item => trailers.push({ key, value: item }));
+    }
+
+    return trailers;
+}
@@ -0,0 +1,192 @@
+/**
+ * Union merge for changelogs and other append-only files: the lines both sides added are kept, in
+ * a stable order and without duplicates. Markdown is merged section by section, so entries end up
+ * under the version heading (and category heading) they were written under.
+ */
+import semver from 'semver';
+
+interface Section {
+    heading: string;
+    key: string;
+    lines: string[]; // Body below the heading
+}
+
+interface SplitDocument {
+    intro: string[]; // Lines before the first heading
+    sections: Section[];
+}
+
+const MAX_HEADING_LEVEL = 4;
+
+const isBlank = (line: string) => line.trim() === '';
+const isEqual = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Three-way union of line lists. Ours is kept as it is, minus the lines theirs removed; the lines
+ * theirs added are inserted after the line they followed on their side, behind anything ours added
+ * at the same place. Blank lines only come along from theirs inside a block of added lines.
+ */
+export function mergeUnionLines(base: string[], ours: string[], theirs: string[]): string[] {
+    if (isEqual(ours, theirs) || isEqual(theirs, base)) {
+        return ours;
+    }
+    if (isEqual(ours, base)) {
+        return theirs;
+    }
+
+    const baseLines = new Set(base.filter(line => !isBlank(line)));
+    const theirLines = new Set(theirs.filter(line => !isBlank(line)));
+    const ourLines = new Set(ours.filter(line => !isBlank(line)));
+    const removed = new Set(Array.from(baseLines).filter(line => !ourLines.has(line) || !theirLines.has(line)));
+    const result = ours.filter(line => !removed.has(line));
+    const addedByUs = (line: string) => !isBlank(line) && !baseLines.has(line) && !theirLines.has(line);
+
+    let cursor = 0;
+    let previousInserted = false;
+    theirs.forEach((line, i) => {
+        if (isBlank(line)) {
+            const next = theirs.slice(i + 1).find(candidate => !isBlank(candidate));
+            if (previousInserted && next !== undefined && !baseLines.has(next) && !result.includes(next)) {
+                result.splice(cursor++, 0, line);
+            }
+            return;
+        }
+        const existing = result.indexOf(line, cursor);
+        const index = existing === -1 ? result.indexOf(line) : existing;
+        if (index !== -1) {
+            cursor = index + 1;
+            previousInserted = false;
+            return;
+        }
+        if (baseLines.has(line)) {
+            // Removed by us
+            previousInserted = false;
+            return;
+        }
+        while (!previousInserted && cursor < result.length && addedByUs(result[cursor])) {
+            cursor++;
+        }
+        result.splice(cursor++, 0, line);
+        previousInserted = true;
+    });
+    return result;
+}
+
+/**
+ * Identity of a heading across both sides: the version of a release heading ("## [1.2.0] - 2024-05-01",
+ * "## v1.2.0"), "unreleased", or the heading text
+ */
+export function getSectionKey(heading: string): string {
+    const text = heading.replace(/^#+\s*/, '').trim();
+    if (/^\[?unreleased\]?/i.test(text)) {
+        return 'unreleased';
+    }
+    const version = text.match(/^\[?v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)\]?/);
+    return version ? version[1] : text.toLowerCase();
+}
+
+function splitSections(lines: string[], level: number): SplitDocument {
+    const marker = `${'#'.repeat(level)} `;
+    const document: SplitDocument = { intro: [], sections: [] };
+    let inFence = false;
+    for (const line of lines) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+        if (!inFence && line.startsWith(marker)) {
+            document.sections.push({ heading: line, key: getSectionKey(line), lines: [] });
+        } else if (document.sections.length > 0) {
+            document.sections[document.sections.length - 1].lines.push(line);
+        } else {
+            document.intro.push(line);
+        }
+    }
+    return document;
+}
+
+/**
+ * Where a section only theirs has goes: between versions when the released versions are listed
+ * newest first, otherwise after the section it followed on their side
+ */
+function findSectionPosition(sections: Section[], section: Section, anchor: number): number {
+    const versions = sections.filter(candidate => semver.valid(candidate.key));
+    const descending = versions.every((candidate, i) => i === 0 || semver.gt(versions[i - 1].key, candidate.key));
+    if (semver.valid(section.key) && versions.length > 0 && descending) {
+        const older = sections.findIndex(candidate => semver.valid(candidate.key) && semver.gt(section.key, candidate.key));
+        return older === -1 ? sections.indexOf(versions[versions.length - 1]) + 1 : older;
+    }
+    return anchor;
+}
+
+function mergeSections(base: Section[], ours: Section[], theirs: Section[], level: number): Section[] {
+    const find = (sections: Section[], key: string) => sections.find(section => section.key === key);
+    const baseKeys = new Set(base.map(section => section.key));
+    const theirKeys = new Set(theirs.map(section => section.key));
+
+    // A section one side removed stays removed, unless the other side changed it
+    const result: Section[] = ours.filter(section => {
+        const original = find(base, section.key);
+        return theirKeys.has(section.key) || !original || !isEqual(original.lines, section.lines);
+    }).map(section => {
+        const other = find(theirs, section.key);
+        return other
+            ? { ...section, lines: mergeMarkdownLines(find(base, section.key)?.lines ?? [], section.lines, other.lines, level + 1) }
+            : section;
+    });
+
+    let anchor = 0;
+    for (const section of theirs) {
+        const index = result.findIndex(candidate => candidate.key === section.key);
+        if (index !== -1) {
+            anchor = index + 1;
+            continue;
+        }
+        const original = find(base, section.key);
+        if (original && isEqual(original.lines, section.lines)) {
+            continue; // Removed by us
+        }
+        while (anchor < result.length && !baseKeys.has(result[anchor].key) && !theirKeys.has(result[anchor].key)) {
+            anchor++;
+        }
+        const position = findSectionPosition(result, section, anchor);
+        result.splice(position, 0, section);
+        anchor = position + 1;
+    }
+    return result;
+}
+
+function mergeMarkdownLines(base: string[], ours: string[], theirs: string[], level: number): string[] {
+    if (level > MAX_HEADING_LEVEL) {
+        return mergeUnionLines(base, ours, theirs);
+    }
+    const [baseDocument, ourDocument, theirDocument] = [base, ours, theirs].map(lines => splitSections(lines, level));
+    if (ourDocument.sections.length === 0 && theirDocument.sections.length === 0) {
+        return mergeMarkdownLines(base, ours, theirs, level + 1);
+    }
+    const intro = mergeMarkdownLines(baseDocument.intro, ourDocument.intro, theirDocument.intro, level + 1);
+    const sections = mergeSections(baseDocument.sections, ourDocument.sections, theirDocument.sections, level);
+    return [...intro, ...sections.flatMap(section => [section.heading, ...section.lines])];
+}
+
+/**
+ * Merge the lines of a Markdown document by heading: sections with the same heading (or the same
+ * version) are merged with each other, and new sections are placed among the existing ones
+ */
+export function mergeMarkdownUnion(base: string[], ours: string[], theirs: string[]): string[] {
+    return mergeMarkdownLines(base, ours, theirs, 1);
+}
+
+export function isMarkdownFile(file: string): boolean {
+    return /\.(md|markdown)$/i.test(file);
+}
+
+/**
+ * Union merge of the three sides of a conflicted file. Line endings and the final newline follow ours.
+ */
+export function unionMerge(file: string, base: string, ours: string, theirs: string): string {
+    const eol = ours.includes('\r\n') ? '\r\n' : '\n';
+    const toLines = (content: string) => content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+    const merge = isMarkdownFile(file) ? mergeMarkdownUnion : mergeUnionLines;
+    const merged = merge(toLines(base), toLines(ours), toLines(theirs)).join(eol);
+    return merged && (/\n$/.test(ours) || ours === '') ? `${merged}${eol}` : merged;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Config } from '@grunnverk/core';
+
+vi.mock('@grunnverk/core', () => ({
+    getDryRunLogger: vi.fn(() => ({
+        info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn()
+    })),
+    getLogger: vi.fn(() => ({
+        info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn()
+    })),
+}));
+
+vi.mock('@grunnverk/shared', () => ({
+    ValidationError: class ValidationError extends Error {},
+}));
+
+vi.mock('@grunnverk/git-tools', () => ({
+    run: vi.fn(),
+    runSecure: vi.fn(async () => ({ stdout: '', stderr: '' })),
+}));
+
+vi.mock('../../src/commands/commit', () => ({
+    execute: vi.fn(async () => 'feat: generated message'),
+}));
+
+import { execute as executeCommit } from '../../src/commands/commit';
+import { execute, runHook } from '../../src/commands/hooks';
+
+const createConfig = (overrides: Record<string, any> = {}): Config => ({
+    configDirectory: '.kodrdriv',
+    ...overrides
+} as Config);
+
+describe('hooks command', () => {
+    let directory: string;
+    let messageFile: string;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-hooks-'));
+        messageFile = path.join(directory, 'COMMIT_EDITMSG');
+    });
+
+    afterEach(async () => {
+        delete process.env.KODRDRIV_SKIP_COMMIT_MSG;
+        delete process.env.KODRDRIV_SKIP_HOOKS;
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('fills in a generated message and keeps the comments git wrote', async () => {
+        await fs.writeFile(messageFile, '\n# Please enter the commit message\n');
+
+        await runHook('prepare-commit-msg', [messageFile], createConfig({ commit: { sendit: true } }));
+
+        expect(await fs.readFile(messageFile, 'utf-8')).toBe('feat: generated message\n\n# Please enter the commit message\n');
+        expect(vi.mocked(executeCommit).mock.calls[0][0].commit).toMatchObject({ sendit: false, interactive: false, cached: true });
+    });
+
+    it('only generates a message whatever commit options are configured', async () => {
+        await fs.writeFile(messageFile, '');
+
+        await runHook('prepare-commit-msg', [messageFile], createConfig({
+            commit: { add: true, fixup: { autosquash: true }, resume: true, applyPlan: 'plan.json', undoSplit: true, regenerate: true, push: true },
+        }));
+
+        expect(vi.mocked(executeCommit).mock.calls[0][0].commit).toMatchObject({
+            cached: true,
+            add: false,
+            sendit: false,
+            amend: false,
+            push: false,
+            allowCommitSplitting: false,
+            fixup: false,
+            resume: false,
+            applyPlan: undefined,
+            undoSplit: false,
+            regenerate: false,
+        });
+        expect(await fs.readFile(messageFile, 'utf-8')).toBe('feat: generated message\n\n');
+    });
+
+    it('leaves messages from -m, merges and amends alone', async () => {
+        await fs.writeFile(messageFile, 'fix: typed by hand\n');
+
+        expect(await runHook('prepare-commit-msg', [messageFile, 'message'], createConfig())).toContain('message');
+        expect(await fs.readFile(messageFile, 'utf-8')).toBe('fix: typed by hand\n');
+        expect(executeCommit).not.toHaveBeenCalled();
+    });
+
+    it('rejects messages that break the commit rules', async () => {
+        await fs.writeFile(messageFile, 'did some stuff\n# comment\n');
+        await expect(runHook('commit-msg', [messageFile], createConfig())).rejects.toThrow(/commit rules/);
+
+        await fs.writeFile(messageFile, 'fix: handle empty input\n');
+        expect(await runHook('commit-msg', [messageFile], createConfig())).toContain('follows');
+
+        await fs.writeFile(messageFile, 'Merge branch \'main\'\n');
+        expect(await runHook('commit-msg', [messageFile], createConfig())).toContain('Skipped');
+    });
+
+    it('skips hooks when their environment variable is set', async () => {
+        await fs.writeFile(messageFile, 'did some stuff\n');
+
+        process.env.KODRDRIV_SKIP_COMMIT_MSG = '1';
+        expect(await runHook('commit-msg', [messageFile], createConfig())).toBe('Skipped commit-msg');
+        delete process.env.KODRDRIV_SKIP_COMMIT_MSG;
+
+        process.env.KODRDRIV_SKIP_HOOKS = '1';
+        expect(await runHook('commit-msg', [messageFile], createConfig())).toBe('Skipped commit-msg');
+    });
+
+    it('rejects unknown hook names', async () => {
+        await expect(execute(createConfig({ hooks: { action: 'install', names: ['post-merge'] } }))).rejects.toThrow(/Unknown hook/);
+    });
+});
@@ -25,6 +25,21 @@ describe('command imports and basic validation', () => {
         expect(typeof module.review).toBe('function');
     });
 
+    it('should import hooks command', async () => {
+        const module = await import('../../src/index');
+        expect(module.hooks).toBeDefined();
+        expect(typeof module.hooks).toBe('function');
+    });
+
+    it('should import the structured result variants and their formatters', async () => {
+        const module = await import('../../src/index');
+        for (const name of ['commitForResult', 'precommitForResult', 'reviewForResult', 'pullForResult']) {
+            expect(typeof module[name as keyof typeof module]).toBe('function');
+        }
+        expect(typeof module.formatCommitResult).toBe('function');
+        expect(typeof module.formatPullResult).toBe('function');
+    });
+
     it('should import utility functions', async () => {
         const module = await import('../../src/index');
         expect(module.findAllPackageJsonFiles).toBeDefined();
@@ -63,4 +63,17 @@ describe('precommit command', () => {
         }));
         expect(result).toBeDefined();
     });
+
+    it('returns the precommit steps as a structured result', async () => {
+        const { executeForResult, formatPrecommitResult } = await import('../../src/commands/precommit');
+        const result = await executeForResult(createConfig({ dryRun: true }));
+
+        expect(result).toMatchObject({ dryRun: true, success: true, steps: [{ name: 'precommit', command: 'npm run precommit', status: 'skipped' }] });
+        expect(formatPrecommitResult(result)).toBe('DRY RUN: Would run precommit checks: npm run precommit');
+        expect(formatPrecommitResult({
+            ...result,
+            dryRun: false,
+            steps: [{ name: 'precommit', command: 'npm run precommit', status: 'passed', durationMs: 12340 }],
+        })).toBe('Precommit checks completed successfully in 12.3s');
+    });
 });
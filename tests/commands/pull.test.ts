@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '@grunnverk/core';
+import { execFileSync, execSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Pull for real, inside a clone that each test creates and changes into
+vi.mock('@grunnverk/core', () => {
+    const logger = { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn() };
+    return { getDryRunLogger: vi.fn(() => logger), getLogger: vi.fn(() => logger), Config: {} };
+});
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(async (command: string, args: string[]) => ({
+        stdout: execFileSync(command, args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }),
+        stderr: '',
+    })),
+    run: vi.fn(async (command: string, options: { cwd?: string } = {}) => ({
+        stdout: execSync(command, { cwd: options.cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }),
+        stderr: '',
+    })),
+    getCurrentBranch: vi.fn(async () => execFileSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { encoding: 'utf-8' }).trim()),
+    getGitStatusSummary: vi.fn(async () => ({ hasUncommittedChanges: false, hasUnstagedFiles: false, uncommittedCount: 0, unstagedCount: 0 })),
+}));
+
+vi.mock('@grunnverk/shared', () => ({
+    createStorage: vi.fn(() => ({
+        readFile: (file: string, encoding: BufferEncoding) => fs.readFile(file, encoding),
+        writeFile: (file: string, content: string, encoding: BufferEncoding) => fs.writeFile(file, content, encoding),
+    })),
+}));
+
+import { executeForResult, formatPullResult } from '../../src/commands/pull';
+
+const BUILD_SCRIPT = "const fs = require('fs'); fs.mkdirSync('dist', { recursive: true }); fs.writeFileSync('dist/out.js', fs.readdirSync('src').sort().map(f => fs.readFileSync('src/' + f, 'utf-8')).join(''));";
+
+describe('pull command', () => {
+    const originalCwd = process.cwd();
+    const originalEditor = process.env.GIT_EDITOR;
+    let root: string;
+    let work: string;
+
+    const gitIn = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+    const clone = (name: string) => {
+        const dir = path.join(root, name);
+        gitIn(root, 'clone', '-q', path.join(root, 'origin.git'), dir);
+        gitIn(dir, 'config', 'user.email', 'dev@example.com');
+        gitIn(dir, 'config', 'user.name', 'Dev');
+        gitIn(dir, 'config', 'commit.gpgsign', 'false');
+        return dir;
+    };
+    const writeFiles = async (dir: string, files: Record<string, string>) => {
+        for (const [file, content] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+            await fs.writeFile(path.join(dir, file), content);
+        }
+    };
+    const commitFiles = async (dir: string, files: Record<string, string>, message: string) => {
+        await writeFiles(dir, files);
+        gitIn(dir, 'add', '-A');
+        gitIn(dir, 'commit', '-q', '-m', message);
+    };
+    const packageJson = (fields: Record<string, unknown>) => `${JSON.stringify({ name: 'pkg', version: '1.0.0', ...fields }, null, 2)}\n`;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        process.env.GIT_EDITOR = 'true';
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-pull-'));
+        gitIn(root, 'init', '-q', '--bare', '-b', 'main', 'origin.git');
+        const seed = path.join(root, 'seed');
+        await fs.mkdir(seed);
+        gitIn(seed, 'init', '-q', '-b', 'main');
+        gitIn(seed, 'config', 'user.email', 'dev@example.com');
+        gitIn(seed, 'config', 'user.name', 'Dev');
+        await commitFiles(seed, {
+            'package.json': packageJson({ scripts: { build: 'node build.js' }, dependencies: { a: '^1.0.0' } }),
+            'build.js': BUILD_SCRIPT,
+            'src/a.txt': 'one\n',
+            'dist/out.js': 'one\n',
+        }, 'chore: initial');
+        gitIn(seed, 'push', '-q', path.join(root, 'origin.git'), 'main');
+        work = clone('work');
+        process.chdir(work);
+    });
+
+    afterEach(async () => {
+        process.chdir(originalCwd);
+        if (originalEditor === undefined) {
+            delete process.env.GIT_EDITOR;
+        } else {
+            process.env.GIT_EDITOR = originalEditor;
+        }
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('merges package.json changes from both sides during a rebase', async () => {
+        const other = clone('other');
+        await commitFiles(other, { 'package.json': packageJson({ version: '1.1.0', scripts: { build: 'node build.js', lint: 'eslint .' }, dependencies: { a: '^1.0.0', c: '^3.0.0' } }) }, 'chore: release 1.1.0');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'package.json': packageJson({ scripts: { build: 'node build.js' }, dependencies: { a: '^1.2.0', b: '^2.0.0' } }) }, 'feat: add b');
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv', pull: { rebuild: false } as any } as Config);
+
+        expect(result).toMatchObject({ success: true, strategy: 'rebase', hadConflicts: true, autoResolved: ['package.json'] });
+        expect(result.conflicts).toEqual([{ file: 'package.json', resolved: true, strategy: 'package-json-merge', rule: 'built-in' }]);
+        expect(JSON.parse(await fs.readFile(path.join(work, 'package.json'), 'utf-8'))).toEqual({
+            name: 'pkg',
+            version: '1.1.0',
+            scripts: { build: 'node build.js', lint: 'eslint .' },
+            dependencies: { a: '^1.2.0', b: '^2.0.0', c: '^3.0.0' },
+        });
+        expect(gitIn(work, 'log', '--format=%s').split('\n')).toEqual(['feat: add b', 'chore: release 1.1.0', 'chore: initial']);
+    });
+
+    it('rebuilds generated files taken from one side and commits the changed output', async () => {
+        const other = clone('other');
+        await commitFiles(other, { 'src/a.txt': 'two\n', 'dist/out.js': 'two\n' }, 'feat: two');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'src/b.txt': 'extra\n', 'dist/out.js': 'one\nextra\n' }, 'feat: extra');
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv' } as Config);
+
+        expect(result).toMatchObject({ success: true, hadConflicts: true, autoResolved: ['dist/out.js'] });
+        expect(result.rebuild).toMatchObject({ command: 'npm run build', rebuilt: true, changed: ['dist/out.js'], committed: 'follow-up' });
+        expect(await fs.readFile(path.join(work, 'dist/out.js'), 'utf-8')).toBe('two\nextra\n');
+        expect(gitIn(work, 'log', '--format=%s', '-1')).toBe('chore: rebuild generated files after pull');
+        expect(gitIn(work, 'status', '--porcelain')).toBe('');
+        expect(formatPullResult(result)).toContain('Generated files rebuilt (npm run build): 1 changed, committed as');
+    });
+
+    it('commits rebuilt output as a follow-up commit after a rebase and stages only the generated files', async () => {
+        const other = clone('other');
+        await commitFiles(other, { 'src/types/index.d.ts': 'two\n' }, 'feat: two');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, {
+            'build.js': "require('fs').writeFileSync('src/types/index.d.ts', 'built\\n');",
+            'src/types/index.d.ts': 'local\n',
+        }, 'feat: local');
+        await writeFiles(work, { 'src/types/scratch.ts': 'not for a commit\n' });
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv', pull: { rebuild: { commit: 'amend' } } as any } as Config);
+
+        expect(result).toMatchObject({ success: true, strategy: 'rebase', autoResolved: ['src/types/index.d.ts'] });
+        expect(result.rebuild).toMatchObject({ rebuilt: true, changed: ['src/types/index.d.ts'], committed: 'follow-up' });
+        expect(gitIn(work, 'log', '--format=%s', '-3').split('\n')).toEqual(['chore: rebuild generated files after pull', 'feat: local', 'feat: two']);
+        expect(gitIn(work, 'show', '--format=', '--name-only', 'HEAD')).toBe('src/types/index.d.ts');
+        expect(gitIn(work, 'show', 'HEAD~1:src/types/index.d.ts')).toBe('two');
+        expect(gitIn(work, 'status', '--porcelain')).toBe('?? src/types/scratch.ts');
+    });
+
+    it('resolves conflicts with the first matching configured rule', async () => {
+        const other = clone('other');
+        await commitFiles(other, { 'notes.txt': 'theirs\n', 'src/a.txt': 'theirs\n' }, 'docs: their notes');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'notes.txt': 'ours\n', 'src/a.txt': 'ours\n' }, 'docs: our notes');
+        const rules = [{ pattern: 'notes.txt', strategy: 'ours' }, { pattern: 'src/**', strategy: 'theirs' }];
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv', pull: { rules, rebuild: false } as any } as Config);
+
+        expect(result).toMatchObject({ success: true, strategy: 'rebase' });
+        expect(result.conflicts).toEqual([
+            { file: 'notes.txt', resolved: true, strategy: 'ours', rule: 'rules[0] notes.txt: ours' },
+            { file: 'src/a.txt', resolved: true, strategy: 'theirs', rule: 'rules[1] src/**: theirs' },
+        ]);
+        // ours is the local copy and theirs the remote one, even though the rebase swaps the sides
+        expect(await fs.readFile(path.join(work, 'notes.txt'), 'utf-8')).toBe('ours\n');
+        expect(await fs.readFile(path.join(work, 'src/a.txt'), 'utf-8')).toBe('theirs\n');
+        expect(gitIn(work, 'status', '--porcelain')).toBe('');
+    });
+
+    it('shows which rule would resolve each file in dry-run mode', async () => {
+        const other = clone('other');
+        await commitFiles(other, { 'notes.txt': 'theirs\n', 'src/a.txt': 'theirs\n', 'dist/out.js': 'theirs\n' }, 'docs: their notes');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'notes.txt': 'ours\n', 'src/a.txt': 'ours\n', 'dist/out.js': 'ours\n' }, 'docs: our notes');
+        gitIn(work, 'fetch', '-q', 'origin');
+        const head = gitIn(work, 'rev-parse', 'HEAD');
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv', dryRun: true, pull: { rules: [{ pattern: '*.txt', strategy: 'union' }] } as any } as Config);
+
+        expect(result.strategy).toBe('dry-run');
+        expect(result.conflicts).toEqual([
+            { file: 'dist/out.js', resolved: true, strategy: 'take-theirs-regenerate', rule: 'built-in' },
+            { file: 'notes.txt', resolved: true, strategy: 'union', rule: 'rules[0] *.txt: union' },
+            { file: 'src/a.txt', resolved: true, strategy: 'union', rule: 'rules[0] *.txt: union' },
+        ]);
+        expect(formatPullResult(result)).toContain('   - notes.txt: union (rules[0] *.txt: union)');
+        expect(gitIn(work, 'rev-parse', 'HEAD')).toBe(head);
+    });
+
+    it('keeps the changelog entries from both sides under their section', async () => {
+        const changelog = (...entries: string[]) => ['# Changelog', '', '## [Unreleased]', '', '### Added', '- search', ...entries, '', '## [1.0.0]', '- initial', ''].join('\n');
+        await commitFiles(work, { 'CHANGELOG.md': changelog() }, 'docs: changelog');
+        gitIn(work, 'push', '-q', 'origin', 'main');
+        const other = clone('other');
+        await commitFiles(other, { 'CHANGELOG.md': changelog('- import') }, 'docs: import entry');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'CHANGELOG.md': changelog('- export') }, 'docs: export entry');
+
+        const result = await executeForResult({ configDirectory: '.kodrdriv', pull: { rebuild: false } as any } as Config);
+
+        expect(result).toMatchObject({ success: true, strategy: 'rebase', autoResolved: ['CHANGELOG.md'] });
+        expect(result.conflicts).toEqual([{ file: 'CHANGELOG.md', resolved: true, strategy: 'union', rule: 'built-in' }]);
+        expect(await fs.readFile(path.join(work, 'CHANGELOG.md'), 'utf-8')).toBe(changelog('- import', '- export'));
+    });
+
+    it('commits the regenerated lockfile with the resolved conflicts', async () => {
+        vi.stubEnv('npm_config_audit', 'false');
+        vi.stubEnv('npm_config_fund', 'false');
+        const lockfile = (fields: Record<string, unknown>) => `${JSON.stringify({
+            name: 'pkg',
+            version: '1.0.0',
+            lockfileVersion: 3,
+            requires: true,
+            packages: { '': { name: 'pkg', version: '1.0.0', ...fields } },
+        }, null, 2)}\n`;
+        await commitFiles(work, { 'package.json': packageJson({}), 'package-lock.json': lockfile({}) }, 'chore: lockfile');
+        gitIn(work, 'push', '-q', 'origin', 'main');
+        const other = clone('other');
+        await commitFiles(other, { 'package.json': packageJson({ version: '1.1.0' }), 'package-lock.json': lockfile({ version: '1.1.0' }) }, 'chore: release 1.1.0');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFiles(work, { 'package.json': packageJson({ license: 'MIT' }), 'package-lock.json': lockfile({ license: 'MIT' }) }, 'chore: license');
+
+        try {
+            const result = await executeForResult({ configDirectory: '.kodrdriv', pull: { lockfiles: 'lockfile-only', rebuild: false } as any } as Config);
+
+            expect(result).toMatchObject({ success: true, autoResolved: ['package-lock.json', 'package.json'] });
+            expect(result.lockfiles).toEqual([expect.objectContaining({ directory: '.', regenerated: true, consistent: true, changed: true, staged: true })]);
+            // No commit of its own: the lockfile is part of the replayed local commit
+            expect(gitIn(work, 'log', '--format=%s', '-2').split('\n')).toEqual(['chore: license', 'chore: release 1.1.0']);
+            expect(JSON.parse(gitIn(work, 'show', 'HEAD:package-lock.json')).packages['']).toMatchObject({ version: '1.1.0', license: 'MIT' });
+            expect(gitIn(work, 'status', '--porcelain')).toBe('');
+            expect(formatPullResult(result)).toContain('✓ . (npm): regenerated, committed with the resolved conflicts');
+        } finally {
+            vi.unstubAllEnvs();
+        }
+    });
+});
@@ -58,6 +58,13 @@ vi.mock('@grunnverk/ai-service', () => ({
         conversationHistory: []
     })),
     generateReflectionReport: vi.fn(() => 'reflection report'),
+    getUserChoice: vi.fn(() => 'c'),
+    editContentInEditor: vi.fn(),
+}));
+
+vi.mock('@grunnverk/github-tools', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@grunnverk/github-tools')>(),
+    createIssue: vi.fn(),
 }));
 
 // Helper to create valid Config
@@ -103,4 +110,78 @@ describe('review command', () => {
         }));
         expect(result).toBeDefined();
     });
+
+    it('returns a structured result in dry-run mode', async () => {
+        const { executeForResult, formatReviewResult } = await import('../../src/commands/review');
+        const result = await executeForResult(createConfig({ dryRun: true }));
+        expect(result).toMatchObject({ dryRun: true, issues: [], createdIssues: [] });
+        expect(formatReviewResult(result)).toContain('DRY RUN');
+    });
+
+    it('creates GitHub issues and reports them from their typed fields', async () => {
+        const { createIssue } = await import('@grunnverk/github-tools');
+        vi.mocked(createIssue)
+            .mockResolvedValueOnce({ number: 12, html_url: 'https://github.com/o/r/issues/12' })
+            .mockRejectedValueOnce(new Error('rate limited'));
+        const issues = [
+            { title: 'Fix the header - mobile layout', description: 'Overlaps', priority: 'high', category: 'ui', suggestions: ['Wrap it'] },
+            { title: 'Add alt text', description: 'Images', priority: 'low', category: 'accessibility' },
+        ] as any[];
+        const { createReviewIssues, formatReviewResult } = await import('../../src/commands/review');
+
+        const createdIssues = await createReviewIssues(issues, true);
+
+        expect(createdIssues).toEqual([{ issueIndex: 0, number: 12, title: 'Fix the header - mobile layout', url: 'https://github.com/o/r/issues/12' }]);
+        expect(vi.mocked(createIssue).mock.calls[0][2]).toEqual(['priority-high', 'category-ui', 'review']);
+        expect(vi.mocked(createIssue).mock.calls[0][1]).toContain('## Suggestions\n\n- Wrap it\n');
+        const text = formatReviewResult({ dryRun: false, summary: 'Two issues', totalIssues: 2, issues, createdIssues, filesProcessed: [] });
+        expect(text).toContain('🚀 GitHub Issues Created: 1\n');
+        expect(text).toContain('1. 🔴 Fix the header - mobile layout\n   🎨 Category: ui | Priority: high\n   📖 Description: Overlaps\n   🔗 GitHub Issue: #12 - https://github.com/o/r/issues/12\n   💡 Suggestions:\n      • Wrap it\n');
+        expect(text).toContain('🎯 Created GitHub Issues:\n• #12: Fix the header - mobile layout - https://github.com/o/r/issues/12\n');
+    });
+
+    it('only creates the issues that are confirmed outside sendit mode', async () => {
+        const { getUserChoice } = await import('@grunnverk/ai-service');
+        vi.mocked(getUserChoice).mockResolvedValueOnce('s').mockResolvedValueOnce('c');
+        const { createIssue } = await import('@grunnverk/github-tools');
+        vi.mocked(createIssue).mockResolvedValueOnce({ number: 7, html_url: 'https://github.com/o/r/issues/7' });
+        const { createReviewIssues } = await import('../../src/commands/review');
+
+        const createdIssues = await createReviewIssues([
+            { title: 'One', description: 'a', priority: 'low', category: 'other' },
+            { title: 'Two', description: 'b', priority: 'medium', category: 'content' },
+        ], false);
+
+        expect(createIssue).toHaveBeenCalledTimes(1);
+        expect(createdIssues).toEqual([{ issueIndex: 1, number: 7, title: 'Two', url: 'https://github.com/o/r/issues/7' }]);
+    });
+
+    it('creates the edited issue after the details were edited', async () => {
+        const { getUserChoice, editContentInEditor } = await import('@grunnverk/ai-service');
+        vi.mocked(getUserChoice).mockResolvedValueOnce('e').mockResolvedValueOnce('c');
+        vi.mocked(editContentInEditor).mockResolvedValueOnce({
+            content: 'Title: Fix the login form\nPriority: high\nCategory: nonsense\n\nDescription:\nThe button\ndoes nothing\n\nSuggestions:\n- Wire up the handler\n• Add a test',
+            wasEdited: true,
+        });
+        const { createIssue } = await import('@grunnverk/github-tools');
+        vi.mocked(createIssue).mockResolvedValueOnce({ number: 9, html_url: 'https://github.com/o/r/issues/9' });
+        const { createReviewIssues } = await import('../../src/commands/review');
+        const issues = [{ title: 'Login', description: 'Broken', priority: 'low', category: 'functionality' }] as any[];
+
+        const createdIssues = await createReviewIssues(issues, false);
+
+        expect(getUserChoice).toHaveBeenCalledTimes(2);
+        expect(vi.mocked(getUserChoice).mock.calls[0][1]).toContainEqual({ key: 'e', label: 'Edit issue details' });
+        expect(vi.mocked(editContentInEditor).mock.calls[0][0]).toContain('Title: Login\nPriority: low\nCategory: functionality');
+        expect(issues[0]).toEqual({
+            title: 'Fix the login form',
+            priority: 'high',
+            category: 'functionality',
+            description: 'The button\ndoes nothing',
+            suggestions: ['Wire up the handler', 'Add a test'],
+        });
+        expect(vi.mocked(createIssue).mock.calls[0][0]).toBe('Fix the login form');
+        expect(vi.mocked(createIssue).mock.calls[0][2]).toEqual(['priority-high', 'category-functionality', 'review']);
+        expect(createdIssues).toEqual([{ issueIndex: 0, number: 9, title: 'Fix the login form', url: 'https://github.com/o/r/issues/9' }]);
+    });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+    createAIProvider,
+    resolveProviderConfig,
+    STUB_COMMIT_MESSAGE,
+    STUB_REVIEW_RESULT,
+} from '../../src/util/aiProvider';
+
+vi.mock('@grunnverk/ai-service', () => ({
+    createCompletionWithRetry: vi.fn(async () => 'hosted response'),
+    runAgenticCommit: vi.fn(),
+    isTokenLimitError: vi.fn(() => false),
+    LLMError: class LLMError extends Error {
+        constructor(message: string, public isTokenLimitError = false) {
+            super(message);
+        }
+    },
+}));
+
+const messages = [{ role: 'user' as const, content: 'Describe the change' }];
+
+// Minimal OpenAI-compatible chat completions endpoint on localhost
+async function startServer(content: string): Promise<{ url: string; requests: any[]; close: () => Promise<void> }> {
+    const requests: any[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            requests.push({ path: req.url, body: JSON.parse(body) });
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({
+                id: 'cmpl-1',
+                object: 'chat.completion',
+                created: 0,
+                model: 'llama3',
+                choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+            }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+describe('AI providers', () => {
+    afterEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('defaults to the hosted provider and lets the environment override the config', () => {
+        expect(resolveProviderConfig({}, {})).toEqual({ type: 'hosted' });
+        expect(resolveProviderConfig({ type: 'stub', model: 'a' }, {
+            KODRDRIV_AI_PROVIDER: 'openai-compatible',
+            KODRDRIV_AI_BASE_URL: 'http://localhost:8080/v1',
+            KODRDRIV_AI_MODEL: 'qwen',
+        })).toEqual({ type: 'openai-compatible', baseUrl: 'http://localhost:8080/v1', model: 'qwen' });
+    });
+
+    it('rejects unknown providers and local providers without a URL', () => {
+        expect(() => resolveProviderConfig({ type: 'magic' as any }, {})).toThrow(/Unknown AI provider/);
+        expect(() => resolveProviderConfig({ type: 'openai-compatible' }, {})).toThrow(/baseUrl/);
+    });
+
+    it('delegates to ai-service for hosted models', async () => {
+        const provider = createAIProvider();
+        expect(provider.type).toBe('hosted');
+        expect(provider.runAgenticCommit).toBeDefined();
+        expect(await provider.createCompletion(messages, { model: 'gpt-4o' })).toBe('hosted response');
+    });
+
+    it('answers deterministically with the stub provider', async () => {
+        const provider = createAIProvider({ type: 'stub' });
+        expect(await provider.runAgenticCommit!({ changedFiles: ['a.ts'] })).toMatchObject({ commitMessage: STUB_COMMIT_MESSAGE, suggestedSplits: [] });
+        const splitting = createAIProvider({ type: 'stub', response: 'feat: both', splits: [{ files: ['a.ts'], message: 'feat: a' }] });
+        expect((await splitting.runAgenticCommit!({ changedFiles: ['a.ts'] })).suggestedSplits).toEqual([{ files: ['a.ts'], message: 'feat: a', rationale: '' }]);
+        expect(await provider.createCompletion(messages)).toBe(STUB_COMMIT_MESSAGE);
+        expect(await provider.createCompletion(messages, { responseFormat: { type: 'json_object' } })).toEqual(STUB_REVIEW_RESULT);
+
+        const storage = { writeTemp: vi.fn() } as any;
+        const custom = createAIProvider({ type: 'stub', response: '{"summary":"ok","totalIssues":0}' });
+        expect(await custom.createCompletion(messages, {
+            responseFormat: { type: 'json_object' },
+            debug: true,
+            debugRequestFile: 'req.json',
+            debugResponseFile: 'res.json',
+            storage,
+        })).toEqual({ summary: 'ok', totalIssues: 0 });
+        expect(storage.writeTemp.mock.calls.map((call: any[]) => call[0])).toEqual(['req.json', 'res.json']);
+    });
+
+    it('calls an OpenAI-compatible server with the configured model', async () => {
+        const server = await startServer('feat: add local provider');
+        try {
+            const provider = createAIProvider({ type: 'openai-compatible', baseUrl: server.url, model: 'llama3' });
+            expect(await provider.createCompletion(messages, { model: 'gpt-4o' })).toBe('feat: add local provider');
+            expect(server.requests[0].path).toBe('/v1/chat/completions');
+            expect(server.requests[0].body).toMatchObject({ model: 'llama3', messages });
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('parses fenced JSON from a local server', async () => {
+        const server = await startServer('```json\n{"summary":"s","totalIssues":0}\n```');
+        try {
+            const provider = createAIProvider({ type: 'openai-compatible', baseUrl: server.url });
+            expect(await provider.createCompletion(messages, { responseFormat: { type: 'json_object' } })).toEqual({ summary: 's', totalIssues: 0 });
+        } finally {
+            await server.close();
+        }
+    });
+});
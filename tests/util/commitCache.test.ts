@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import path from 'path';
+import {
+    getCommitCacheKey,
+    getCommitCacheDirectory,
+    readCommitCache,
+    writeCommitCache,
+    evictCommitCache,
+} from '../../src/util/commitCache';
+
+// In-memory stand-in for the shared storage utility
+const createMemoryStorage = () => {
+    const files = new Map<string, string>();
+    return {
+        files,
+        exists: vi.fn(async (file: string) => files.has(file) || [...files.keys()].some(key => key.startsWith(`${file}/`))),
+        readFile: vi.fn(async (file: string) => files.get(file) ?? ''),
+        writeFile: vi.fn(async (file: string, data: string) => {
+            files.set(file, data);
+        }),
+        ensureDirectory: vi.fn(),
+        listFiles: vi.fn(async (directory: string) => [...files.keys()]
+            .filter(file => path.dirname(file) === directory)
+            .map(file => path.basename(file))),
+        deleteFile: vi.fn(async (file: string) => {
+            files.delete(file);
+        }),
+    };
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('commit cache', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keys on the diff, the direction and the model', () => {
+        const key = getCommitCacheKey({ diff: 'diff', direction: 'fix', model: 'gpt-4o' });
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(getCommitCacheKey({ diff: 'diff', direction: 'fix', model: 'gpt-4o' })).toBe(key);
+        expect(getCommitCacheKey({ diff: 'diff2', direction: 'fix', model: 'gpt-4o' })).not.toBe(key);
+        expect(getCommitCacheKey({ diff: 'diff', direction: 'feat', model: 'gpt-4o' })).not.toBe(key);
+        expect(getCommitCacheKey({ diff: 'diff', direction: 'fix', model: 'o3' })).not.toBe(key);
+    });
+
+    it('round-trips messages and split suggestions', async () => {
+        const storage = createMemoryStorage();
+        const splits = [{ files: ['a.ts'], message: 'feat: a', rationale: 'a' }];
+        await writeCommitCache('output', 'k1', { commitMessage: 'feat: all', suggestedSplits: splits, model: 'gpt-4o' }, storage);
+
+        expect(storage.files.has(path.join(getCommitCacheDirectory('output'), 'k1.json'))).toBe(true);
+        const entry = await readCommitCache('output', 'k1', storage);
+        expect(entry).toMatchObject({ key: 'k1', commitMessage: 'feat: all', suggestedSplits: splits, model: 'gpt-4o' });
+        expect(await readCommitCache('output', 'k2', storage)).toBeNull();
+    });
+
+    it('ignores expired and unreadable entries', async () => {
+        const storage = createMemoryStorage();
+        vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+        await writeCommitCache('output', 'old', { commitMessage: 'feat: old', suggestedSplits: [] }, storage);
+        storage.files.set(path.join(getCommitCacheDirectory('output'), 'bad.json'), 'not json');
+
+        vi.setSystemTime(new Date(Date.now() + 8 * DAY));
+        expect(await readCommitCache('output', 'old', storage)).toBeNull();
+        expect(await readCommitCache('output', 'old', storage, { maxAgeDays: 30 })).not.toBeNull();
+        expect(await readCommitCache('output', 'bad', storage)).toBeNull();
+    });
+
+    it('evicts by age, then the oldest entries until under the size limit', async () => {
+        const storage = createMemoryStorage();
+        vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+        await writeCommitCache('output', 'expired', { commitMessage: 'x', suggestedSplits: [] }, storage);
+        vi.setSystemTime(new Date(Date.now() + 5 * DAY));
+        await writeCommitCache('output', 'older', { commitMessage: 'y'.repeat(200), suggestedSplits: [] }, storage);
+        vi.setSystemTime(new Date(Date.now() + DAY));
+        await writeCommitCache('output', 'newer', { commitMessage: 'z'.repeat(200), suggestedSplits: [] }, storage);
+        storage.files.set(path.join(getCommitCacheDirectory('output'), 'bad.json'), '{}');
+
+        const newerSize = storage.files.get(path.join(getCommitCacheDirectory('output'), 'newer.json'))!.length;
+        const removed = await evictCommitCache('output', storage, { maxAgeDays: 3, maxBytes: newerSize + 10 });
+
+        expect(removed).toBe(3);
+        expect([...storage.files.keys()].map(file => path.basename(file))).toEqual(['newer.json']);
+    });
+
+    it('does nothing without a cache directory', async () => {
+        expect(await evictCommitCache('output', createMemoryStorage())).toBe(0);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommitHeader, lintCommitMessage, wrapCommitBody, formatLintIssues } from '../../src/util/commitLint';
+
+const rulesOf = (message: string, rules = {}) => lintCommitMessage(message, rules).issues.map(issue => issue.rule);
+
+describe('commit message lint', () => {
+    it('parses Conventional Commits headers', () => {
+        expect(parseCommitHeader('feat(api)!: drop v1 endpoints')).toEqual({ type: 'feat', scope: 'api', breaking: true, subject: 'drop v1 endpoints' });
+        expect(parseCommitHeader('fix: typo')).toEqual({ type: 'fix', breaking: false, subject: 'typo' });
+        expect(parseCommitHeader('Fix typo')).toBeNull();
+    });
+
+    it('accepts a well formed message', () => {
+        expect(lintCommitMessage('feat(api): add pagination\n\nAdds cursor based pagination.\n\nRefs: #12')).toEqual({ valid: true, issues: [] });
+    });
+
+    it('checks types, scopes and the header', () => {
+        expect(rulesOf('Update things')).toEqual(['header-format']);
+        expect(rulesOf('feature: add x')).toEqual(['type']);
+        expect(rulesOf('feat(db): add x', { scopes: ['api'] })).toEqual(['scope']);
+        expect(rulesOf('feat: add x', { requireScope: true })).toEqual(['scope']);
+        expect(rulesOf('fix: end with a stop.')).toEqual(['subject-full-stop']);
+        expect(rulesOf(`feat: ${'x'.repeat(80)}`)).toEqual(['subject-length']);
+        expect(rulesOf('chore: deps', { types: ['feat'] })).toEqual(['type']);
+    });
+
+    it('checks the body layout', () => {
+        expect(rulesOf('fix: a\nbody right after the header')).toEqual(['body-leading-blank']);
+        expect(rulesOf(`fix: a\n\n${'word '.repeat(30)}`)).toEqual(['body-wrap']);
+        // Code blocks and unbreakable lines such as URLs are allowed to be long
+        expect(rulesOf(`fix: a\n\n\`\`\`\n${'word '.repeat(30)}\n\`\`\`\n\nhttps://example.com/${'x'.repeat(120)}`)).toEqual([]);
+    });
+
+    it('requires a BREAKING CHANGE footer for breaking headers', () => {
+        expect(rulesOf('feat!: drop node 18')).toEqual(['breaking-footer']);
+        expect(rulesOf('feat!: drop node 18\n\nBREAKING CHANGE: node 18 is no longer supported')).toEqual([]);
+        expect(rulesOf('feat!: drop node 18', { requireBreakingFooter: false })).toEqual([]);
+    });
+
+    it('re-wraps long body lines but leaves footers alone', () => {
+        const footer = `Co-authored-by: ${'Someone With A Very Long Name '.repeat(3)}<someone@example.com>`;
+        const message = `fix: a\n\n- ${'word '.repeat(20).trim()}\n\n${footer}`;
+        const wrapped = wrapCommitBody(message, 40);
+
+        expect(wrapped.split('\n')).toEqual([
+            'fix: a',
+            '',
+            '- word word word word word word word',
+            '  word word word word word word word',
+            '  word word word word word word',
+            '',
+            footer,
+        ]);
+    });
+
+    it('formats issues for display', () => {
+        expect(formatLintIssues(lintCommitMessage('feature: x').issues)).toContain('(type)');
+    });
+});
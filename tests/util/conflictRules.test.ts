@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@grunnverk/shared', () => ({
+    ValidationError: class ValidationError extends Error {},
+}));
+
+import {
+    describeConflictRule,
+    findConflictRule,
+    validateConflictRules,
+    type ConflictRule,
+} from '../../src/util/conflictRules';
+import { matchesGlob } from '../../src/util/glob';
+
+const rules: ConflictRule[] = [
+    { pattern: 'CHANGELOG.md', strategy: 'union' },
+    { pattern: ['**/*.snap', '*.snapshot'], strategy: 'regenerate', command: 'npm test -- -u' },
+    { pattern: 'generated/**', strategy: 'ours' },
+    { pattern: '*.md', strategy: 'theirs' },
+];
+
+describe('conflict rules', () => {
+    it('uses the first rule that matches', () => {
+        expect(findConflictRule('CHANGELOG.md', rules)?.index).toBe(0);
+        expect(findConflictRule('docs/CHANGELOG.md', rules)?.index).toBe(0);
+        expect(findConflictRule('docs/guide.md', rules)?.index).toBe(3);
+        expect(findConflictRule('src/__snapshots__/a.test.ts.snap', rules)?.index).toBe(1);
+        expect(findConflictRule('a.snap', rules)?.index).toBe(1);
+        expect(findConflictRule('generated/api/client.ts', rules)?.index).toBe(2);
+        expect(findConflictRule('src/generated/client.ts', rules)).toBeUndefined();
+        expect(findConflictRule('src/index.ts')).toBeUndefined();
+    });
+
+    it('describes the matched rule', () => {
+        expect(describeConflictRule(rules[1], 1)).toBe('rules[1] **/*.snap, *.snapshot: regenerate (npm test -- -u)');
+    });
+
+    it('rejects rules that cannot be applied', () => {
+        expect(() => validateConflictRules(rules)).not.toThrow();
+        expect(() => validateConflictRules([{ pattern: '*.js', strategy: 'script' }])).toThrow('pull.rules[0]: the script strategy needs a command');
+        expect(() => validateConflictRules([{ pattern: '*.js', strategy: 'mine' as any }])).toThrow(/unknown strategy "mine"/);
+        expect(() => validateConflictRules([{ pattern: [], strategy: 'ours' }])).toThrow(/pattern must be/);
+    });
+
+    it('matches globs by path segment', () => {
+        expect(matchesGlob('a/b/c.ts', 'a/**/*.ts')).toBe(true);
+        expect(matchesGlob('a/c.ts', 'a/**/*.ts')).toBe(true);
+        expect(matchesGlob('a/b/c.ts', 'a/*.ts')).toBe(false);
+        expect(matchesGlob('c.ts', '**/*.ts')).toBe(true);
+        expect(matchesGlob('generated/api/client.ts', 'generated/')).toBe(true);
+        expect(matchesGlob('src/generated.ts', '/generated.ts')).toBe(false);
+        expect(matchesGlob('feature/main', 'main', { matchBase: false })).toBe(false);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { splitDiffIntoChunks, batchByTokens, estimateTokens } from '../../src/util/diffChunking';
+
+const fileDiff = (file: string, hunks: string[]) => [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    ...hunks.flatMap((body, index) => [`@@ -${index * 10 + 1},1 +${index * 10 + 1},1 @@`, body]),
+].join('\n');
+
+describe('diff chunking', () => {
+    it('keeps small diffs of one directory in one chunk', () => {
+        const diff = [fileDiff('src/a.ts', ['+a']), fileDiff('src/b.ts', ['+b'])].join('\n');
+        const chunks = splitDiffIntoChunks(diff, 1000);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].files).toEqual(['src/a.ts', 'src/b.ts']);
+        expect(chunks[0].content).toBe(diff);
+    });
+
+    it('starts a new chunk per directory and when the budget is used up', () => {
+        const diff = [
+            fileDiff('src/a.ts', ['+'.repeat(100)]),
+            fileDiff('src/b.ts', ['+'.repeat(100)]),
+            fileDiff('docs/c.md', ['+c']),
+        ].join('\n');
+        const chunks = splitDiffIntoChunks(diff, 50);
+        expect(chunks.map(chunk => chunk.files)).toEqual([['src/a.ts'], ['src/b.ts'], ['docs/c.md']]);
+    });
+
+    it('splits a large file between hunks and repeats its header', () => {
+        const diff = fileDiff('src/big.ts', ['+'.repeat(150), '+'.repeat(150), '+'.repeat(150)]);
+        const chunks = splitDiffIntoChunks(diff, 60);
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => {
+            expect(chunk.files).toEqual(['src/big.ts']);
+            expect(chunk.content.startsWith('diff --git a/src/big.ts b/src/big.ts')).toBe(true);
+            expect(chunk.content.length).toBeLessThanOrEqual(60 * 4);
+        });
+        expect(chunks.map(chunk => chunk.partial)).toEqual([...chunks.slice(1).map(() => true), false]);
+    });
+
+    it('truncates a single hunk that does not fit', () => {
+        const chunks = splitDiffIntoChunks(fileDiff('src/huge.ts', ['+'.repeat(1000)]), 50);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].content).toContain('[hunk truncated]');
+    });
+
+    it('batches texts by token budget', () => {
+        expect(batchByTokens(['a'.repeat(20), 'b'.repeat(20), 'c'.repeat(20)], 10)).toEqual([
+            ['a'.repeat(20), 'b'.repeat(20)],
+            ['c'.repeat(20)],
+        ]);
+        expect(estimateTokens('12345678')).toBe(2);
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Run git for real, inside the temporary repository of the current test
+let repo = '';
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(async (command: string, args: string[]) => ({
+        stdout: execFileSync(command, args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }),
+        stderr: '',
+    })),
+}));
+
+import { parseDiff } from '../../src/util/hunks';
+import {
+    blameChange,
+    getBlameLines,
+    getBranchCommits,
+    getFixupBase,
+    getFixupChanges,
+    groupFixupTargets,
+    hasWorktreeChanges,
+    parseFixupAssignments,
+    runAutosquash,
+} from '../../src/util/fixup';
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+const write = (file: string, lines: string[]) => fs.writeFile(path.join(repo, file), `${lines.join('\n')}\n`);
+const numbered = (prefix: string) => Array.from({ length: 20 }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('fixup targets', () => {
+    beforeEach(async () => {
+        repo = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-fixup-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'dev@example.com');
+        git('config', 'user.name', 'Dev');
+        git('config', 'commit.gpgsign', 'false');
+        await write('a.txt', numbered('a'));
+        await write('b.txt', numbered('b'));
+        git('add', '-A');
+        git('commit', '-q', '-m', 'chore: initial');
+
+        git('checkout', '-q', '-b', 'feature');
+        const a = numbered('a');
+        a[2] = 'a 3 changed on feature';
+        await write('a.txt', a);
+        git('commit', '-qam', 'feat: change a');
+        const b = numbered('b');
+        b[7] = 'b 8 changed on feature';
+        await write('b.txt', b);
+        git('commit', '-qam', 'feat: change b');
+    });
+
+    afterEach(async () => {
+        await fs.rm(repo, { recursive: true, force: true });
+    });
+
+    it('finds the branch base and its commits', async () => {
+        const base = await getFixupBase('main');
+        expect(base).toBe(git('rev-parse', 'main'));
+        expect((await getBranchCommits(base)).map(commit => commit.subject)).toEqual(['feat: change b', 'feat: change a']);
+        await expect(getFixupBase('no-such-branch')).rejects.toThrow(/no-such-branch/);
+    });
+
+    it('maps each staged hunk to the commit that last touched its lines', async () => {
+        const a = numbered('a');
+        a[2] = 'a 3 fixed';
+        a[17] = 'a 18 predates the branch';
+        await write('a.txt', a);
+        const b = numbered('b');
+        b[7] = 'b 8 fixed';
+        await write('b.txt', b);
+        await write('c.txt', ['new file']);
+        git('add', '-A');
+
+        const commits = await getBranchCommits(await getFixupBase('main'));
+        const changes = getFixupChanges(parseDiff(git('diff', '--cached', '--no-renames')));
+        const assignments = new Map();
+        for (const change of changes) {
+            const commit = await blameChange(change, commits);
+            if (commit) {
+                assignments.set(change.id, commit);
+            }
+        }
+
+        const targets = groupFixupTargets(commits, assignments, changes);
+        expect(targets.map(target => [target.commit.subject, target.changes.map(change => change.file)])).toEqual([
+            ['feat: change a', ['a.txt']],
+            ['feat: change b', ['b.txt']],
+        ]);
+        // The untouched line of a.txt and the new file have no target on the branch
+        expect(changes.filter(change => !assignments.has(change.id)).map(change => change.file)).toEqual(['a.txt', 'c.txt']);
+    });
+
+    it('folds fixup commits into their targets', async () => {
+        const a = numbered('a');
+        a[2] = 'a 3 fixed';
+        await write('a.txt', a);
+        const target = git('log', '--format=%H', '-1', 'HEAD~1');
+        git('commit', '-qa', `--fixup=${target}`);
+
+        await runAutosquash(git('rev-parse', 'main'));
+
+        expect(git('log', '--format=%s', 'main..HEAD').split('\n')).toEqual(['feat: change b', 'feat: change a']);
+        expect(git('show', 'HEAD~1:a.txt')).toContain('a 3 fixed');
+    });
+
+    it('refuses to autosquash over uncommitted changes', async () => {
+        const a = numbered('a');
+        a[2] = 'a 3 fixed';
+        await write('a.txt', a);
+        const target = git('log', '--format=%H', '-1', 'HEAD~1');
+        git('commit', '-qa', `--fixup=${target}`);
+        const head = git('rev-parse', 'HEAD');
+        const b = numbered('b');
+        b[0] = 'b 1 not committed';
+        await write('b.txt', b);
+        await write('untracked.txt', ['untracked']);
+
+        expect(await hasWorktreeChanges()).toBe(true);
+        await expect(runAutosquash(git('rev-parse', 'main'))).rejects.toThrow(/uncommitted changes/);
+        expect(git('rev-parse', 'HEAD')).toBe(head);
+        expect(git('stash', 'list')).toBe('');
+        expect(git('show', ':b.txt')).not.toContain('not committed');
+        expect((await fs.readFile(path.join(repo, 'b.txt'), 'utf-8'))).toContain('b 1 not committed');
+
+        git('checkout', '--', 'b.txt');
+        expect(await hasWorktreeChanges()).toBe(false);
+    });
+
+    it('blames removed lines and the lines around insertions', () => {
+        const [fileDiff] = parseDiff([
+            'diff --git a/f b/f',
+            '--- a/f',
+            '+++ b/f',
+            '@@ -4,4 +4,5 @@',
+            ' four',
+            '-five',
+            '+FIVE',
+            ' six',
+            '+inserted',
+            ' seven',
+        ].join('\n'));
+        expect(getBlameLines(fileDiff.hunks[0])).toEqual([5, 6, 7]);
+    });
+
+    it('reads change assignments from the AI answer', () => {
+        const commits = [
+            { sha: 'abcdef1234567890abcdef1234567890abcdef12', subject: 'feat: a' },
+            { sha: '1234567890abcdef1234567890abcdef12345678', subject: 'feat: b' },
+        ];
+        const assignments = parseFixupAssignments('1: abcdef123456\n- 2: 1234567 (feat: b)\n3: ffffffff\nnot an answer', commits);
+        expect([...assignments.entries()].map(([id, commit]) => [id, commit.subject])).toEqual([[1, 'feat: a'], [2, 'feat: b']]);
+    });
+});
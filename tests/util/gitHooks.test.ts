@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import {
+    buildHookBlock,
+    getHookStatus,
+    getSkipEnvName,
+    installHook,
+    resolveHooksLocation,
+    uninstallHook,
+} from '../../src/util/gitHooks';
+
+describe('git hooks', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-hooks-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const hookFile = (name: string) => path.join(directory, name);
+
+    it('names a skip variable per hook', () => {
+        expect(getSkipEnvName('prepare-commit-msg')).toBe('KODRDRIV_SKIP_PREPARE_COMMIT_MSG');
+        expect(buildHookBlock('pre-commit')).toContain('[ -z "$KODRDRIV_SKIP_PRE_COMMIT" ] && [ -z "$KODRDRIV_SKIP_HOOKS" ]');
+        expect(buildHookBlock('pre-commit', 'kodrdriv')).toContain('kodrdriv hooks run pre-commit "$@"');
+    });
+
+    it('writes a new executable hook', async () => {
+        const status = await installHook({ directory, husky: false }, 'pre-commit');
+
+        const content = await fs.readFile(hookFile('pre-commit'), 'utf-8');
+        expect(content.startsWith('#!/bin/sh\n')).toBe(true);
+        expect(content).toContain('npx --no-install kodrdriv hooks run pre-commit');
+        expect((await fs.stat(hookFile('pre-commit'))).mode & 0o111).not.toBe(0);
+        expect(status).toMatchObject({ installed: true, chained: false, foreign: false });
+    });
+
+    it('moves an existing hook aside, runs it first and restores it on uninstall', async () => {
+        await fs.writeFile(hookFile('commit-msg'), '#!/usr/bin/env python3\nprint("lint")\n');
+
+        const installed = await installHook({ directory, husky: false }, 'commit-msg');
+        expect(installed).toMatchObject({ installed: true, chained: true });
+        expect(await fs.readFile(hookFile('commit-msg.pre-kodrdriv'), 'utf-8')).toContain('python3');
+        expect(await fs.readFile(hookFile('commit-msg'), 'utf-8')).toContain('commit-msg.pre-kodrdriv" "$@" || exit $?');
+
+        const removed = await uninstallHook({ directory, husky: false }, 'commit-msg');
+        expect(removed).toMatchObject({ installed: false, chained: false, foreign: true });
+        expect(await fs.readFile(hookFile('commit-msg'), 'utf-8')).toContain('python3');
+    });
+
+    it('appends to husky scripts and leaves the rest of them on uninstall', async () => {
+        await fs.writeFile(hookFile('pre-commit'), 'npx lint-staged\n');
+
+        await installHook({ directory, husky: true }, 'pre-commit');
+        const content = await fs.readFile(hookFile('pre-commit'), 'utf-8');
+        expect(content.startsWith('npx lint-staged\n\n# >>> kodrdriv hook >>>')).toBe(true);
+        expect(await getHookStatus({ directory, husky: true }, 'pre-commit')).toMatchObject({ installed: true, chained: false, foreign: true });
+
+        await uninstallHook({ directory, husky: true }, 'pre-commit');
+        expect(await fs.readFile(hookFile('pre-commit'), 'utf-8')).toBe('npx lint-staged\n');
+    });
+
+    it('refreshes the block when installed again and deletes hooks it created', async () => {
+        await installHook({ directory, husky: false }, 'prepare-commit-msg');
+        await installHook({ directory, husky: false }, 'prepare-commit-msg', 'kodrdriv');
+
+        const content = await fs.readFile(hookFile('prepare-commit-msg'), 'utf-8');
+        expect(content.match(/>>> kodrdriv hook >>>/g)).toHaveLength(1);
+        expect(content).toContain('    kodrdriv hooks run prepare-commit-msg');
+
+        await uninstallHook({ directory, husky: false }, 'prepare-commit-msg');
+        await expect(fs.access(hookFile('prepare-commit-msg'))).rejects.toThrow();
+        expect(await getHookStatus({ directory, husky: false }, 'prepare-commit-msg')).toMatchObject({ installed: false, foreign: false });
+    });
+
+    it('uses the .husky directory when husky owns core.hooksPath', async () => {
+        const outputs: Record<string, string> = {
+            'rev-parse --show-toplevel': '/repo\n',
+            'config --get core.hooksPath': '.husky/_\n',
+            'rev-parse --git-path hooks': '.git/hooks\n',
+        };
+        vi.mocked(runSecure).mockImplementation(async (_cmd: string, args: string[] = []) => ({ stdout: outputs[args.join(' ')] || '', stderr: '' }));
+        expect(await resolveHooksLocation('/repo')).toEqual({ directory: path.join('/repo', '.husky'), husky: true });
+
+        outputs['config --get core.hooksPath'] = '';
+        expect(await resolveHooksLocation('/repo')).toEqual({ directory: path.resolve('/repo', '.git/hooks'), husky: false });
+    });
+});
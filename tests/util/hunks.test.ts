@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import {
+    parseDiff,
+    parseHunkRange,
+    formatHunkRange,
+    selectHunks,
+    buildPartialPatch,
+    verifyHunkCoverage,
+} from '../../src/util/hunks';
+
+const STAGED_DIFF = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,3 +1,4 @@',
+    ' import a from "a";',
+    '+import b from "b";',
+    ' ',
+    ' const x = 1;',
+    '@@ -20,3 +21,3 @@ function run() {',
+    ' const y = 2;',
+    '-console.log(y);',
+    '+logger.info(y);',
+    ' return y;',
+    'diff --git a/README.md b/README.md',
+    'new file mode 100644',
+    'index 0000000..3333333',
+    '--- /dev/null',
+    '+++ b/README.md',
+    '@@ -0,0 +1 @@',
+    '+# Title',
+    '',
+].join('\n');
+
+describe('hunks utilities', () => {
+    describe('parseDiff', () => {
+        it('splits a diff into files and hunks', () => {
+            const files = parseDiff(STAGED_DIFF);
+            expect(files).toHaveLength(2);
+            expect(files[0].file).toBe('src/app.ts');
+            expect(files[0].hunks).toHaveLength(2);
+            expect(files[0].hunks[1]).toMatchObject({ oldStart: 20, oldLines: 3, newStart: 21, newLines: 3 });
+            expect(files[1].isNew).toBe(true);
+            expect(files[1].hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 });
+        });
+    });
+
+    describe('hunk ranges', () => {
+        it('round-trips through format and parse', () => {
+            const range = { oldStart: 20, oldLines: 3, newStart: 21, newLines: 3 };
+            expect(formatHunkRange(range)).toBe('-20,3 +21,3');
+            expect(parseHunkRange('-20,3 +21,3')).toEqual(range);
+            expect(parseHunkRange('@@ -20,3 +21,3 @@')).toEqual(range);
+        });
+
+        it('returns null for malformed ranges', () => {
+            expect(parseHunkRange('lines 1-3')).toBeNull();
+        });
+    });
+
+    describe('selectHunks', () => {
+        it('reports ranges that do not match a staged hunk', () => {
+            const [file] = parseDiff(STAGED_DIFF);
+            const { selected, unmatched } = selectHunks(file, [
+                { oldStart: 20, oldLines: 3, newStart: 21, newLines: 3 },
+                { oldStart: 99, oldLines: 1, newStart: 99, newLines: 1 },
+            ]);
+            expect(selected).toHaveLength(1);
+            expect(unmatched).toHaveLength(1);
+        });
+    });
+
+    describe('buildPartialPatch', () => {
+        it('includes the file header and only the selected hunk', () => {
+            const files = parseDiff(STAGED_DIFF);
+            const patch = buildPartialPatch(files, [
+                { file: 'src/app.ts', hunks: [{ oldStart: 20, oldLines: 3, newStart: 21, newLines: 3 }] },
+            ]);
+            expect(patch).toContain('--- a/src/app.ts');
+            expect(patch).toContain('+logger.info(y);');
+            expect(patch).not.toContain('+import b from "b";');
+            expect(patch.endsWith('\n')).toBe(true);
+        });
+
+        it('rejects unknown hunks', () => {
+            const files = parseDiff(STAGED_DIFF);
+            expect(() => buildPartialPatch(files, [
+                { file: 'src/app.ts', hunks: [{ oldStart: 5, oldLines: 1, newStart: 5, newLines: 1 }] },
+            ])).toThrow('Hunks not found');
+        });
+    });
+
+    describe('verifyHunkCoverage', () => {
+        it('accepts a plan where each hunk is claimed once', () => {
+            const files = parseDiff(STAGED_DIFF);
+            const coverage = verifyHunkCoverage(files, [
+                [{ file: 'src/app.ts', hunks: [{ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4 }] }],
+                [{ file: 'src/app.ts', hunks: [{ oldStart: 20, oldLines: 3, newStart: 21, newLines: 3 }] }],
+            ]);
+            expect(coverage).toEqual({ duplicated: [], missing: [], unknown: [] });
+        });
+
+        it('reports missing and duplicated hunks', () => {
+            const files = parseDiff(STAGED_DIFF);
+            const coverage = verifyHunkCoverage(files, [
+                [{ file: 'src/app.ts', hunks: [{ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4 }] }],
+                [{ file: 'src/app.ts', hunks: [{ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4 }] }],
+            ]);
+            expect(coverage.duplicated).toEqual(['src/app.ts @@ -1,3 +1,4 @@']);
+            expect(coverage.missing).toEqual(['src/app.ts @@ -20,3 +21,3 @@']);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+    formatPackageJsonConflicts,
+    mergePackageJson,
+    pickHigherRange,
+    stringifyPackageJson,
+} from '../../src/util/packageJsonMerge';
+
+const base = {
+    name: 'pkg',
+    version: '1.0.0',
+    scripts: { build: 'tsc', test: 'vitest' },
+    dependencies: { a: '^1.0.0', b: '^2.0.0', c: '^3.0.0' },
+    files: ['dist'],
+};
+
+describe('package.json three-way merge', () => {
+    it('merges dependency maps key by key and keeps the higher range', () => {
+        const ours = { ...base, dependencies: { a: '^1.2.0', b: '^2.0.0', c: '^3.0.0', d: '^1.0.0' } };
+        const theirs = { ...base, dependencies: { a: '^1.1.0', b: '^2.5.0', e: '^4.0.0' } };
+
+        const { merged, conflicts } = mergePackageJson(base, ours, theirs);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.dependencies).toEqual({ a: '^1.2.0', b: '^2.5.0', d: '^1.0.0', e: '^4.0.0' });
+    });
+
+    it('takes the higher version and unions scripts and file lists', () => {
+        const ours = { ...base, version: '1.1.0', scripts: { ...base.scripts, lint: 'eslint .' }, files: ['dist', 'README.md'] };
+        const theirs = { ...base, version: '1.0.1', scripts: { build: 'tsc', test: 'vitest', docs: 'typedoc' }, files: ['lib'] };
+
+        const { merged, conflicts } = mergePackageJson(base, ours, theirs);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.version).toBe('1.1.0');
+        expect(merged.scripts).toEqual({ build: 'tsc', test: 'vitest', lint: 'eslint .', docs: 'typedoc' });
+        expect(merged.files).toEqual(['README.md', 'lib']);
+    });
+
+    it('reports fields that both sides changed differently', () => {
+        const ours = { ...base, scripts: { ...base.scripts, build: 'tsc -b' }, dependencies: { ...base.dependencies, a: 'github:me/a' } };
+        const theirs = { ...base, scripts: { ...base.scripts, build: 'vite build' }, dependencies: { ...base.dependencies, a: '^1.5.0' }, description: 'x' };
+
+        const { merged, conflicts } = mergePackageJson(base, ours, theirs);
+
+        expect(conflicts.map(conflict => conflict.path)).toEqual(['scripts.build', 'dependencies.a']);
+        expect(merged.description).toBe('x');
+        expect(formatPackageJsonConflicts(conflicts)).toContain('scripts.build: ours "tsc -b", theirs "vite build", base "tsc"');
+    });
+
+    it('treats a removal on one side as a change', () => {
+        const ours = { ...base, dependencies: { a: '^1.0.0', b: '^2.0.0' } };
+        const theirs = { ...base, dependencies: { ...base.dependencies, c: '^3.1.0' } };
+
+        expect(mergePackageJson(base, ours, base).merged.dependencies).toEqual({ a: '^1.0.0', b: '^2.0.0' });
+        expect(mergePackageJson(base, ours, theirs).conflicts).toEqual([{ path: 'dependencies.c', base: '^3.0.0', ours: undefined, theirs: '^3.1.0' }]);
+    });
+
+    it('orders version ranges by their lower bound', () => {
+        expect(pickHigherRange('^1.2.0', '~1.3.0')).toBe('~1.3.0');
+        expect(pickHigherRange('>=2.0.0', '^1.9.0')).toBe('>=2.0.0');
+        expect(pickHigherRange('^1.2.0', '~1.2.0')).toBeUndefined();
+        expect(pickHigherRange('workspace:*', '^1.0.0')).toBeUndefined();
+    });
+
+    it('keeps the indentation of the file', () => {
+        expect(stringifyPackageJson({ name: 'pkg' }, '{\n    "name": "old"\n}\n')).toBe('{\n    "name": "pkg"\n}\n');
+        expect(stringifyPackageJson({ name: 'pkg' }, '{"name":"old"}')).toBe('{\n  "name": "pkg"\n}\n');
+    });
+});
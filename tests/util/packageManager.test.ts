@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    detectPackageManager,
+    getLockfileCommands,
+    getLockfileManager,
+} from '../../src/util/packageManager';
+
+describe('package manager detection', () => {
+    let dir: string;
+    const write = (file: string, content = '') => fs.writeFile(path.join(dir, file), content);
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-pm-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('defaults to npm without a lockfile or packageManager field', async () => {
+        await write('package.json', '{"name":"pkg"}');
+        expect(await detectPackageManager(dir)).toEqual({ name: 'npm', source: 'default' });
+    });
+
+    it('goes by the lockfile that is present', async () => {
+        await write('package.json', '{"name":"pkg"}');
+        await write('pnpm-lock.yaml');
+        expect(await detectPackageManager(dir)).toEqual({ name: 'pnpm', lockfile: 'pnpm-lock.yaml', source: 'lockfile' });
+    });
+
+    it('prefers the packageManager field over the lockfile', async () => {
+        await write('package.json', '{"name":"pkg","packageManager":"yarn@4.1.0+sha512.abc"}');
+        await write('yarn.lock');
+        await write('package-lock.json');
+        expect(await detectPackageManager(dir)).toEqual({ name: 'yarn', version: '4.1.0', lockfile: 'yarn.lock', source: 'packageManager' });
+    });
+
+    it('maps lockfile names to their manager', () => {
+        expect(getLockfileManager('packages/a/bun.lockb')).toBe('bun');
+        expect(getLockfileManager('package-lock.json')).toBe('npm');
+        expect(getLockfileManager('package.json')).toBeUndefined();
+    });
+
+    it('picks the commands of each manager and yarn generation', () => {
+        expect(getLockfileCommands({ name: 'npm' }).lockfileOnly).toBe('npm install --package-lock-only --ignore-scripts');
+        expect(getLockfileCommands({ name: 'yarn' }).verify).toBe('yarn install --frozen-lockfile --ignore-scripts');
+        expect(getLockfileCommands({ name: 'yarn', version: '4.1.0' }).verify).toBe('yarn install --immutable --mode=skip-build');
+        expect(getLockfileCommands({ name: 'pnpm' }).lockfileOnly).toBe('pnpm install --lockfile-only');
+        expect(getLockfileCommands({ name: 'bun' }).install).toBe('bun install');
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync, execSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Run git for real, inside the working repository of the current test
+let repo = '';
+vi.mock('@grunnverk/git-tools', () => ({
+    run: vi.fn(async (command: string) => ({
+        stdout: execSync(command, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }),
+        stderr: '',
+    })),
+}));
+
+import {
+    classifyPushFailure,
+    formatPushResult,
+    pushCurrentBranch,
+    resolvePushOptions,
+} from '../../src/util/push';
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('push', () => {
+    let root: string;
+    const gitIn = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+    const git = (...args: string[]) => gitIn(repo, ...args);
+
+    const clone = (name: string) => {
+        const dir = path.join(root, name);
+        gitIn(root, 'clone', '-q', path.join(root, 'origin.git'), dir);
+        gitIn(dir, 'config', 'user.email', 'dev@example.com');
+        gitIn(dir, 'config', 'user.name', 'Dev');
+        gitIn(dir, 'config', 'commit.gpgsign', 'false');
+        return dir;
+    };
+
+    const commitFile = async (cwd: string, file: string, content: string, message: string) => {
+        await fs.writeFile(path.join(cwd, file), content);
+        gitIn(cwd, 'add', file);
+        gitIn(cwd, 'commit', '-q', '-m', message);
+    };
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-push-'));
+        for (const remote of ['origin.git', 'mirror.git']) {
+            gitIn(root, 'init', '-q', '--bare', '-b', 'main', remote);
+        }
+        const seed = path.join(root, 'seed');
+        await fs.mkdir(seed);
+        gitIn(seed, 'init', '-q', '-b', 'main');
+        gitIn(seed, 'config', 'user.email', 'dev@example.com');
+        gitIn(seed, 'config', 'user.name', 'Dev');
+        await commitFile(seed, 'a.txt', 'one\n', 'chore: initial');
+        gitIn(seed, 'push', '-q', path.join(root, 'origin.git'), 'main');
+
+        repo = clone('work');
+        git('remote', 'add', 'mirror', path.join(root, 'mirror.git'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('resolves the push config', () => {
+        expect(resolvePushOptions(false)).toBeNull();
+        expect(resolvePushOptions(true)).toEqual({ remotes: ['origin'], setUpstream: true, forceWithLease: 'amend', retries: 1 });
+        expect(resolvePushOptions('upstream')?.remotes).toEqual(['upstream']);
+        expect(resolvePushOptions({ remotes: ['origin', 'mirror'], retries: 0 })).toMatchObject({ remotes: ['origin', 'mirror'], retries: 0 });
+    });
+
+    it('classifies rejections', () => {
+        expect(classifyPushFailure(' ! [rejected]        main -> main (fetch first)')).toBe('non-fast-forward');
+        expect(classifyPushFailure(' ! [rejected]        main -> main (non-fast-forward)')).toBe('non-fast-forward');
+        expect(classifyPushFailure(' ! [rejected]        main -> main (stale info)')).toBe('stale-lease');
+        expect(classifyPushFailure('fatal: could not read from remote repository')).toBe('error');
+    });
+
+    it('sets the upstream on the first push and pushes to every remote', async () => {
+        git('checkout', '-q', '-b', 'feature');
+        await commitFile(repo, 'b.txt', 'b\n', 'feat: b');
+
+        const result = await pushCurrentBranch({ remotes: ['origin', 'mirror'] }, {}, logger);
+
+        expect(result.success).toBe(true);
+        expect(result.remotes.map(remote => [remote.remote, remote.setUpstream])).toEqual([['origin', true], ['mirror', false]]);
+        expect(git('rev-parse', '--abbrev-ref', '@{upstream}')).toBe('origin/feature');
+        expect(gitIn(path.join(root, 'mirror.git'), 'log', '--format=%s', '-1', 'feature')).toBe('feat: b');
+    });
+
+    it('rebases onto the remote and retries after a non-fast-forward rejection', async () => {
+        const other = clone('other');
+        await commitFile(other, 'c.txt', 'c\n', 'feat: c from someone else');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFile(repo, 'b.txt', 'b\n', 'feat: b');
+
+        const result = await pushCurrentBranch(true, {}, logger);
+
+        expect(result.remotes[0]).toMatchObject({ success: true, attempts: 2, rebased: true });
+        expect(gitIn(path.join(root, 'origin.git'), 'log', '--format=%s', 'main').split('\n')).toEqual(['feat: b', 'feat: c from someone else', 'chore: initial']);
+        expect(formatPushResult(result)).toBe('✅ origin/main (rebased before retry, 2 attempts)');
+    });
+
+    it('reports a rebase conflict as a structured failure and aborts the rebase', async () => {
+        const other = clone('other');
+        await commitFile(other, 'a.txt', 'theirs\n', 'fix: theirs');
+        gitIn(other, 'push', '-q', 'origin', 'main');
+        await commitFile(repo, 'a.txt', 'ours\n', 'fix: ours');
+
+        const result = await pushCurrentBranch({ remote: 'origin' }, {}, logger);
+
+        expect(result.success).toBe(false);
+        expect(result.remotes[0]).toMatchObject({ success: false, rejection: 'rebase-conflict', rebased: false });
+        expect(git('status', '--porcelain')).toBe('');
+        expect(git('log', '--format=%s', '-1')).toBe('fix: ours');
+    });
+
+    it('uses force-with-lease after an amend', async () => {
+        await commitFile(repo, 'b.txt', 'b\n', 'feat: b');
+        git('push', '-q', 'origin', 'main');
+        git('commit', '-q', '--amend', '-m', 'feat: add b');
+
+        const withoutLease = await pushCurrentBranch({ remote: 'origin', retries: 0 }, {}, logger);
+        expect(withoutLease.remotes[0]).toMatchObject({ success: false, rejection: 'non-fast-forward', forced: false });
+
+        const result = await pushCurrentBranch(true, { amended: true }, logger);
+        expect(result.remotes[0]).toMatchObject({ success: true, forced: true });
+        expect(gitIn(path.join(root, 'origin.git'), 'log', '--format=%s', '-1', 'main')).toBe('feat: add b');
+    });
+
+    it('only logs in dry-run mode', async () => {
+        const result = await pushCurrentBranch({ remotes: ['origin', 'mirror'] }, { dryRun: true }, logger);
+        expect(result).toMatchObject({ success: true, dryRun: true });
+        expect(logger.info).toHaveBeenCalledWith('Would push to %s with: git %s', 'mirror', 'push mirror main');
+    });
+});
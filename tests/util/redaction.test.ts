@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { globToRegExp } from '../../src/util/glob';
+import {
+    isPathAllowed,
+    hashIdentifier,
+    redactText,
+    redactDiff,
+    redactInputs,
+    getRedactionReportPath,
+    withRedactedReads,
+    writeRedactionReport,
+} from '../../src/util/redaction';
+
+const fileDiff = (file: string, line: string) => [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1 +1 @@',
+    line,
+    '',
+].join('\n');
+
+describe('redaction', () => {
+    it('matches globs against paths', () => {
+        expect(globToRegExp('*.pem').test('certs/server.pem')).toBe(true);
+        expect(globToRegExp('src/**/*.ts').test('src/a/b/c.ts')).toBe(true);
+        expect(globToRegExp('src/**/*.ts').test('src/c.ts')).toBe(true);
+        expect(globToRegExp('src/*.ts').test('src/a/c.ts')).toBe(false);
+        expect(globToRegExp('secrets/').test('secrets/prod/key.json')).toBe(true);
+        expect(globToRegExp('secrets/').test('other/secrets.json')).toBe(false);
+    });
+
+    it('applies allow and deny lists', () => {
+        const options = { allowPaths: ['src/**'], denyPaths: ['src/internal/**'] };
+        expect(isPathAllowed('src/a.ts', options)).toBe(true);
+        expect(isPathAllowed('docs/a.md', options)).toBe(false);
+        expect(isPathAllowed('src/internal/a.ts', options)).toBe(false);
+        expect(isPathAllowed('anything', {})).toBe(true);
+    });
+
+    it('masks patterns and hashes emails and internal hosts consistently', () => {
+        const text = 'Ticket ACME-1234 by jane@example.com on build.corp.example.com, cc jane@example.com';
+        const { content, counts } = redactText(text, {
+            masks: [{ name: 'ticket', pattern: 'ACME-\\d+' }],
+            hashEmails: true,
+            internalHosts: ['corp.example.com'],
+        });
+        const emailHash = hashIdentifier('jane@example.com');
+        expect(content).toBe(`Ticket [REDACTED:ticket] by email-${emailHash} on host-${hashIdentifier('build.corp.example.com')}, cc email-${emailHash}`);
+        expect(counts).toEqual({ ticket: 1, email: 2, hostname: 1 });
+    });
+
+    it('hashes mask matches when asked and mixes in the salt', () => {
+        const { content } = redactText('user 42', { masks: [{ name: 'user', pattern: '\\d+', hash: true }], salt: 's' });
+        expect(content).toBe(`user user-${hashIdentifier('42', 's')}`);
+        expect(hashIdentifier('42', 's')).not.toBe(hashIdentifier('42'));
+    });
+
+    it('keeps only the header of files outside the path policy', () => {
+        const diff = fileDiff('src/a.ts', '+const a = 1;') + fileDiff('config/prod.yaml', '+host: db1');
+        const { content, counts } = redactDiff(diff, { denyPaths: ['config/'] });
+        expect(content).toContain('+const a = 1;');
+        expect(content).toContain('diff --git a/config/prod.yaml b/config/prod.yaml\n[REDACTED:path excluded by redaction policy]');
+        expect(content).not.toContain('db1');
+        expect(counts).toEqual({ path: 1 });
+    });
+
+    it('redacts named inputs and reports per input and rule', () => {
+        const { inputs, entries } = redactInputs({
+            diffContent: fileDiff('secret.txt', '+x'),
+            logContext: 'Author: a@b.io',
+            context: undefined,
+        }, { denyPaths: ['secret.txt'], hashEmails: true }, ['diffContent']);
+        expect(inputs.diffContent).not.toContain('+x');
+        expect(inputs.logContext).toBe(`Author: email-${hashIdentifier('a@b.io')}`);
+        expect(entries).toEqual([
+            { input: 'diffContent', rule: 'path', count: 1 },
+            { input: 'logContext', rule: 'email', count: 1 },
+        ]);
+    });
+
+    it('refuses files outside the path policy and masks the files the AI tools read', async () => {
+        const storage = { readFile: vi.fn(async (_file: string, _encoding?: string) => 'contact ops@corp.example.com'), writeOutput: vi.fn() };
+        const redacted = withRedactedReads(storage, { denyPaths: ['config/'], hashEmails: true });
+
+        await expect(redacted.readFile('config/prod.yaml', 'utf-8')).rejects.toThrow('excluded from AI input');
+        await expect(redacted.readFile(`${process.cwd()}/config/prod.yaml`)).rejects.toThrow('excluded from AI input');
+        expect(storage.readFile).not.toHaveBeenCalled();
+        expect(await redacted.readFile('src/a.ts', 'utf-8')).toBe(`contact email-${hashIdentifier('ops@corp.example.com')}`);
+        expect(redacted.writeOutput).toBe(storage.writeOutput);
+        expect(withRedactedReads(storage, undefined)).toBe(storage);
+    });
+
+    it('does nothing when not configured or disabled', () => {
+        const inputs = { logContext: 'a@b.io' };
+        expect(redactInputs(inputs, undefined).inputs).toBe(inputs);
+        expect(redactInputs(inputs, { enabled: false, hashEmails: true }).inputs.logContext).toBe('a@b.io');
+    });
+
+    it('writes the report next to the debug request file', async () => {
+        expect(getRedactionReportPath('output/250101-1200-commit.request.json')).toBe('output/250101-1200-commit.redaction.json');
+
+        const storage = { writeFile: vi.fn() };
+        const logger = { info: vi.fn(), warn: vi.fn() };
+        const path = await writeRedactionReport(storage, 'output/x.request.json', 'review', [{ input: 'notes', rule: 'email', count: 2 }], logger);
+        expect(path).toBe('output/x.redaction.json');
+        const report = JSON.parse(storage.writeFile.mock.calls[0][1]);
+        expect(report).toMatchObject({ command: 'review', total: 2, entries: [{ input: 'notes', rule: 'email', count: 2 }] });
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Run git for real, inside the temporary repository of the current test
+let repo = '';
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(async (command: string, args: string[]) => ({
+        stdout: execFileSync(command, args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }),
+        stderr: '',
+    })),
+}));
+
+vi.mock('@grunnverk/shared', () => ({
+    ValidationError: class ValidationError extends Error {},
+}));
+
+import {
+    checkRepoGuards,
+    detectRepoState,
+    enforceRepoGuards,
+    isProtectedBranch,
+    type RepoState,
+} from '../../src/util/repoGuards';
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+const logger = () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() });
+const state = (overrides: Partial<RepoState> = {}): RepoState => ({ branch: 'feature/x', detached: false, ahead: 0, behind: 0, ...overrides });
+
+describe('repository guards', () => {
+    beforeEach(async () => {
+        repo = await fs.mkdtemp(path.join(os.tmpdir(), 'kodrdriv-guards-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'dev@example.com');
+        git('config', 'user.name', 'Dev');
+        git('config', 'commit.gpgsign', 'false');
+        await fs.writeFile(path.join(repo, 'a.txt'), 'one\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'chore: initial');
+    });
+
+    afterEach(async () => {
+        await fs.rm(repo, { recursive: true, force: true });
+    });
+
+    it('detects a detached HEAD and how far the branch is behind its upstream', async () => {
+        git('branch', 'upstream');
+        git('checkout', '-q', 'upstream');
+        git('commit', '-q', '--allow-empty', '-m', 'chore: upstream work');
+        git('checkout', '-q', 'main');
+        git('branch', '-q', '--set-upstream-to=upstream');
+
+        expect(await detectRepoState()).toEqual({ branch: 'main', detached: false, upstream: 'upstream', ahead: 0, behind: 1 });
+
+        git('checkout', '-q', '--detach');
+        expect(await detectRepoState()).toMatchObject({ branch: '', detached: true });
+    });
+
+    it('detects a merge in progress', async () => {
+        git('checkout', '-q', '-b', 'other');
+        await fs.writeFile(path.join(repo, 'a.txt'), 'two\n');
+        git('commit', '-qam', 'feat: two');
+        git('checkout', '-q', 'main');
+        await fs.writeFile(path.join(repo, 'a.txt'), 'three\n');
+        git('commit', '-qam', 'feat: three');
+        expect(() => git('merge', 'other')).toThrow();
+
+        expect((await detectRepoState()).operation).toBe('merge');
+        await expect(enforceRepoGuards('commit', {}, logger())).rejects.toThrow(/merge is in progress.*git merge --abort/);
+    });
+
+    it('matches protected branch globs', () => {
+        expect(isProtectedBranch('main', ['main', 'release/*'])).toBe(true);
+        expect(isProtectedBranch('release/1.0', ['main', 'release/*'])).toBe(true);
+        expect(isProtectedBranch('release/1.0/hotfix', ['release/*'])).toBe(false);
+        expect(isProtectedBranch('release/1.0/hotfix', ['release/**'])).toBe(true);
+        expect(isProtectedBranch('feature/main', ['main'])).toBe(false);
+        expect(isProtectedBranch('main')).toBe(false);
+    });
+
+    it('blocks or warns depending on the configuration', () => {
+        expect(checkRepoGuards(state(), 'commit')).toEqual([]);
+        expect(checkRepoGuards(state({ branch: 'main' }), 'commit', { protectedBranches: ['main'] })[0]).toMatchObject({ guard: 'protected', severity: 'block' });
+        expect(checkRepoGuards(state({ branch: 'main' }), 'push', { protectedBranches: ['main'], allowProtected: true })[0]).toMatchObject({ severity: 'warn' });
+        expect(checkRepoGuards(state({ behind: 2, upstream: 'origin/feature/x' }), 'push')[0]).toMatchObject({ guard: 'behind', severity: 'warn' });
+        expect(checkRepoGuards(state({ behind: 2 }), 'push', { behindUpstream: 'block' })[0].severity).toBe('block');
+        expect(checkRepoGuards(state({ behind: 2 }), 'push', { behindUpstream: 'ignore' })).toEqual([]);
+        expect(checkRepoGuards(state({ detached: true, operation: 'rebase' }), 'split', { enabled: false })).toEqual([]);
+    });
+
+    it('only reports blocking issues in dry-run mode', async () => {
+        git('checkout', '-q', '--detach');
+        const log = logger();
+
+        const issues = await enforceRepoGuards('split', {}, log, true);
+
+        expect(issues.map(issue => issue.guard)).toEqual(['detached']);
+        expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('REPO_GUARD_WOULD_BLOCK'), 'split', 1, expect.any(String));
+        await expect(enforceRepoGuards('split', {}, log)).rejects.toThrow(/Refusing to split/);
+    });
+});
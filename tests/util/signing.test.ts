@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import { withSigning, getCommitSignatures, findRejectedSignatures } from '../../src/util/signing';
+
+describe('commit signing', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('adds signing flags after the subcommand and the format before it', () => {
+        expect(withSigning(['commit', '-m', 'msg'], undefined)).toEqual(['commit', '-m', 'msg']);
+        expect(withSigning(['commit', '-m', 'msg'], false)).toEqual(['commit', '-m', 'msg']);
+        expect(withSigning(['commit', '-m', 'msg'], true)).toEqual(['commit', '--gpg-sign', '-m', 'msg']);
+        expect(withSigning(['merge', 'origin/main'], { key: '~/.ssh/id_ed25519.pub', format: 'ssh' })).toEqual([
+            '-c', 'gpg.format=ssh', 'merge', '--gpg-sign=~/.ssh/id_ed25519.pub', 'origin/main',
+        ]);
+    });
+
+    it('reads signature status for a range of commits', async () => {
+        vi.mocked(runSecure).mockResolvedValue({
+            stdout: 'aaa\tG\tAda <ada@example.com>\tfeat: signed\nbbb\tN\t\tfix: unsigned\nccc\tU\tBob\tchore: untrusted\n',
+            stderr: '',
+        });
+
+        const signatures = await getCommitSignatures('HEAD..origin/main');
+
+        expect(vi.mocked(runSecure).mock.calls[0][1]).toContain('HEAD..origin/main');
+        expect(signatures.map(s => [s.sha, s.status])).toEqual([['aaa', 'good'], ['bbb', 'missing'], ['ccc', 'untrusted']]);
+        expect(findRejectedSignatures(signatures).map(s => s.sha)).toEqual(['bbb', 'ccc']);
+        expect(findRejectedSignatures(signatures, { allowUntrusted: true }).map(s => s.sha)).toEqual(['bbb']);
+    });
+});
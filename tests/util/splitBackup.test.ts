@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import {
+    createSplitBackup,
+    readSplitBackup,
+    restoreSplitBackup,
+    SPLIT_BACKUP_HEAD_REF,
+    SPLIT_BACKUP_INDEX_REF,
+} from '../../src/util/splitBackup';
+
+const gitCalls = () => vi.mocked(runSecure).mock.calls.map(call => (call[1] || []).join(' '));
+
+describe('split backup', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('records HEAD and the index under the backup refs', async () => {
+        vi.mocked(runSecure).mockImplementation(async (_cmd: string, args: string[] = []) => {
+            const outputs: Record<string, string> = {
+                'rev-parse': 'head-sha\n',
+                'symbolic-ref': 'main\n',
+                'write-tree': 'tree-sha\n',
+                'commit-tree': 'index-sha\n',
+            };
+            return { stdout: outputs[args[0]] || '', stderr: '' };
+        });
+
+        const backup = await createSplitBackup();
+
+        expect(backup).toMatchObject({ head: 'head-sha', index: 'index-sha', branch: 'main' });
+        expect(gitCalls()).toContain(`update-ref ${SPLIT_BACKUP_INDEX_REF} index-sha`);
+        expect(gitCalls()).toContain(`update-ref ${SPLIT_BACKUP_HEAD_REF} head-sha`);
+    });
+
+    it('returns null when no backup exists', async () => {
+        vi.mocked(runSecure).mockRejectedValue(new Error('not found'));
+        expect(await readSplitBackup()).toBeNull();
+    });
+
+    it('restores HEAD softly and the index from the backup tree', async () => {
+        vi.mocked(runSecure).mockResolvedValue({ stdout: '', stderr: '' });
+
+        await restoreSplitBackup({ head: 'head-sha', index: 'index-sha', branch: 'main', createdAt: '' });
+
+        expect(gitCalls()).toEqual(['reset --soft head-sha', 'read-tree index-sha^{tree}']);
+    });
+
+    it('makes the branch unborn again when the run started without commits', async () => {
+        vi.mocked(runSecure).mockResolvedValue({ stdout: '', stderr: '' });
+
+        await restoreSplitBackup({ head: null, index: 'index-sha', branch: 'main', createdAt: '' });
+
+        expect(gitCalls()[0]).toBe('update-ref -d HEAD');
+    });
+});
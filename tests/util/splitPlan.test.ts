@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+    SPLIT_PLAN_VERSION,
+    createSplitPlan,
+    serializeSplitPlan,
+    parseSplitPlan,
+    getSplitPlanFilename,
+} from '../../src/util/splitPlan';
+
+describe('split plan', () => {
+    it('round-trips a plan through JSON, including hunk selections', () => {
+        const plan = createSplitPlan([
+            { files: ['src/a.ts'], message: 'feat: a', rationale: 'first' },
+            {
+                files: [],
+                hunks: [{ file: 'src/b.ts', hunks: [{ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 }] }],
+                message: 'fix: b',
+                rationale: 'second',
+            },
+        ], { baseCommit: 'abc123', model: 'gpt-4o' });
+
+        const json = serializeSplitPlan(plan);
+        expect(JSON.parse(json).splits[1].hunks[0].hunks).toEqual(['-10,3 +10,4']);
+
+        const parsed = parseSplitPlan(json);
+        expect(parsed.version).toBe(SPLIT_PLAN_VERSION);
+        expect(parsed.baseCommit).toBe('abc123');
+        expect(parsed.splits[1].hunks?.[0].hunks[0]).toEqual({ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 });
+    });
+
+    it('rejects plans with an unsupported version', () => {
+        expect(() => parseSplitPlan(JSON.stringify({ version: 99, splits: [] }), 'plan.json'))
+            .toThrow('plan.json has unsupported version 99');
+    });
+
+    it('rejects splits without a message', () => {
+        const json = JSON.stringify({ version: SPLIT_PLAN_VERSION, splits: [{ files: ['a.ts'] }] });
+        expect(() => parseSplitPlan(json)).toThrow('split 1 is missing a commit message');
+    });
+
+    it('rejects splits without files or hunks', () => {
+        const json = JSON.stringify({ version: SPLIT_PLAN_VERSION, splits: [{ files: [], message: 'chore: x' }] });
+        expect(() => parseSplitPlan(json)).toThrow('has no files or hunks');
+    });
+
+    it('rejects malformed hunk ranges', () => {
+        const json = JSON.stringify({
+            version: SPLIT_PLAN_VERSION,
+            splits: [{ files: [], hunks: [{ file: 'a.ts', hunks: ['lines 1-3'] }], message: 'chore: x' }],
+        });
+        expect(() => parseSplitPlan(json)).toThrow('invalid hunk range');
+    });
+
+    it('builds a filesystem-safe filename', () => {
+        expect(getSplitPlanFilename(new Date('2026-01-02T03:04:05.678Z'))).toBe('split-plan-2026-01-02T03-04-05-678Z.json');
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    moveFileBetweenSplits,
+    mergeSplits,
+    createSplit,
+    reorderSplit,
+    setSplitMessage,
+    formatSplitContents,
+    parseSplitNumber,
+} from '../../src/util/splitPlanEditor';
+import { PlannedSplit } from '../../src/util/splitPlan';
+
+const hunk = (start: number) => ({ oldStart: start, oldLines: 1, newStart: start, newLines: 2 });
+
+const createSplits = (): PlannedSplit[] => [
+    { files: ['a.ts', 'b.ts'], message: 'feat: a and b', rationale: 'First' },
+    { files: ['c.ts'], hunks: [{ file: 'shared.ts', hunks: [hunk(1)] }], message: 'fix: c', rationale: 'Second' },
+    { files: [], hunks: [{ file: 'shared.ts', hunks: [hunk(20)] }], message: 'chore: shared', rationale: 'Third' },
+];
+
+describe('split plan editor', () => {
+    it('moves a whole file between splits without changing the input', () => {
+        const splits = createSplits();
+        const result = moveFileBetweenSplits(splits, 'b.ts', 0, 1);
+        expect(result[0].files).toEqual(['a.ts']);
+        expect(result[1].files).toEqual(['c.ts', 'b.ts']);
+        expect(splits[0].files).toEqual(['a.ts', 'b.ts']);
+    });
+
+    it('moves hunk selections and drops splits that become empty', () => {
+        const result = moveFileBetweenSplits(createSplits(), 'shared.ts', 2, 1);
+        expect(result).toHaveLength(2);
+        expect(result[1].hunks).toEqual([{ file: 'shared.ts', hunks: [hunk(1), hunk(20)] }]);
+    });
+
+    it('rejects moving a file the split does not contain', () => {
+        expect(() => moveFileBetweenSplits(createSplits(), 'c.ts', 0, 1)).toThrow('Split 1 does not contain c.ts');
+    });
+
+    it('merges the second split into the first', () => {
+        const result = mergeSplits(createSplits(), 1, 2);
+        expect(result).toHaveLength(2);
+        expect(result[1].message).toBe('fix: c');
+        expect(result[1].rationale).toBe('Second Third');
+        expect(result[1].hunks).toEqual([{ file: 'shared.ts', hunks: [hunk(1), hunk(20)] }]);
+    });
+
+    it('creates a new split from files of existing splits', () => {
+        const result = createSplit(createSplits(), ['a.ts', 'c.ts'], 'refactor: new');
+        expect(result.map(split => split.message)).toEqual(['feat: a and b', 'fix: c', 'chore: shared', 'refactor: new']);
+        expect(result[3].files).toEqual(['a.ts', 'c.ts']);
+        expect(result[0].files).toEqual(['b.ts']);
+    });
+
+    it('reorders splits and replaces messages', () => {
+        const reordered = reorderSplit(createSplits(), 2, 0);
+        expect(reordered.map(split => split.message)).toEqual(['chore: shared', 'feat: a and b', 'fix: c']);
+        expect(setSplitMessage(reordered, 0, 'chore: better')[0].message).toBe('chore: better');
+        expect(() => setSplitMessage(reordered, 0, '  ')).toThrow('cannot be empty');
+    });
+
+    it('formats split contents and parses split numbers', () => {
+        const splits = createSplits();
+        expect(formatSplitContents(splits[1])).toEqual(['c.ts', 'shared.ts (hunks: -1,1 +1,2)']);
+        expect(parseSplitNumber(' 2 ', splits)).toBe(1);
+        expect(() => parseSplitNumber('4', splits)).toThrow('There is no split 4');
+        expect(() => parseSplitNumber('two', splits)).toThrow('not a split number');
+    });
+});
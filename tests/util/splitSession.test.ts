@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import {
+    createSplitSession,
+    getPendingSplitIndexes,
+    getExpectedHead,
+    parseSplitSession,
+    serializeSplitSession,
+    getWorkingTreeFingerprints,
+    findFingerprintMismatches,
+} from '../../src/util/splitSession';
+
+const splits = [
+    { files: ['a.ts'], message: 'feat: a', rationale: '' },
+    { files: ['b.ts'], message: 'feat: b', rationale: '' },
+    { files: ['c.ts'], message: 'feat: c', rationale: '' },
+];
+
+describe('split session', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('tracks pending splits and the expected HEAD', () => {
+        const session = createSplitSession(splits, { baseCommit: 'base', fingerprints: {} });
+        expect(getPendingSplitIndexes(session)).toEqual([0, 1, 2]);
+        expect(getExpectedHead(session)).toBe('base');
+
+        session.completed.push({ index: 0, sha: 'sha-a', message: 'feat: a' });
+        session.skipped.push(1);
+        expect(getPendingSplitIndexes(session)).toEqual([2]);
+        expect(getExpectedHead(session)).toBe('sha-a');
+    });
+
+    it('round-trips through JSON', () => {
+        const session = createSplitSession(splits, { fingerprints: { 'a.ts': 'blob' }, stagedDiff: 'diff', stagedBlobs: { 'a.ts': 'staged' } });
+        session.messages['1'] = 'feat: edited b';
+        const parsed = parseSplitSession(serializeSplitSession(session));
+        expect(parsed.messages).toEqual({ '1': 'feat: edited b' });
+        expect(parsed.stagedBlobs).toEqual({ 'a.ts': 'staged' });
+    });
+
+    it('rejects sessions from another format version', () => {
+        expect(() => parseSplitSession('{"version": 2}')).toThrow('unsupported version');
+    });
+
+    it('fingerprints working tree files and records deleted files as null', async () => {
+        vi.mocked(runSecure).mockImplementation(async (_cmd: string, args: string[] = []) => {
+            if (args.includes('gone.ts')) {
+                throw new Error('does not exist');
+            }
+            return { stdout: `hash-${args[2]}\n`, stderr: '' };
+        });
+
+        const fingerprints = await getWorkingTreeFingerprints(['a.ts', 'gone.ts']);
+        expect(fingerprints).toEqual({ 'a.ts': 'hash-a.ts', 'gone.ts': null });
+        expect(findFingerprintMismatches({ 'a.ts': 'old', 'gone.ts': null }, fingerprints)).toEqual(['a.ts']);
+    });
+});
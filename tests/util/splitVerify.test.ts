@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import { mergeCommitMessages, verifySplitCommits } from '../../src/util/splitVerify';
+
+const gitCalls = () => vi.mocked(runSecure).mock.calls.map(call => (call[1] || []).join(' '));
+const logger = { info: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+
+// Two split commits c1 and c2 on top of base; records which commit the worktree has checked out
+let checkedOut = '';
+const mockRepository = (messages: Record<string, string> = {}) => {
+    let created = 0;
+    vi.mocked(runSecure).mockImplementation(async (_cmd: string, args: string[] = []) => {
+        const output = (() => {
+            switch (args[0]) {
+                case 'rev-parse':
+                    if (args[1] === 'HEAD') return 'c2';
+                    if (args[1] === '--show-toplevel') return process.cwd();
+                    return `tree-${args[1].replace('^{tree}', '')}`;
+                case 'rev-list': return 'c1\nc2';
+                case 'log': return messages[args[args.length - 1]] ?? `msg-${args[args.length - 1]}`;
+                case 'commit-tree': return `n${++created}`;
+                case 'checkout': checkedOut = args[3]; return '';
+                case 'write-tree': return 'swapped-tree';
+                default: return '';
+            }
+        })();
+        return { stdout: `${output}\n`, stderr: '' };
+    });
+};
+
+describe('split verification', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        checkedOut = '';
+        mockRepository();
+    });
+
+    it('keeps green commits untouched', async () => {
+        const result = await verifySplitCommits({ base: 'base', check: async () => undefined, logger });
+
+        expect(result.commits.map(commit => [commit.sha, commit.green])).toEqual([['c1', true], ['c2', true]]);
+        expect(result.rewritten).toBe(false);
+        expect(gitCalls().some(call => call.startsWith('update-ref'))).toBe(false);
+    });
+
+    it('swaps a failing commit with the next one when that builds', async () => {
+        const check = async () => {
+            if (checkedOut === 'c1') {
+                throw new Error('build failed');
+            }
+        };
+
+        const result = await verifySplitCommits({ base: 'base', check, logger });
+
+        expect(result.commits).toEqual([
+            { sha: 'n1', message: 'msg-c2', green: true, repair: 'reordered' },
+            { sha: 'n2', message: 'msg-c1', green: true, repair: 'reordered' },
+        ]);
+        expect(gitCalls()).toContain('commit-tree swapped-tree -p base -m msg-c2');
+        expect(gitCalls()).toContain('commit-tree tree-c2 -p n1 -m msg-c1');
+        expect(gitCalls()).toContain('update-ref -m kodrdriv: verified split commits HEAD n2 c2');
+        expect(result.rewritten).toBe(true);
+    });
+
+    it('reports commits that still fail after reordering and merging', async () => {
+        const result = await verifySplitCommits({ base: 'base', check: async () => { throw new Error('broken'); }, logger });
+
+        expect(gitCalls()).toContain('commit-tree tree-c2 -p base -m msg-c1\n\nmsg-c2');
+        expect(result.commits.map(commit => [commit.sha, commit.green])).toEqual([['c1', false], ['c2', false]]);
+        expect(result.rewritten).toBe(false);
+        expect(gitCalls().some(call => call.startsWith('worktree remove'))).toBe(true);
+    });
+
+    it('merges a failing commit with the next one and keeps one trailer block', async () => {
+        mockRepository({
+            c1: 'feat: a\n\nAdds a.\n\nRefs: #1\nSigned-off-by: Ada <ada@example.com>',
+            c2: 'feat: b\n\nRefs: #2\nSigned-off-by: Ada <ada@example.com>',
+        });
+        // Only the merged commit builds
+        const check = async () => {
+            if (checkedOut !== 'n2') {
+                throw new Error('build failed');
+            }
+        };
+
+        const result = await verifySplitCommits({ base: 'base', check, logger });
+
+        const message = 'feat: a\n\nAdds a.\n\nfeat: b\n\nRefs: #1\nSigned-off-by: Ada <ada@example.com>\nRefs: #2';
+        expect(result.commits).toEqual([{ sha: 'n2', message, green: true, repair: 'merged' }]);
+        expect(gitCalls()).toContain(`commit-tree tree-c2 -p base -m ${message}`);
+    });
+
+    it('merges commit messages without trailers as they are', () => {
+        expect(mergeCommitMessages('feat: a', 'feat: b\n\nDetails')).toBe('feat: a\n\nfeat: b\n\nDetails');
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@grunnverk/git-tools', () => ({
+    runSecure: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+    default: { readFile: vi.fn() },
+}));
+
+import { runSecure } from '@grunnverk/git-tools';
+import fs from 'fs/promises';
+import { parseTrailers, appendTrailers, getIssueRefsFromBranch, resolveTrailers, uniqueTrailers } from '../../src/util/trailers';
+
+const mockGit = (outputs: Record<string, string>) => {
+    vi.mocked(runSecure).mockImplementation(async (_cmd: string, args: string[] = []) => {
+        const output = outputs[args.join(' ')];
+        if (output === undefined) {
+            throw new Error('not configured');
+        }
+        return { stdout: `${output}\n`, stderr: '' };
+    });
+};
+
+describe('commit trailers', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('finds the trailer block in the last paragraph only', () => {
+        expect(parseTrailers('fix: a\n\nBody text\n\nRefs: #1\nSigned-off-by: A <a@example.com>')).toEqual({
+            body: 'fix: a\n\nBody text',
+            trailers: [{ key: 'Refs', value: '#1' }, { key: 'Signed-off-by', value: 'A <a@example.com>' }],
+        });
+        expect(parseTrailers('fix: a').trailers).toEqual([]);
+        expect(parseTrailers('fix: a\n\nNote: this is prose\nthat continues').trailers).toEqual([]);
+    });
+
+    it('appends trailers once, merging with an existing block', () => {
+        const message = 'feat: x\n\nDetails.\n\nRefs: #12';
+        expect(appendTrailers(message, [
+            { key: 'refs', value: '#12' },
+            { key: 'Co-authored-by', value: 'B <b@example.com>' },
+            { key: 'Co-authored-by', value: 'B  <b@example.com>' },
+        ])).toBe('feat: x\n\nDetails.\n\nRefs: #12\nCo-authored-by: B <b@example.com>');
+        expect(appendTrailers('feat: x', [{ key: 'Closes', value: '#3' }])).toBe('feat: x\n\nCloses: #3');
+        expect(appendTrailers('feat: x\n', [])).toBe('feat: x\n');
+        expect(uniqueTrailers([
+            { key: 'Refs', value: '#1' },
+            { key: 'refs', value: ' #1 ' },
+            { key: 'Closes', value: ' ' },
+            { key: 'Refs', value: '#2' },
+        ])).toEqual([{ key: 'Refs', value: '#1' }, { key: 'Refs', value: '#2' }]);
+    });
+
+    it('parses issue references from branch names', () => {
+        expect(getIssueRefsFromBranch('feature/123-login')).toEqual(['#123']);
+        expect(getIssueRefsFromBranch('fix/PROJ-45-crash')).toEqual(['PROJ-45']);
+        expect(getIssueRefsFromBranch('issue-7')).toEqual(['#7']);
+        expect(getIssueRefsFromBranch('main')).toEqual([]);
+        expect(getIssueRefsFromBranch('hotfix/42')).toEqual(['#42']);
+        expect(getIssueRefsFromBranch('chore/gh-12-deps')).toEqual(['#12']);
+    });
+
+    it('does not take years or version numbers in branch names for issue references', () => {
+        expect(getIssueRefsFromBranch('feature/2024-refactor')).toEqual([]);
+        expect(getIssueRefsFromBranch('release/1.2.0')).toEqual([]);
+        expect(getIssueRefsFromBranch('upgrade-node-20')).toEqual([]);
+        expect(getIssueRefsFromBranch('feature/v2-api')).toEqual([]);
+        expect(getIssueRefsFromBranch('2024-05-cleanup')).toEqual([]);
+    });
+
+    it('resolves sign-off, pairing, issue and custom trailers', async () => {
+        mockGit({
+            'var GIT_COMMITTER_IDENT': 'Ada Lovelace <ada@example.com> 1700000000 +0000',
+            'config --path --get commit.template': '/home/ada/.gitmessage',
+            'symbolic-ref --quiet --short HEAD': 'feature/42-parser',
+        });
+        vi.mocked(fs.readFile).mockResolvedValue('\n\nCo-authored-by: Grace <grace@example.com>\n' as any);
+
+        const trailers = await resolveTrailers({
+            signOff: true,
+            coAuthors: ['Linus <linus@example.com>'],
+            detectPairing: true,
+            issueRefs: 'Closes',
+            custom: { 'Reviewed-by': ['Ken <ken@example.com>'] },
+        });
+
+        expect(trailers).toEqual([
+            { key: 'Signed-off-by', value: 'Ada Lovelace <ada@example.com>' },
+            { key: 'Co-authored-by', value: 'Linus <linus@example.com>' },
+            { key: 'Co-authored-by', value: 'Grace <grace@example.com>' },
+            { key: 'Closes', value: '#42' },
+            { key: 'Reviewed-by', value: 'Ken <ken@example.com>' },
+        ]);
+    });
+});
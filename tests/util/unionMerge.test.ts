@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getSectionKey, mergeUnionLines, unionMerge } from '../../src/util/unionMerge';
+
+const lines = (text: string) => text.split('\n');
+
+describe('union merge', () => {
+    it('keeps the lines both sides appended, ours first and without duplicates', () => {
+        expect(mergeUnionLines(['a', 'b'], ['a', 'b', 'c', 'shared'], ['a', 'b', 'shared', 'd'])).toEqual(['a', 'b', 'c', 'shared', 'd']);
+        expect(mergeUnionLines(['a', 'b'], ['x', 'a', 'b'], ['y', 'a', 'b'])).toEqual(['x', 'y', 'a', 'b']);
+    });
+
+    it('inserts their lines after the line they followed and honours removals', () => {
+        expect(mergeUnionLines(['a', 'b', 'c'], ['a', 'b', 'c', 'z'], ['a', 'x', 'y', 'c'])).toEqual(['a', 'x', 'y', 'c', 'z']);
+    });
+
+    it('identifies release headings by version', () => {
+        expect(getSectionKey('## [1.2.0] - 2024-05-01')).toBe('1.2.0');
+        expect(getSectionKey('## v2.0.0-beta.1')).toBe('2.0.0-beta.1');
+        expect(getSectionKey('## [Unreleased]')).toBe('unreleased');
+        expect(getSectionKey('### Added')).toBe('added');
+    });
+
+    it('merges changelog entries under their version and category headings', () => {
+        const base = [
+            '# Changelog', '',
+            '## [Unreleased]', '',
+            '### Added', '- search', '',
+            '## [1.0.0] - 2024-01-01', '- initial', '',
+        ].join('\n');
+        const ours = [
+            '# Changelog', '',
+            '## [Unreleased]', '',
+            '### Added', '- search', '- export', '',
+            '### Fixed', '- crash on start', '',
+            '## [1.0.0] - 2024-01-01', '- initial', '',
+        ].join('\n');
+        const theirs = [
+            '# Changelog', '',
+            '## [Unreleased]', '',
+            '### Added', '- search', '- import', '',
+            '### Fixed', '- typo in help', '',
+            '## [1.0.0] - 2024-01-01', '- initial', '',
+        ].join('\n');
+
+        expect(lines(unionMerge('CHANGELOG.md', base, ours, theirs))).toEqual([
+            '# Changelog', '',
+            '## [Unreleased]', '',
+            '### Added', '- search', '- export', '- import', '',
+            '### Fixed', '- crash on start', '- typo in help', '',
+            '## [1.0.0] - 2024-01-01', '- initial', '',
+        ]);
+    });
+
+    it('places a release section only one side has among the other versions', () => {
+        const base = '# Changelog\n\n## 1.1.0\n- b\n\n## 1.0.0\n- a\n';
+        const ours = '# Changelog\n\n## 1.3.0\n- d\n\n## 1.1.0\n- b\n\n## 1.0.0\n- a\n';
+        const theirs = '# Changelog\n\n## 1.1.0\n- b\n\n## 1.0.1\n- fix\n\n## 1.0.0\n- a\n';
+
+        expect(unionMerge('CHANGELOG.md', base, ours, theirs)).toBe('# Changelog\n\n## 1.3.0\n- d\n\n## 1.1.0\n- b\n\n## 1.0.1\n- fix\n\n## 1.0.0\n- a\n');
+    });
+
+    it('keeps the line endings of ours', () => {
+        expect(unionMerge('AUTHORS', 'a\r\n', 'a\r\nb\r\n', 'a\r\nc\r\n')).toBe('a\r\nb\r\nc\r\n');
+    });
+});